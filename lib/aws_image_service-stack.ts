@@ -12,6 +12,8 @@ import * as logs from 'aws-cdk-lib/aws-logs';
 import * as budgets from 'aws-cdk-lib/aws-budgets';
 import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import * as ses from 'aws-cdk-lib/aws-ses';
 import * as path from 'path';
 
@@ -46,12 +48,28 @@ export class AwsImageServiceStack extends cdk.Stack {
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
       // Enable versioning for safety (optional, can disable to save costs)
       versioned: false,
-      // CORS configuration for direct browser uploads (if needed later)
+      // CORS configuration for direct browser uploads (presigned POST / multipart parts)
       cors: [
         {
           allowedMethods: [s3.HttpMethods.GET, s3.HttpMethods.PUT, s3.HttpMethods.POST],
           allowedOrigins: ['*'],
           allowedHeaders: ['*'],
+          // Browsers need the ETag of each uploaded part to complete a multipart upload
+          exposedHeaders: ['ETag'],
+        },
+      ],
+      lifecycleRules: [
+        {
+          // Clean up parts of multipart uploads that were never completed or aborted
+          id: 'abort-incomplete-multipart-uploads',
+          abortIncompleteMultipartUploadAfter: cdk.Duration.days(1),
+        },
+        {
+          // Exports are downloaded right after they are made (the link is valid for an hour),
+          // ZIP archives within a day
+          id: 'expire-exports',
+          prefix: 'exports/',
+          expiration: cdk.Duration.days(1),
         },
       ],
     });
@@ -273,6 +291,8 @@ export class AwsImageServiceStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       // Enable point-in-time recovery for production (disabled for dev to save costs)
       pointInTimeRecovery: false,
+      // Pending (presigned) uploads that are never completed expire automatically
+      timeToLiveAttribute: 'expiresAt',
     });
 
     // Add Global Secondary Index for listing images by status
@@ -291,6 +311,30 @@ export class AwsImageServiceStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Add Global Secondary Index for finding a user's images with identical content (deduplication)
+    imagesTable.addGlobalSecondaryIndex({
+      indexName: 'userId-contentHash-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'contentHash', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Add Global Secondary Index for finding a user's images by location (only images with a geohash)
+    imagesTable.addGlobalSecondaryIndex({
+      indexName: 'userId-geohash-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'geohash', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Add Global Secondary Index for a user's trash, most recently deleted first (only trashed images)
+    imagesTable.addGlobalSecondaryIndex({
+      indexName: 'userId-trashedAt-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'trashedAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Image Analysis table - stores AI analysis results
     const analysisTable = new dynamodb.Table(this, 'AnalysisTable', {
       tableName: 'image-service-analysis',
@@ -304,6 +348,8 @@ export class AwsImageServiceStack extends cdk.Stack {
     });
 
     // Add GSI for listing analysis by status
+    // No longer read (analyses in progress have no analyzedAt) - drop it in a later
+    // deployment, since a table can only add or remove one GSI per update
     analysisTable.addGlobalSecondaryIndex({
       indexName: 'status-analyzedAt-index',
       partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
@@ -311,6 +357,14 @@ export class AwsImageServiceStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Add GSI for listing every user's analysis by status, including analyses in progress
+    analysisTable.addGlobalSecondaryIndex({
+      indexName: 'status-createdAt-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Add GSI for listing analysis by user
     analysisTable.addGlobalSecondaryIndex({
       indexName: 'userId-analyzedAt-index',
@@ -319,6 +373,150 @@ export class AwsImageServiceStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // User limits table - per-user overrides set by admins (e.g. max upload size)
+    const userLimitsTable = new dynamodb.Table(this, 'UserLimitsTable', {
+      tableName: 'image-service-user-limits',
+      partitionKey: {
+        name: 'userId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+    });
+
+    // Idempotency table - remembers Idempotency-Key headers so retried uploads return the original response
+    const idempotencyTable = new dynamodb.Table(this, 'IdempotencyTable', {
+      tableName: 'image-service-idempotency',
+      partitionKey: {
+        name: 'idempotencyKey', // `${userId}#${key}`
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Search index table - one item per stemmed term of an image's analysis (GET /api/search)
+    const searchIndexTable = new dynamodb.Table(this, 'SearchIndexTable', {
+      tableName: 'image-service-search-index',
+      partitionKey: {
+        name: 'term', // `${userId}#${term}`
+        type: dynamodb.AttributeType.STRING
+      },
+      sortKey: {
+        name: 'imageId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+    });
+
+    // Add GSI for finding an image's entries (re-analysis and deletes)
+    searchIndexTable.addGlobalSecondaryIndex({
+      indexName: 'imageId-term-index',
+      partitionKey: { name: 'imageId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'term', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+
+    // Albums table - named groups of a user's images
+    const albumsTable = new dynamodb.Table(this, 'AlbumsTable', {
+      tableName: 'image-service-albums',
+      partitionKey: {
+        name: 'albumId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+    });
+
+    // Add GSI for listing albums by user
+    albumsTable.addGlobalSecondaryIndex({
+      indexName: 'userId-createdAt-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Album images table - one item per image in an album
+    const albumImagesTable = new dynamodb.Table(this, 'AlbumImagesTable', {
+      tableName: 'image-service-album-images',
+      partitionKey: {
+        name: 'albumId',
+        type: dynamodb.AttributeType.STRING
+      },
+      sortKey: {
+        name: 'imageId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+    });
+
+    // Add GSI for listing an album's images, most recently added first
+    albumImagesTable.addGlobalSecondaryIndex({
+      indexName: 'albumId-addedAt-index',
+      partitionKey: { name: 'albumId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'addedAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Add GSI for finding an image's albums (image deletes)
+    albumImagesTable.addGlobalSecondaryIndex({
+      indexName: 'imageId-albumId-index',
+      partitionKey: { name: 'imageId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'albumId', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+
+    // Shares table - share links to an image or album, keyed by their token
+    const sharesTable = new dynamodb.Table(this, 'SharesTable', {
+      tableName: 'image-service-shares',
+      partitionKey: {
+        name: 'shareId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+      // Expired share links are removed automatically
+      timeToLiveAttribute: 'expiresAt',
+    });
+
+    // Add GSI for listing a user's share links, newest first
+    sharesTable.addGlobalSecondaryIndex({
+      indexName: 'userId-createdAt-index',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Add GSI for finding an image's or album's share links (deletes)
+    sharesTable.addGlobalSecondaryIndex({
+      indexName: 'targetId-index',
+      partitionKey: { name: 'targetId', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+
+    // Archives table - ZIP archive jobs, built in the background
+    const archivesTable = new dynamodb.Table(this, 'ArchivesTable', {
+      tableName: 'image-service-archives',
+      partitionKey: {
+        name: 'archiveId',
+        type: dynamodb.AttributeType.STRING
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      pointInTimeRecovery: false,
+      // Archive jobs are removed once their ZIP has expired
+      timeToLiveAttribute: 'expiresAt',
+    });
+
     // ============================================
     // SQS QUEUE - Async Processing
     // ============================================
@@ -345,6 +543,17 @@ export class AwsImageServiceStack extends cdk.Stack {
       },
     });
 
+    // ZIP archive queue - one message per archive to build
+    const archiveQueue = new sqs.Queue(this, 'ArchiveQueue', {
+      queueName: 'image-archive-queue',
+      visibilityTimeout: cdk.Duration.minutes(15), // The build Lambda's timeout
+      retentionPeriod: cdk.Duration.days(1), // Archives expire after a day anyway
+      deadLetterQueue: {
+        queue: deadLetterQueue,
+        maxReceiveCount: 2, // Builds that time out are retried once
+      },
+    });
+
     // ============================================
     // LAMBDA FUNCTIONS
     // ============================================
@@ -356,7 +565,19 @@ export class AwsImageServiceStack extends cdk.Stack {
       BUCKET_NAME: imageBucket.bucketName,
       IMAGES_TABLE: imagesTable.tableName,
       ANALYSIS_TABLE: analysisTable.tableName,
+      USER_LIMITS_TABLE: userLimitsTable.tableName,
+      IDEMPOTENCY_TABLE: idempotencyTable.tableName,
+      SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+      ALBUMS_TABLE: albumsTable.tableName,
+      ALBUM_IMAGES_TABLE: albumImagesTable.tableName,
+      SHARES_TABLE: sharesTable.tableName,
+      ARCHIVES_TABLE: archivesTable.tableName,
+      // How long an Idempotency-Key is remembered (24 hours)
+      IDEMPOTENCY_TTL_SECONDS: '86400',
+      // How long deleted images stay in the trash before they are purged
+      TRASH_RETENTION_DAYS: '30',
       QUEUE_URL: imageQueue.queueUrl,
+      ARCHIVE_QUEUE_URL: archiveQueue.queueUrl,
       // Bedrock model - Claude 3 Sonnet with vision capabilities
       BEDROCK_MODEL_ID: 'anthropic.claude-3-sonnet-20240229-v1:0',
       // Cognito configuration
@@ -395,12 +616,19 @@ export class AwsImageServiceStack extends cdk.Stack {
       handler: 'handler',
       runtime: lambda.Runtime.NODEJS_20_X,
       timeout: cdk.Duration.seconds(120), // Longer timeout for AI processing
-      memorySize: 1024, // More memory for image processing
+      memorySize: 2048, // More memory for decoding and resizing large images
       environment: lambdaEnvironment,
       bundling: {
         minify: true,
         sourceMap: true,
         target: 'node20',
+        // sharp ships native binaries, so install it for the Lambda platform instead of bundling it
+        nodeModules: ['sharp'],
+        environment: {
+          npm_config_os: 'linux',
+          npm_config_cpu: 'x64',
+          npm_config_libc: 'glibc',
+        },
       },
       tracing: lambda.Tracing.ACTIVE,
       logRetention: logs.RetentionDays.ONE_WEEK,
@@ -444,20 +672,167 @@ export class AwsImageServiceStack extends cdk.Stack {
       logRetention: logs.RetentionDays.ONE_WEEK,
     });
 
+    // --- Albums Lambda ---
+    // Handles albums: create/rename/delete, adding and removing images
+    const albumsLambda = new lambdaNodejs.NodejsFunction(this, 'AlbumsFunction', {
+      functionName: 'image-service-albums',
+      entry: path.join(__dirname, '../src/handlers/albums.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.seconds(15),
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    // --- Shares Lambda ---
+    // Handles share links: create/list/revoke, and the public shared view
+    const sharesLambda = new lambdaNodejs.NodejsFunction(this, 'SharesFunction', {
+      functionName: 'image-service-shares',
+      entry: path.join(__dirname, '../src/handlers/shares.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.seconds(15),
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    // --- Trash Lambda ---
+    // Handles the trash: listing, restoring and purging deleted images
+    const trashLambda = new lambdaNodejs.NodejsFunction(this, 'TrashFunction', {
+      functionName: 'image-service-trash',
+      entry: path.join(__dirname, '../src/handlers/trash.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.seconds(30), // Emptying the trash purges up to 100 images
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    // --- Trash Purge Lambda ---
+    // Purges images left in the trash longer than TRASH_RETENTION_DAYS (runs daily)
+    const trashPurgeLambda = new lambdaNodejs.NodejsFunction(this, 'TrashPurgeFunction', {
+      functionName: 'image-service-trash-purge',
+      entry: path.join(__dirname, '../src/handlers/trash.ts'),
+      handler: 'purgeExpiredHandler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    new events.Rule(this, 'TrashPurgeSchedule', {
+      ruleName: 'image-service-trash-purge',
+      description: 'Purge images left in the trash longer than the retention period',
+      schedule: events.Schedule.rate(cdk.Duration.days(1)),
+      targets: [new eventsTargets.LambdaFunction(trashPurgeLambda)],
+    });
+
+    // --- Bulk Lambda ---
+    // Applies one operation (delete, reanalyze, addTags, addToAlbum) to many images
+    const bulkLambda = new lambdaNodejs.NodejsFunction(this, 'BulkFunction', {
+      functionName: 'image-service-bulk',
+      entry: path.join(__dirname, '../src/handlers/bulk.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.seconds(60), // Up to 100 images per request
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    // --- Archives Lambda ---
+    // Handles ZIP archive requests and their status
+    const archivesLambda = new lambdaNodejs.NodejsFunction(this, 'ArchivesFunction', {
+      functionName: 'image-service-archives',
+      entry: path.join(__dirname, '../src/handlers/archives.ts'),
+      handler: 'handler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.seconds(30), // Checks up to 1000 images per request
+      memorySize: 256,
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
+    // --- Archive Build Lambda ---
+    // Streams the images of a requested archive into a ZIP in S3 (triggered by SQS)
+    const archiveBuildLambda = new lambdaNodejs.NodejsFunction(this, 'ArchiveBuildFunction', {
+      functionName: 'image-service-archive-build',
+      entry: path.join(__dirname, '../src/handlers/archives.ts'),
+      handler: 'buildArchiveHandler',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      timeout: cdk.Duration.minutes(15), // Up to 2GB of images
+      memorySize: 1024, // Faster network, and room for the buffered upload parts
+      environment: lambdaEnvironment,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'node20',
+      },
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_WEEK,
+    });
+
     // ============================================
     // IAM PERMISSIONS
     // ============================================
     // Grant each Lambda only the permissions it needs (least privilege)
 
-    // Upload Lambda needs: S3 write, DynamoDB write, SQS send
+    // Upload Lambda needs: S3 write + read (to verify direct uploads), DynamoDB read/write (images, idempotency), SQS send
     imageBucket.grantPut(uploadLambda);
-    imagesTable.grantWriteData(uploadLambda);
+    imageBucket.grantRead(uploadLambda);
+    imageBucket.grantDelete(uploadLambda); // Remove oversized multipart uploads
+    imagesTable.grantReadWriteData(uploadLambda);
+    userLimitsTable.grantReadWriteData(uploadLambda); // Read limits, reserve/release storage quota
+    idempotencyTable.grantReadWriteData(uploadLambda);
     imageQueue.grantSendMessages(uploadLambda);
 
-    // Analysis Lambda needs: S3 read, DynamoDB read/write, Bedrock invoke
+    // Analysis Lambda needs: S3 read + write (renditions) + delete, DynamoDB read/write, Bedrock invoke
     imageBucket.grantRead(analysisLambda);
+    imageBucket.grantPut(analysisLambda, 'renditions/*');
+    imageBucket.grantDelete(analysisLambda, 'renditions/*'); // Remove renditions of images deleted mid-analysis
     imagesTable.grantReadWriteData(analysisLambda);
-    analysisTable.grantWriteData(analysisLambda);
+    analysisTable.grantReadWriteData(analysisLambda); // Read to reuse analysis of duplicate content
+    searchIndexTable.grantReadWriteData(analysisLambda);
 
     // Bedrock permissions (not available as a CDK grant method, so we add manually)
     analysisLambda.addToRolePolicy(new iam.PolicyStatement({
@@ -469,8 +844,78 @@ export class AwsImageServiceStack extends cdk.Stack {
     // Query Lambda needs: S3 read (for presigned URLs) + delete, DynamoDB read + write (for delete operations)
     imageBucket.grantRead(queryLambda);
     imageBucket.grantDelete(queryLambda);
+    imageBucket.grantPut(queryLambda, 'exports/*'); // GeoJSON/KML exports
     imagesTable.grantReadWriteData(queryLambda);
     analysisTable.grantReadWriteData(queryLambda);
+    userLimitsTable.grantReadWriteData(queryLambda); // Release storage quota on delete
+    searchIndexTable.grantReadWriteData(queryLambda); // Search, and remove deleted images
+    albumsTable.grantReadWriteData(queryLambda); // Remove deleted images from their albums
+    albumImagesTable.grantReadWriteData(queryLambda);
+    sharesTable.grantReadWriteData(queryLambda); // Revoke share links of deleted images
+
+    // Albums Lambda needs: DynamoDB read/write (albums), read (images, analysis for ?include=), S3 read (presigned URLs)
+    albumsTable.grantReadWriteData(albumsLambda);
+    albumImagesTable.grantReadWriteData(albumsLambda);
+    imagesTable.grantReadData(albumsLambda);
+    analysisTable.grantReadData(albumsLambda);
+    imageBucket.grantRead(albumsLambda);
+    sharesTable.grantReadWriteData(albumsLambda); // Revoke share links of deleted albums
+
+    // Shares Lambda needs: DynamoDB read/write (shares), read (shared images, analysis, albums), S3 read (presigned URLs)
+    sharesTable.grantReadWriteData(sharesLambda);
+    imagesTable.grantReadData(sharesLambda);
+    analysisTable.grantReadData(sharesLambda);
+    albumsTable.grantReadData(sharesLambda);
+    albumImagesTable.grantReadData(sharesLambda);
+    imageBucket.grantRead(sharesLambda);
+
+    // Trash Lambda needs: S3 read (presigned URLs) + delete, and DynamoDB read/write on everything a purge removes
+    imageBucket.grantRead(trashLambda);
+    imageBucket.grantDelete(trashLambda);
+    imagesTable.grantReadWriteData(trashLambda);
+    analysisTable.grantReadWriteData(trashLambda);
+    userLimitsTable.grantReadWriteData(trashLambda);
+    searchIndexTable.grantReadWriteData(trashLambda);
+    albumsTable.grantReadWriteData(trashLambda);
+    albumImagesTable.grantReadWriteData(trashLambda);
+    sharesTable.grantReadWriteData(trashLambda);
+
+    // Trash Purge Lambda needs: the same, without S3 read
+    imageBucket.grantDelete(trashPurgeLambda);
+    imagesTable.grantReadWriteData(trashPurgeLambda);
+    analysisTable.grantReadWriteData(trashPurgeLambda);
+    userLimitsTable.grantReadWriteData(trashPurgeLambda);
+    searchIndexTable.grantReadWriteData(trashPurgeLambda);
+    albumsTable.grantReadWriteData(trashPurgeLambda);
+    albumImagesTable.grantReadWriteData(trashPurgeLambda);
+    sharesTable.grantReadWriteData(trashPurgeLambda);
+
+    // Bulk Lambda needs: DynamoDB read/write (images, albums), SQS send (re-analysis),
+    // and S3 delete + DynamoDB read/write on everything a purge removes (pending uploads)
+    imageBucket.grantDelete(bulkLambda);
+    imagesTable.grantReadWriteData(bulkLambda);
+    analysisTable.grantReadWriteData(bulkLambda);
+    userLimitsTable.grantReadWriteData(bulkLambda);
+    searchIndexTable.grantReadWriteData(bulkLambda);
+    albumsTable.grantReadWriteData(bulkLambda);
+    albumImagesTable.grantReadWriteData(bulkLambda);
+    sharesTable.grantReadWriteData(bulkLambda);
+    imageQueue.grantSendMessages(bulkLambda);
+
+    // Archives Lambda needs: DynamoDB read/write (archives), read (images, albums), S3 read (download URLs), SQS send
+    imageBucket.grantRead(archivesLambda);
+    imagesTable.grantReadData(archivesLambda);
+    albumsTable.grantReadData(archivesLambda);
+    albumImagesTable.grantReadData(archivesLambda);
+    archivesTable.grantReadWriteData(archivesLambda);
+    archiveQueue.grantSendMessages(archivesLambda);
+
+    // Archive Build Lambda needs: S3 read + write (archives), DynamoDB read (images, analysis), read/write (archives)
+    imageBucket.grantRead(archiveBuildLambda);
+    imageBucket.grantPut(archiveBuildLambda, 'exports/*');
+    imagesTable.grantReadData(archiveBuildLambda);
+    analysisTable.grantReadData(archiveBuildLambda);
+    archivesTable.grantReadWriteData(archiveBuildLambda);
 
     // Auth Lambda needs: Cognito permissions (including admin operations for delete/upgrade)
     authLambda.addToRolePolicy(new iam.PolicyStatement({
@@ -500,6 +945,13 @@ export class AwsImageServiceStack extends cdk.Stack {
     // Auth Lambda needs: DynamoDB permissions for deleting user data
     imagesTable.grantReadWriteData(authLambda);
     analysisTable.grantReadWriteData(authLambda);
+    searchIndexTable.grantReadWriteData(authLambda);
+    albumsTable.grantReadWriteData(authLambda);
+    albumImagesTable.grantReadWriteData(authLambda);
+    sharesTable.grantReadWriteData(authLambda);
+
+    // Auth Lambda needs: user limits read/write for the admin limits endpoints and usage in /me
+    userLimitsTable.grantReadWriteData(authLambda);
 
     // ============================================
     // SQS TRIGGER - Connect Queue to Lambda
@@ -511,6 +963,12 @@ export class AwsImageServiceStack extends cdk.Stack {
       maxConcurrency: 5, // Limit concurrent executions to control costs
     }));
 
+    // ZIP archives are built one at a time per Lambda
+    archiveBuildLambda.addEventSource(new lambdaEventSources.SqsEventSource(archiveQueue, {
+      batchSize: 1,
+      maxConcurrency: 2, // Builds are long and move a lot of data
+    }));
+
     // ============================================
     // API GATEWAY - REST API
     // ============================================
@@ -532,6 +990,8 @@ export class AwsImageServiceStack extends cdk.Stack {
           'X-Amz-Security-Token',
           'Accept',
           'Accept-Encoding',
+          'Idempotency-Key',
+          'X-Share-Password',
         ],
         allowCredentials: false,
         statusCode: 200,
@@ -573,25 +1033,96 @@ export class AwsImageServiceStack extends cdk.Stack {
     const uploadResource = apiResource.addResource('upload');
     uploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
 
+    // POST /api/upload/batch - Upload several images in one request (PROTECTED)
+    const batchUploadResource = uploadResource.addResource('batch');
+    batchUploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/url - Fetch an image from a public URL (PROTECTED)
+    const urlUploadResource = uploadResource.addResource('url');
+    urlUploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/presigned - Get a presigned S3 POST for a direct upload (PROTECTED)
+    const presignedUploadResource = uploadResource.addResource('presigned');
+    presignedUploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/presigned/{imageId}/complete - Verify a direct upload and queue analysis (PROTECTED)
+    const completePresignedUploadResource = presignedUploadResource
+      .addResource('{imageId}')
+      .addResource('complete');
+    completePresignedUploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/multipart - Start a multipart upload for large images (PROTECTED)
+    const multipartUploadResource = uploadResource.addResource('multipart');
+    multipartUploadResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // DELETE /api/upload/multipart/{imageId} - Abort a multipart upload (PROTECTED)
+    const singleMultipartUploadResource = multipartUploadResource.addResource('{imageId}');
+    singleMultipartUploadResource.addMethod('DELETE', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/multipart/{imageId}/parts - Get presigned URLs for parts (PROTECTED)
+    const multipartPartsResource = singleMultipartUploadResource.addResource('parts');
+    multipartPartsResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/upload/multipart/{imageId}/complete - Assemble parts and queue analysis (PROTECTED)
+    const multipartCompleteResource = singleMultipartUploadResource.addResource('complete');
+    multipartCompleteResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
     // /api/images - Image operations
     const imagesResource = apiResource.addResource('images');
 
     // GET /api/images - List all images (PROTECTED)
     imagesResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
 
+    // GET /api/images/near - Images within a radius of a point (PROTECTED)
+    const nearImagesResource = imagesResource.addResource('near');
+    nearImagesResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // GET /api/images/within - Images inside a bounding box (PROTECTED)
+    const withinImagesResource = imagesResource.addResource('within');
+    withinImagesResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // GET /api/images/clusters - Map clusters for a viewport (PROTECTED)
+    const clustersImagesResource = imagesResource.addResource('clusters');
+    clustersImagesResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // GET /api/images/export - GeoJSON/KML export of geotagged images (PROTECTED)
+    const exportImagesResource = imagesResource.addResource('export');
+    exportImagesResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // POST /api/images/bulk - Delete, re-analyze, tag or add to an album many images at once (PROTECTED)
+    const bulkImagesResource = imagesResource.addResource('bulk');
+    bulkImagesResource.addMethod('POST', new apigateway.LambdaIntegration(bulkLambda), protectedMethodOptions);
+
     // /api/images/{imageId}
     const singleImageResource = imagesResource.addResource('{imageId}');
 
     // GET /api/images/{imageId} - Get image file (PROTECTED)
     singleImageResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
 
-    // DELETE /api/images/{imageId} - Delete image and all associated data (PROTECTED)
+    // PATCH /api/images/{imageId} - Edit image metadata (PROTECTED)
+    singleImageResource.addMethod('PATCH', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // DELETE /api/images/{imageId} - Move an image to the trash (PROTECTED)
     singleImageResource.addMethod('DELETE', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
 
-    // GET /api/images/{imageId}/info - Get image metadata (PROTECTED)
+    // PUT /api/images/{imageId} - Replace the image file, keeping the previous version (PROTECTED)
+    singleImageResource.addMethod('PUT', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // POST /api/images/{imageId}/versions/{version}/restore - Make an earlier version current again (PROTECTED)
+    const restoreVersionResource = singleImageResource
+      .addResource('versions')
+      .addResource('{version}')
+      .addResource('restore');
+    restoreVersionResource.addMethod('POST', new apigateway.LambdaIntegration(uploadLambda), protectedMethodOptions);
+
+    // GET /api/images/{imageId}/info - Get image metadata and version history (PROTECTED)
     const imageInfoResource = singleImageResource.addResource('info');
     imageInfoResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
 
+    // GET /api/images/{imageId}/details - Image metadata, analysis and download URLs (PROTECTED)
+    const imageDetailsResource = singleImageResource.addResource('details');
+    imageDetailsResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
     // /api/analysis - Analysis operations
     const analysisResource = apiResource.addResource('analysis');
 
@@ -602,6 +1133,78 @@ export class AwsImageServiceStack extends cdk.Stack {
     const singleAnalysisResource = analysisResource.addResource('{imageId}');
     singleAnalysisResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
 
+    // GET /api/search - Full-text search over analysis results (PROTECTED)
+    const searchResource = apiResource.addResource('search');
+    searchResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda), protectedMethodOptions);
+
+    // /api/albums - Albums (PROTECTED)
+    const albumsResource = apiResource.addResource('albums');
+
+    // GET /api/albums - List albums (PROTECTED)
+    albumsResource.addMethod('GET', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+
+    // POST /api/albums - Create an album (PROTECTED)
+    albumsResource.addMethod('POST', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+
+    // GET/PATCH/DELETE /api/albums/{albumId} - Get, edit or delete an album (PROTECTED)
+    const singleAlbumResource = albumsResource.addResource('{albumId}');
+    singleAlbumResource.addMethod('GET', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+    singleAlbumResource.addMethod('PATCH', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+    singleAlbumResource.addMethod('DELETE', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+
+    // GET/POST /api/albums/{albumId}/images - List or add an album's images (PROTECTED)
+    const albumImagesResource = singleAlbumResource.addResource('images');
+    albumImagesResource.addMethod('GET', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+    albumImagesResource.addMethod('POST', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+
+    // DELETE /api/albums/{albumId}/images/{imageId} - Remove an image from an album (PROTECTED)
+    const albumImageResource = albumImagesResource.addResource('{imageId}');
+    albumImageResource.addMethod('DELETE', new apigateway.LambdaIntegration(albumsLambda), protectedMethodOptions);
+
+    // /api/shares - Share links (PROTECTED)
+    const sharesResource = apiResource.addResource('shares');
+
+    // GET /api/shares - List your active share links (PROTECTED)
+    sharesResource.addMethod('GET', new apigateway.LambdaIntegration(sharesLambda), protectedMethodOptions);
+
+    // POST /api/shares - Create a share link for an image or album (PROTECTED)
+    sharesResource.addMethod('POST', new apigateway.LambdaIntegration(sharesLambda), protectedMethodOptions);
+
+    // DELETE /api/shares/{shareId} - Revoke a share link (PROTECTED)
+    const singleShareResource = sharesResource.addResource('{shareId}');
+    singleShareResource.addMethod('DELETE', new apigateway.LambdaIntegration(sharesLambda), protectedMethodOptions);
+
+    // GET /api/shared/{token} - View a shared image or album (PUBLIC - the token is the credential)
+    const sharedResource = apiResource.addResource('shared').addResource('{token}');
+    sharedResource.addMethod('GET', new apigateway.LambdaIntegration(sharesLambda));
+
+    // /api/trash - Deleted images (PROTECTED)
+    const trashResource = apiResource.addResource('trash');
+
+    // GET /api/trash - List images in the trash (PROTECTED)
+    trashResource.addMethod('GET', new apigateway.LambdaIntegration(trashLambda), protectedMethodOptions);
+
+    // DELETE /api/trash - Empty the trash (PROTECTED)
+    trashResource.addMethod('DELETE', new apigateway.LambdaIntegration(trashLambda), protectedMethodOptions);
+
+    // DELETE /api/trash/{imageId} - Purge an image from the trash (PROTECTED)
+    const trashedImageResource = trashResource.addResource('{imageId}');
+    trashedImageResource.addMethod('DELETE', new apigateway.LambdaIntegration(trashLambda), protectedMethodOptions);
+
+    // POST /api/trash/{imageId}/restore - Restore an image from the trash (PROTECTED)
+    const restoreResource = trashedImageResource.addResource('restore');
+    restoreResource.addMethod('POST', new apigateway.LambdaIntegration(trashLambda), protectedMethodOptions);
+
+    // /api/archives - ZIP archives of images (PROTECTED)
+    const archivesResource = apiResource.addResource('archives');
+
+    // POST /api/archives - Request a ZIP archive of images (PROTECTED)
+    archivesResource.addMethod('POST', new apigateway.LambdaIntegration(archivesLambda), protectedMethodOptions);
+
+    // GET /api/archives/{archiveId} - Archive status and download URL (PROTECTED)
+    const singleArchiveResource = archivesResource.addResource('{archiveId}');
+    singleArchiveResource.addMethod('GET', new apigateway.LambdaIntegration(archivesLambda), protectedMethodOptions);
+
     // /api/auth - Authentication endpoints (PUBLIC)
     const authResource = apiResource.addResource('auth');
 
@@ -635,6 +1238,16 @@ export class AwsImageServiceStack extends cdk.Stack {
     const upgradeResource = authResource.addResource('upgrade');
     upgradeResource.addMethod('PATCH', new apigateway.LambdaIntegration(authLambda), protectedMethodOptions);
 
+    // /api/admin - Admin-only endpoints (PROTECTED, admin group checked in Lambda)
+    const adminResource = apiResource.addResource('admin');
+    const adminUsersResource = adminResource.addResource('users');
+    const adminSingleUserResource = adminUsersResource.addResource('{userId}');
+
+    // GET/PUT /api/admin/users/{userId}/limits - View or override a user's limits
+    const adminUserLimitsResource = adminSingleUserResource.addResource('limits');
+    adminUserLimitsResource.addMethod('GET', new apigateway.LambdaIntegration(authLambda), protectedMethodOptions);
+    adminUserLimitsResource.addMethod('PUT', new apigateway.LambdaIntegration(authLambda), protectedMethodOptions);
+
     // Health check endpoint (PUBLIC)
     const healthResource = api.root.addResource('health');
     healthResource.addMethod('GET', new apigateway.LambdaIntegration(queryLambda));
@@ -667,12 +1280,60 @@ export class AwsImageServiceStack extends cdk.Stack {
       exportName: 'ImageServiceAnalysisTable',
     });
 
+    new cdk.CfnOutput(this, 'UserLimitsTableName', {
+      value: userLimitsTable.tableName,
+      description: 'DynamoDB User Limits table',
+      exportName: 'ImageServiceUserLimitsTable',
+    });
+
+    new cdk.CfnOutput(this, 'IdempotencyTableName', {
+      value: idempotencyTable.tableName,
+      description: 'DynamoDB Idempotency table',
+      exportName: 'ImageServiceIdempotencyTable',
+    });
+
+    new cdk.CfnOutput(this, 'SearchIndexTableName', {
+      value: searchIndexTable.tableName,
+      description: 'DynamoDB Search Index table',
+      exportName: 'ImageServiceSearchIndexTable',
+    });
+
+    new cdk.CfnOutput(this, 'AlbumsTableName', {
+      value: albumsTable.tableName,
+      description: 'DynamoDB Albums table',
+      exportName: 'ImageServiceAlbumsTable',
+    });
+
+    new cdk.CfnOutput(this, 'AlbumImagesTableName', {
+      value: albumImagesTable.tableName,
+      description: 'DynamoDB Album Images table',
+      exportName: 'ImageServiceAlbumImagesTable',
+    });
+
+    new cdk.CfnOutput(this, 'SharesTableName', {
+      value: sharesTable.tableName,
+      description: 'DynamoDB Shares table',
+      exportName: 'ImageServiceSharesTable',
+    });
+
+    new cdk.CfnOutput(this, 'ArchivesTableName', {
+      value: archivesTable.tableName,
+      description: 'DynamoDB Archives table',
+      exportName: 'ImageServiceArchivesTable',
+    });
+
     new cdk.CfnOutput(this, 'QueueUrl', {
       value: imageQueue.queueUrl,
       description: 'SQS Queue URL',
       exportName: 'ImageServiceQueueUrl',
     });
 
+    new cdk.CfnOutput(this, 'ArchiveQueueUrl', {
+      value: archiveQueue.queueUrl,
+      description: 'SQS ZIP archive queue URL',
+      exportName: 'ImageServiceArchiveQueueUrl',
+    });
+
     new cdk.CfnOutput(this, 'UserPoolId', {
       value: userPool.userPoolId,
       description: 'Cognito User Pool ID',
@@ -0,0 +1,738 @@
+/**
+ * Albums Lambda Handler
+ *
+ * Albums group a user's images - e.g. one per job site. An image can be in
+ * any number of albums; deleting an album keeps its images.
+ *
+ * Routes:
+ * - GET /api/albums - List albums, newest first (?limit=&cursor= pagination)
+ * - POST /api/albums - Create an album
+ * - GET /api/albums/{albumId} - Get an album
+ * - PATCH /api/albums/{albumId} - Rename an album, edit its description or choose its cover
+ * - DELETE /api/albums/{albumId} - Delete an album (not its images)
+ * - GET /api/albums/{albumId}/images - List an album's images, most recently added first (?include=analysis,urls)
+ * - POST /api/albums/{albumId}/images - Add images to an album
+ * - DELETE /api/albums/{albumId}/images/{imageId} - Remove an image from an album
+ *
+ * Users can only see and change their own albums, and only add their own
+ * images to them, unless they are admin.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  Album,
+  AlbumImage,
+  AlbumResponseData,
+  ImageMetadata,
+  UpdateAlbumRequest,
+  ImageInclude,
+  MAX_ALBUM_NAME_LENGTH,
+  MAX_ALBUM_DESCRIPTION_LENGTH,
+  MAX_ALBUMS_PER_USER,
+  MAX_ALBUM_IMAGES_PER_REQUEST,
+} from '../types';
+import { extractUserClaims, isAdmin } from './auth';
+import { parseText } from '../utils/image-fields';
+import { addImagesToAlbum, removeAlbumImages, deleteAlbum } from '../utils/albums';
+import { deleteSharesFor } from '../utils/shares';
+import { toImageSummary, parseIncludes, getImageExtras, batchGetByImageId } from '../utils/image-response';
+import { parsePageParams, encodeCursor, decodeCursor, queryPage } from '../utils/pagination';
+
+// Initialize AWS SDK clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+const ALBUMS_TABLE = process.env.ALBUMS_TABLE!;
+const ALBUM_IMAGES_TABLE = process.env.ALBUM_IMAGES_TABLE!;
+
+/**
+ * Lambda Handler
+ * Routes requests based on path and method
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { path, httpMethod, pathParameters, queryStringParameters } = event;
+
+  const claims = extractUserClaims(event);
+  const userId = claims?.sub;
+  const userIsAdmin = claims ? isAdmin(claims) : false;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Albums request received',
+    action: 'albums_start',
+    path,
+    httpMethod,
+    pathParameters,
+    userId,
+    isAdmin: userIsAdmin,
+  }));
+
+  try {
+    if (!claims || !userId) {
+      return errorResponse(401, 'Unauthorized - valid token required');
+    }
+
+    // List albums (own albums, or another user's for admins)
+    if (path === '/api/albums' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const targetUserId = userIsAdmin ? queryStringParameters?.userId || userId : userId;
+      return listAlbums(targetUserId, page.limit, page.cursor);
+    }
+
+    // Create album
+    if (path === '/api/albums' && httpMethod === 'POST') {
+      return createAlbum(event.body, userId);
+    }
+
+    // Get album
+    if (path.match(/^\/api\/albums\/[^/]+$/) && httpMethod === 'GET') {
+      const albumId = pathParameters?.albumId;
+      if (!albumId) return errorResponse(400, 'Album ID required');
+      return getAlbum(albumId, userId, userIsAdmin);
+    }
+
+    // Edit album
+    if (path.match(/^\/api\/albums\/[^/]+$/) && httpMethod === 'PATCH') {
+      const albumId = pathParameters?.albumId;
+      if (!albumId) return errorResponse(400, 'Album ID required');
+      return updateAlbum(albumId, event.body, userId, userIsAdmin);
+    }
+
+    // Delete album
+    if (path.match(/^\/api\/albums\/[^/]+$/) && httpMethod === 'DELETE') {
+      const albumId = pathParameters?.albumId;
+      if (!albumId) return errorResponse(400, 'Album ID required');
+      return removeAlbum(albumId, userId, userIsAdmin);
+    }
+
+    // List album images
+    if (path.match(/^\/api\/albums\/[^/]+\/images$/) && httpMethod === 'GET') {
+      const albumId = pathParameters?.albumId;
+      if (!albumId) return errorResponse(400, 'Album ID required');
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      return listAlbumImages(albumId, userId, userIsAdmin, includes, page.limit, page.cursor);
+    }
+
+    // Add images to album
+    if (path.match(/^\/api\/albums\/[^/]+\/images$/) && httpMethod === 'POST') {
+      const albumId = pathParameters?.albumId;
+      if (!albumId) return errorResponse(400, 'Album ID required');
+      return addAlbumImages(albumId, event.body, userId, userIsAdmin);
+    }
+
+    // Remove image from album
+    if (path.match(/^\/api\/albums\/[^/]+\/images\/[^/]+$/) && httpMethod === 'DELETE') {
+      const albumId = pathParameters?.albumId;
+      const imageId = pathParameters?.imageId;
+      if (!albumId || !imageId) return errorResponse(400, 'Album ID and image ID required');
+      return removeAlbumImage(albumId, imageId, userId, userIsAdmin);
+    }
+
+    // Route not found
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Albums request failed',
+      action: 'albums_error',
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+/**
+ * List a user's albums, newest first
+ * GET /api/albums
+ *
+ * Admins see their own albums unless they pass ?userId=.
+ */
+async function listAlbums(userId: string, limit: number, cursor?: string): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Listing albums',
+    action: 'list_albums',
+    userId,
+    limit,
+  }));
+
+  const startKey = cursor ? decodeCursor(cursor, ['albumId', 'userId', 'createdAt']) : undefined;
+  if (startKey === null || (startKey && startKey.userId !== userId)) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+
+  const page = await queryPage<Album>({
+    TableName: ALBUMS_TABLE,
+    IndexName: 'userId-createdAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ScanIndexForward: false, // Descending order (newest first)
+  }, limit, startKey);
+
+  const response: ApiResponse<AlbumResponseData[]> = {
+    success: true,
+    data: page.items.map(toAlbumResponse),
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Create an album
+ * POST /api/albums
+ */
+async function createAlbum(body: string | null, userId: string): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const fields = parseAlbumFields(request, true);
+  if (typeof fields === 'string') {
+    return errorResponse(400, fields);
+  }
+
+  const existing = await docClient.send(new QueryCommand({
+    TableName: ALBUMS_TABLE,
+    IndexName: 'userId-createdAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    Select: 'COUNT',
+  }));
+  if ((existing.Count ?? 0) >= MAX_ALBUMS_PER_USER) {
+    return errorResponse(403, `Album limit reached - at most ${MAX_ALBUMS_PER_USER} albums`);
+  }
+
+  const now = new Date().toISOString();
+  const album: Album = {
+    albumId: uuidv4(),
+    userId,
+    name: fields.name!,
+    ...(fields.description && { description: fields.description }),
+    imageCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: ALBUMS_TABLE,
+    Item: album,
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Album created',
+    action: 'create_album',
+    albumId: album.albumId,
+    userId,
+  }));
+
+  const response: ApiResponse<AlbumResponseData> = {
+    success: true,
+    message: 'Album created',
+    data: toAlbumResponse(album),
+  };
+
+  return {
+    statusCode: 201,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Get an album
+ * GET /api/albums/{albumId}
+ */
+async function getAlbum(albumId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const response: ApiResponse<AlbumResponseData> = {
+    success: true,
+    data: toAlbumResponse(result.album),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Edit an album
+ * PATCH /api/albums/{albumId}
+ *
+ * Only the fields in the body change. The cover must be one of the album's
+ * images; null goes back to the most recently added one.
+ */
+async function updateAlbum(
+  albumId: string,
+  body: string | null,
+  userId: string,
+  isAdminUser: boolean
+): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const update = parseAlbumFields(request, false);
+  if (typeof update === 'string') {
+    return errorResponse(400, update);
+  }
+
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Updating album',
+    action: 'update_album',
+    albumId,
+    userId,
+    isAdmin: isAdminUser,
+    fields: Object.keys(update),
+  }));
+
+  let coverImageId = update.coverImageId;
+  if (typeof coverImageId === 'string') {
+    const member = await docClient.send(new GetCommand({
+      TableName: ALBUM_IMAGES_TABLE,
+      Key: { albumId, imageId: coverImageId },
+    }));
+    if (!member.Item) {
+      return errorResponse(400, 'coverImageId must be an image in the album');
+    }
+  } else if (coverImageId === null) {
+    const newest = await docClient.send(new QueryCommand({
+      TableName: ALBUM_IMAGES_TABLE,
+      IndexName: 'albumId-addedAt-index',
+      KeyConditionExpression: 'albumId = :albumId',
+      ExpressionAttributeValues: { ':albumId': albumId },
+      ScanIndexForward: false,
+      Limit: 1,
+    }));
+    coverImageId = newest.Items?.[0]?.imageId ?? null;
+  }
+
+  const setExpressions = ['updatedAt = :updatedAt'];
+  const removeExpressions: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = { ':updatedAt': new Date().toISOString() };
+
+  // Aliased - 'name' is a DynamoDB reserved word
+  const fields = { name: update.name, description: update.description, coverImageId };
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    names[`#${field}`] = field;
+    if (value === null) {
+      removeExpressions.push(`#${field}`);
+    } else {
+      setExpressions.push(`#${field} = :${field}`);
+      values[`:${field}`] = value;
+    }
+  }
+
+  let album: Album;
+  try {
+    const updated = await docClient.send(new UpdateCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId },
+      UpdateExpression: [
+        `SET ${setExpressions.join(', ')}`,
+        ...(removeExpressions.length > 0 ? [`REMOVE ${removeExpressions.join(', ')}`] : []),
+      ].join(' '),
+      ConditionExpression: 'attribute_exists(albumId)', // Don't recreate a deleted album
+      ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+      ExpressionAttributeValues: values,
+      ReturnValues: 'ALL_NEW',
+    }));
+    album = updated.Attributes as Album;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return errorResponse(404, 'Album not found');
+    }
+    throw error;
+  }
+
+  const response: ApiResponse<AlbumResponseData> = {
+    success: true,
+    message: 'Album updated',
+    data: toAlbumResponse(album),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Delete an album and its share links - its images are kept
+ * DELETE /api/albums/{albumId}
+ */
+async function removeAlbum(albumId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  await deleteAlbum(albumId);
+  await deleteSharesFor([albumId]);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Album deleted',
+    action: 'delete_album',
+    albumId,
+    userId,
+    isAdmin: isAdminUser,
+    imageCount: result.album.imageCount,
+  }));
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: 'Album deleted - its images were kept',
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * List an album's images, most recently added first
+ * GET /api/albums/{albumId}/images
+ *
+ * Images are returned like GET /api/images, with addedAt; ?include= works the same.
+ */
+async function listAlbumImages(
+  albumId: string,
+  userId: string,
+  isAdminUser: boolean,
+  includes: ImageInclude[],
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const startKey = cursor ? decodeCursor(cursor, ['albumId', 'imageId', 'addedAt']) : undefined;
+  if (startKey === null || (startKey && startKey.albumId !== albumId)) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+
+  const page = await queryPage<AlbumImage>({
+    TableName: ALBUM_IMAGES_TABLE,
+    IndexName: 'albumId-addedAt-index',
+    KeyConditionExpression: 'albumId = :albumId',
+    ExpressionAttributeValues: { ':albumId': albumId },
+    ScanIndexForward: false, // Descending order (most recently added first)
+  }, limit, startKey);
+
+  const images = page.items.length > 0
+    ? await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, page.items.map((item) => item.imageId))
+    : new Map<string, ImageMetadata>();
+  // Images in the trash stay in their albums, hidden, until they are restored or purged
+  const found = page.items.filter((item) => images.has(item.imageId) && !images.get(item.imageId)!.trashedAt);
+  const extras = await getImageExtras(found.map((item) => images.get(item.imageId)!), includes);
+
+  const responseImages = found.map((item) => ({
+    ...toImageSummary(images.get(item.imageId)!),
+    addedAt: item.addedAt,
+    ...extras.get(item.imageId),
+  }));
+
+  const response: ApiResponse<typeof responseImages> = {
+    success: true,
+    data: responseImages,
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Add images to an album
+ * POST /api/albums/{albumId}/images
+ *
+ * Body: { imageIds: [...] }. Every image must belong to the album's owner;
+ * images already in the album are left as they are. The first image added
+ * becomes the cover unless one was chosen.
+ */
+async function addAlbumImages(
+  albumId: string,
+  body: string | null,
+  userId: string,
+  isAdminUser: boolean
+): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const { imageIds } = request;
+  if (!Array.isArray(imageIds) || imageIds.length === 0 || imageIds.length > MAX_ALBUM_IMAGES_PER_REQUEST ||
+      !imageIds.every((imageId) => typeof imageId === 'string' && imageId)) {
+    return errorResponse(400, `imageIds must be an array of 1 to ${MAX_ALBUM_IMAGES_PER_REQUEST} image IDs`);
+  }
+  const uniqueIds = [...new Set(imageIds as string[])];
+
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+  const { album } = result;
+
+  // Only the album owner's finished uploads can go in - for admins too
+  const images = await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, uniqueIds);
+  const notFound = uniqueIds.filter((imageId) => {
+    const image = images.get(imageId);
+    return !image || image.userId !== album.userId || image.status === 'pending' || !!image.trashedAt;
+  });
+  if (notFound.length > 0) {
+    return errorResponse(400, `Images not found: ${notFound.join(', ')}`);
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Adding images to album',
+    action: 'add_album_images',
+    albumId,
+    userId,
+    isAdmin: isAdminUser,
+    imageCount: uniqueIds.length,
+  }));
+
+  const addition = await addImagesToAlbum(album, uniqueIds);
+  if (!addition) {
+    return errorResponse(404, 'Album not found');
+  }
+  const { album: updatedAlbum, added } = addition;
+
+  const response: ApiResponse<{ album: AlbumResponseData; added: string[]; alreadyInAlbum: string[] }> = {
+    success: true,
+    message: `${added.length} image(s) added to album`,
+    data: {
+      album: toAlbumResponse(updatedAlbum),
+      added,
+      alreadyInAlbum: uniqueIds.filter((imageId) => !added.includes(imageId)),
+    },
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Remove an image from an album - the image itself is kept
+ * DELETE /api/albums/{albumId}/images/{imageId}
+ */
+async function removeAlbumImage(
+  albumId: string,
+  imageId: string,
+  userId: string,
+  isAdminUser: boolean
+): Promise<APIGatewayProxyResult> {
+  const result = await getOwnedAlbum(albumId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const removed = await removeAlbumImages(albumId, [imageId]);
+  if (removed.length === 0) {
+    return errorResponse(404, 'Image is not in the album');
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image removed from album',
+    action: 'remove_album_image',
+    albumId,
+    imageId,
+    userId,
+    isAdmin: isAdminUser,
+  }));
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: 'Image removed from album',
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Read an album and check ownership (unless admin)
+ */
+async function getOwnedAlbum(
+  albumId: string,
+  userId: string,
+  isAdminUser: boolean
+): Promise<{ album: Album } | { statusCode: number; error: string }> {
+  const result = await docClient.send(new GetCommand({
+    TableName: ALBUMS_TABLE,
+    Key: { albumId },
+  }));
+
+  const album = result.Item as Album | undefined;
+
+  if (!album) {
+    return { statusCode: 404, error: 'Album not found' };
+  }
+
+  if (!isAdminUser && album.userId !== userId) {
+    return { statusCode: 403, error: 'Access denied - you can only access your own albums' };
+  }
+
+  return { album };
+}
+
+/**
+ * Validate name, description and coverImageId of a create or update request
+ * A create needs a name and can't choose a cover (the album has no images yet).
+ */
+function parseAlbumFields(body: Record<string, unknown>, isCreate: boolean): UpdateAlbumRequest | string {
+  const allowed = isCreate ? ['name', 'description'] : ['name', 'description', 'coverImageId'];
+  const unknownField = Object.keys(body).find((field) => !allowed.includes(field));
+  if (unknownField) {
+    return `Unknown field: ${unknownField}. Allowed: ${allowed.join(', ')}`;
+  }
+
+  const fields: UpdateAlbumRequest = {};
+
+  if (body.name !== undefined || isCreate) {
+    const name = parseText(body.name, MAX_ALBUM_NAME_LENGTH);
+    if (!name) {
+      return `name must be a non-empty string of at most ${MAX_ALBUM_NAME_LENGTH} characters`;
+    }
+    fields.name = name;
+  }
+
+  if (body.description !== undefined) {
+    const description = body.description === null ? '' : parseText(body.description, MAX_ALBUM_DESCRIPTION_LENGTH);
+    if (description === undefined) {
+      return `description must be a string of at most ${MAX_ALBUM_DESCRIPTION_LENGTH} characters`;
+    }
+    fields.description = description || null;
+  }
+
+  if (body.coverImageId !== undefined) {
+    if (body.coverImageId !== null && (typeof body.coverImageId !== 'string' || !body.coverImageId)) {
+      return 'coverImageId must be an image ID or null';
+    }
+    fields.coverImageId = body.coverImageId;
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return `No fields to update. Allowed: ${allowed.join(', ')}`;
+  }
+
+  return fields;
+}
+
+/**
+ * Album as returned by the API
+ */
+function toAlbumResponse(album: Album): AlbumResponseData {
+  return {
+    id: album.albumId,
+    userId: album.userId,
+    name: album.name,
+    ...(album.description && { description: album.description }),
+    imageCount: album.imageCount,
+    ...(album.coverImageId && {
+      coverImageId: album.coverImageId,
+      coverPath: `/api/images/${album.coverImageId}?size=thumb`,
+    }),
+    imagesPath: `/api/albums/${album.albumId}/images`,
+    createdAt: album.createdAt,
+    updatedAt: album.updatedAt,
+  };
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create error response
+ */
+function errorResponse(statusCode: number, message: string): APIGatewayProxyResult {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+
+  return {
+    statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Standard CORS headers
+ */
+function corsHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  };
+}
@@ -6,9 +6,12 @@
  * What it does:
  * 1. Triggered by SQS messages (when an image is uploaded)
  * 2. Retrieves the image from S3
- * 3. Calls Amazon Bedrock Claude Vision for AI analysis
- * 4. Extracts description, keywords, and detected text
- * 5. Saves results to DynamoDB
+ * 3. Reads EXIF/XMP metadata (GPS, capture date, camera, dimensions)
+ * 4. Generates thumbnail and preview renditions (plus a full-size WebP for HEIC/HEIF/AVIF)
+ * 5. Calls Amazon Bedrock Claude Vision for AI analysis
+ *    (or reuses the analysis of an earlier upload with identical content, unless re-analysis was asked for)
+ * 6. Extracts description, keywords, and detected text
+ * 7. Saves results to DynamoDB and updates the search index
  * 
  * Key differences from Kafka/Ollama version:
  * - SQS trigger instead of Kafka consumer
@@ -17,14 +20,22 @@
  */
 
 import { SQSEvent, SQSRecord } from 'aws-lambda';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import {
   BedrockRuntimeClient,
   InvokeModelCommand,
 } from '@aws-sdk/client-bedrock-runtime';
-import { ImageUploadMessage, ImageAnalysis } from '../types';
+import sharp from 'sharp';
+import { ImageUploadMessage, ImageAnalysis, ImageMetadata, BEDROCK_MEDIA_TYPES, BedrockMediaType } from '../types';
+import { openImage } from '../utils/image-decode';
+import { extractImageMetadata } from '../utils/image-metadata';
+import { getRenditionKey, deleteImageObjects } from '../utils/image-objects';
+import { generateRenditions, RENDITION_CONTENT_TYPE } from '../utils/renditions';
+import { hashContent, findImagesByContentHash } from '../utils/content-hash';
+import { encodeGeohash } from '../utils/geohash';
+import { updateSearchIndex } from '../utils/search-index';
 
 // Initialize AWS SDK clients
 const s3Client = new S3Client({});
@@ -38,6 +49,12 @@ const IMAGES_TABLE = process.env.IMAGES_TABLE!;
 const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
 const BEDROCK_MODEL_ID = process.env.BEDROCK_MODEL_ID!;
 
+// Bedrock rejects images larger than 3.75MB or 8000px on either side
+const BEDROCK_MAX_IMAGE_BYTES = 3.75 * 1024 * 1024;
+const BEDROCK_MAX_IMAGE_DIMENSION = 8000;
+// Long edge used when downscaling - larger images don't improve Claude's analysis
+const BEDROCK_RESIZE_DIMENSION = 1568;
+
 /**
  * Lambda Handler for SQS Events
  * 
@@ -65,6 +82,10 @@ async function processRecord(record: SQSRecord): Promise<void> {
   let imageId: string = '';
   let userId: string = '';
   let correlationId: string = '';
+  let version = 1;
+  // A requested re-analysis keeps the current analysis until the new one is done
+  let previousAnalysis: ImageAnalysis | undefined;
+  const startedAt = new Date().toISOString();
 
   try {
     // Parse the message body
@@ -72,6 +93,13 @@ async function processRecord(record: SQSRecord): Promise<void> {
     imageId = message.imageId;
     userId = message.userId;
     correlationId = message.correlationId;
+    version = message.version ?? 1;
+
+    // Replacing an image queues a new message - drop messages for a file that is no longer current
+    if (!(await isCurrentVersion(imageId, version))) {
+      logSkippedVersion(imageId, version, correlationId);
+      return;
+    }
 
     console.log(JSON.stringify({
       level: 'info',
@@ -86,21 +114,28 @@ async function processRecord(record: SQSRecord): Promise<void> {
     // Update image status to 'processing'
     await updateImageStatus(imageId, 'processing');
 
-    // Create initial analysis record with 'processing' status
-    const initialAnalysis: ImageAnalysis = {
-      imageId,
-      userId,
-      filename: message.filename,
-      description: '',
-      keywords: [],
-      detectedText: [],
-      status: 'processing',
-    };
-
-    await docClient.send(new PutCommand({
-      TableName: ANALYSIS_TABLE,
-      Item: initialAnalysis,
-    }));
+    previousAnalysis = message.reanalyze ? await getCompletedAnalysis(imageId) : undefined;
+    if (!previousAnalysis) {
+      // Create initial analysis record with 'processing' status
+      const initialAnalysis: ImageAnalysis = {
+        imageId,
+        userId,
+        filename: message.filename,
+        description: '',
+        keywords: [],
+        detectedText: [],
+        status: 'processing',
+        createdAt: startedAt,
+      };
+
+      await docClient.send(new PutCommand({
+        TableName: ANALYSIS_TABLE,
+        Item: initialAnalysis,
+      }));
+
+      // A replaced image must not be found by its previous analysis
+      await syncSearchIndex(initialAnalysis, correlationId);
+    }
 
     // Step 1: Get image from S3
     console.log(JSON.stringify({
@@ -123,35 +158,75 @@ async function processRecord(record: SQSRecord): Promise<void> {
       throw new Error('Failed to read image from S3');
     }
 
-    // Convert to base64 for Bedrock
-    const imageBase64 = Buffer.from(imageBytes).toString('base64');
-
-    // Determine media type for Bedrock
-    const mediaType = getMediaType(message.mimetype);
-
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Image retrieved, calling Bedrock',
-      imageId,
-      correlationId,
-      action: 'bedrock_call',
-      imageSize: imageBytes.length,
-      mediaType,
-    }));
-
-    // Step 2: Call Amazon Bedrock Claude Vision
-    const analysisResult = await analyzeWithBedrock(imageBase64, mediaType);
+    // Record the content hash and look for an earlier upload of the same bytes
+    const original = await recordContentHash(message, imageBytes);
+
+    // Open the image once for everything below - HEIC has to be decoded first
+    const image = await openImage(Buffer.from(imageBytes), message.mimetype);
+
+    // Store metadata embedded in the file (fills geo/date fields the client didn't send)
+    await saveEmbeddedMetadata(message, imageBytes, image);
+
+    // Thumbnail and preview for gallery views
+    await saveRenditions(message, image);
+
+    // Step 2: Reuse the analysis of identical content, or call Amazon Bedrock Claude Vision
+    // (a requested re-analysis always calls Bedrock)
+    const reusedAnalysis = original && !message.reanalyze ? await getCompletedAnalysis(original.imageId) : undefined;
+    let analysisResult: { description: string; keywords: string[]; detectedText: string[] };
+
+    if (reusedAnalysis) {
+      analysisResult = {
+        description: reusedAnalysis.description,
+        keywords: reusedAnalysis.keywords,
+        detectedText: reusedAnalysis.detectedText,
+      };
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Identical content already analyzed, skipping Bedrock',
+        imageId,
+        correlationId,
+        action: 'analysis_reused',
+        duplicateOf: reusedAnalysis.imageId,
+      }));
+    } else {
+      // Downscale large images (e.g. multipart uploads) and convert HEIC/HEIF/AVIF so Bedrock accepts them
+      const { data: bedrockImage, mediaType } = await prepareImageForBedrock(imageBytes, message.mimetype, image);
+
+      // Convert to base64 for Bedrock
+      const imageBase64 = bedrockImage.toString('base64');
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Image retrieved, calling Bedrock',
+        imageId,
+        correlationId,
+        action: 'bedrock_call',
+        imageSize: imageBytes.length,
+        bedrockImageSize: bedrockImage.length,
+        mediaType,
+      }));
+
+      analysisResult = await analyzeWithBedrock(imageBase64, mediaType);
+
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Bedrock analysis completed',
+        imageId,
+        correlationId,
+        action: 'bedrock_response',
+        keywordCount: analysisResult.keywords.length,
+        detectedTextCount: analysisResult.detectedText.length,
+        descriptionLength: analysisResult.description.length,
+      }));
+    }
 
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Bedrock analysis completed',
-      imageId,
-      correlationId,
-      action: 'bedrock_response',
-      keywordCount: analysisResult.keywords.length,
-      detectedTextCount: analysisResult.detectedText.length,
-      descriptionLength: analysisResult.description.length,
-    }));
+    // The image may have been replaced or deleted while Bedrock was working
+    if (!(await isCurrentVersion(imageId, version))) {
+      logSkippedVersion(imageId, version, correlationId);
+      return;
+    }
 
     // Step 3: Save analysis results to DynamoDB
     const now = new Date().toISOString();
@@ -163,6 +238,7 @@ async function processRecord(record: SQSRecord): Promise<void> {
       keywords: analysisResult.keywords,
       detectedText: analysisResult.detectedText,
       status: 'completed',
+      createdAt: startedAt,
       analyzedAt: now,
     };
 
@@ -171,6 +247,8 @@ async function processRecord(record: SQSRecord): Promise<void> {
       Item: finalAnalysis,
     }));
 
+    await syncSearchIndex(finalAnalysis, correlationId);
+
     // Update image status to 'analyzed'
     await updateImageStatus(imageId, 'analyzed');
 
@@ -196,25 +274,31 @@ async function processRecord(record: SQSRecord): Promise<void> {
       stack: error instanceof Error ? error.stack : undefined,
     }));
 
-    // Save failed status to DynamoDB
+    // Save failed status to DynamoDB - unless the failed file has been deleted or replaced since.
+    // A failed re-analysis keeps the analysis the image had.
     if (imageId) {
       try {
-        await docClient.send(new PutCommand({
-          TableName: ANALYSIS_TABLE,
-          Item: {
-            imageId,
-            userId,
-            filename: '',
-            description: '',
-            keywords: [],
-            detectedText: [],
-            status: 'failed',
-            error: error instanceof Error ? error.message : 'Unknown error',
-            analyzedAt: new Date().toISOString(),
-          } as ImageAnalysis,
-        }));
-
-        await updateImageStatus(imageId, 'failed');
+        if (previousAnalysis && await isCurrentVersion(imageId, version)) {
+          await updateImageStatus(imageId, 'analyzed');
+        } else if (await isCurrentVersion(imageId, version)) {
+          await docClient.send(new PutCommand({
+            TableName: ANALYSIS_TABLE,
+            Item: {
+              imageId,
+              userId,
+              filename: '',
+              description: '',
+              keywords: [],
+              detectedText: [],
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error',
+              createdAt: startedAt,
+              analyzedAt: new Date().toISOString(),
+            } as ImageAnalysis,
+          }));
+
+          await updateImageStatus(imageId, 'failed');
+        }
       } catch (dbError) {
         console.error('Failed to save error status:', dbError);
       }
@@ -225,6 +309,26 @@ async function processRecord(record: SQSRecord): Promise<void> {
   }
 }
 
+/**
+ * Bring the search index in line with an analysis record
+ * Best effort - a failure is logged rather than retried, since a retry would
+ * run the whole analysis (and Bedrock) again
+ */
+async function syncSearchIndex(analysis: ImageAnalysis, correlationId: string): Promise<void> {
+  try {
+    await updateSearchIndex(analysis);
+  } catch (error) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to update search index',
+      imageId: analysis.imageId,
+      correlationId,
+      action: 'search_index_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+}
+
 /**
  * Call Amazon Bedrock Claude Vision for image analysis
  * 
@@ -236,7 +340,7 @@ async function processRecord(record: SQSRecord): Promise<void> {
  */
 async function analyzeWithBedrock(
   imageBase64: string,
-  mediaType: string
+  mediaType: BedrockMediaType
 ): Promise<{
   description: string;
   keywords: string[];
@@ -405,15 +509,302 @@ async function updateImageStatus(
 }
 
 /**
- * Convert MIME type to Bedrock media type
+ * Whether the image still exists and is still on the given version
+ */
+async function isCurrentVersion(imageId: string, version: number): Promise<boolean> {
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+    ProjectionExpression: 'imageId, #version',
+    ExpressionAttributeNames: { '#version': 'version' },
+  }));
+
+  const image = result.Item as Pick<ImageMetadata, 'imageId' | 'version'> | undefined;
+  return !!image && (image.version ?? 1) === version;
+}
+
+function logSkippedVersion(imageId: string, version: number, correlationId: string): void {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image was deleted or replaced - skipping analysis',
+    imageId,
+    correlationId,
+    action: 'analysis_skipped',
+    version,
+  }));
+}
+
+/**
+ * Condition for writes made while analyzing: the image still exists and still
+ * holds the file from the message (images never replaced have no version attribute)
  */
-function getMediaType(mimetype: string): string {
-  const mapping: Record<string, string> = {
-    'image/jpeg': 'image/jpeg',
-    'image/png': 'image/png',
-    'image/gif': 'image/gif',
-    'image/webp': 'image/webp',
+function currentVersionCondition(message: ImageUploadMessage): {
+  ConditionExpression: string;
+  ExpressionAttributeNames: Record<string, string>;
+  ExpressionAttributeValues: Record<string, unknown>;
+} {
+  const version = message.version ?? 1;
+  return {
+    ConditionExpression: version > 1
+      ? 'attribute_exists(imageId) AND #version = :version'
+      : 'attribute_exists(imageId) AND attribute_not_exists(#version)',
+    ExpressionAttributeNames: { '#version': 'version' },
+    ExpressionAttributeValues: version > 1 ? { ':version': version } : {},
   };
-  return mapping[mimetype] || 'image/jpeg';
+}
+
+/**
+ * Store the content hash on the image record and find an earlier image with the same content
+ *
+ * Uploads through the Lambda already carry a hash; direct-to-S3 uploads get theirs here.
+ * Returns the oldest matching image that has been analyzed, if any.
+ */
+async function recordContentHash(
+  message: ImageUploadMessage,
+  imageBytes: Uint8Array
+): Promise<ImageMetadata | undefined> {
+  const { imageId, userId } = message;
+  const contentHash = hashContent(imageBytes);
+
+  const matches = (await findImagesByContentHash(userId, contentHash))
+    .filter((image) => image.imageId !== imageId);
+
+  const [oldest] = matches;
+  const condition = currentVersionCondition(message); // Don't recreate a deleted image
+  await docClient.send(new UpdateCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+    UpdateExpression: oldest
+      ? 'SET contentHash = :contentHash, duplicateOf = if_not_exists(duplicateOf, :duplicateOf)'
+      : 'SET contentHash = :contentHash',
+    ConditionExpression: condition.ConditionExpression,
+    ExpressionAttributeNames: condition.ExpressionAttributeNames,
+    ExpressionAttributeValues: {
+      ...condition.ExpressionAttributeValues,
+      ':contentHash': contentHash,
+      ...(oldest && { ':duplicateOf': oldest.imageId }),
+    },
+  }));
+
+  return matches.find((image) => image.status === 'analyzed');
+}
+
+/**
+ * Get a completed analysis result (undefined if missing or not completed)
+ */
+async function getCompletedAnalysis(imageId: string): Promise<ImageAnalysis | undefined> {
+  const result = await docClient.send(new GetCommand({
+    TableName: ANALYSIS_TABLE,
+    Key: { imageId },
+  }));
+
+  const analysis = result.Item as ImageAnalysis | undefined;
+  return analysis?.status === 'completed' ? analysis : undefined;
+}
+
+/**
+ * Read EXIF/XMP metadata from the image and store it on the image record
+ *
+ * Camera and dimension fields are always written. Latitude, longitude and
+ * creationDate are only filled in when missing - values sent by the client win.
+ * A file with broken metadata shouldn't fail the analysis, so errors are logged and ignored.
+ */
+async function saveEmbeddedMetadata(
+  message: ImageUploadMessage,
+  imageBytes: Uint8Array,
+  image: sharp.Sharp
+): Promise<void> {
+  const { imageId, correlationId } = message;
+
+  try {
+    const metadata = await extractImageMetadata(Buffer.from(imageBytes), image);
+
+    const setExpressions: string[] = [];
+    const values: Record<string, unknown> = {};
+
+    for (const field of ['width', 'height', 'orientation', 'cameraMake', 'cameraModel'] as const) {
+      if (metadata[field] !== undefined) {
+        setExpressions.push(`${field} = :${field}`);
+        values[`:${field}`] = metadata[field];
+      }
+    }
+
+    // Only use EXIF coordinates as a pair, and only if the client sent neither
+    if (metadata.latitude !== undefined && metadata.longitude !== undefined &&
+        message.latitude === undefined && message.longitude === undefined) {
+      setExpressions.push('latitude = if_not_exists(latitude, :latitude)');
+      setExpressions.push('longitude = if_not_exists(longitude, :longitude)');
+      setExpressions.push('geohash = if_not_exists(geohash, :geohash)');
+      values[':latitude'] = metadata.latitude;
+      values[':longitude'] = metadata.longitude;
+      values[':geohash'] = encodeGeohash(metadata.latitude, metadata.longitude);
+    }
+
+    if (metadata.creationDate) {
+      setExpressions.push('creationDate = if_not_exists(creationDate, :creationDate)');
+      values[':creationDate'] = metadata.creationDate;
+    }
+
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Embedded metadata extracted',
+      imageId,
+      correlationId,
+      action: 'metadata_extract',
+      fields: Object.keys(metadata),
+    }));
+
+    if (setExpressions.length === 0) {
+      return;
+    }
+
+    const condition = currentVersionCondition(message); // Don't recreate a deleted image
+    await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      UpdateExpression: `SET ${setExpressions.join(', ')}`,
+      ConditionExpression: condition.ConditionExpression,
+      ExpressionAttributeNames: condition.ExpressionAttributeNames,
+      ExpressionAttributeValues: { ...condition.ExpressionAttributeValues, ...values },
+    }));
+  } catch (error) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to extract embedded metadata',
+      imageId,
+      correlationId,
+      action: 'metadata_extract_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+}
+
+/**
+ * Generate the renditions and record their keys on the image
+ *
+ * Like the embedded metadata, renditions are a convenience - if they can't be
+ * generated the image is still analyzed and served as the original.
+ */
+async function saveRenditions(message: ImageUploadMessage, image: sharp.Sharp): Promise<void> {
+  const { imageId, userId, correlationId } = message;
+
+  try {
+    const renditions = await generateRenditions(image, message.mimetype);
+    const thumbnailKey = getRenditionKey(userId, imageId, 'thumb', message.version);
+    const previewKey = getRenditionKey(userId, imageId, 'preview', message.version);
+    const displayKey = renditions.display
+      ? getRenditionKey(userId, imageId, 'display', message.version)
+      : undefined;
+
+    const objects: Array<{ key: string; body: Buffer }> = [
+      { key: thumbnailKey, body: renditions.thumb },
+      { key: previewKey, body: renditions.preview },
+      ...(displayKey && renditions.display ? [{ key: displayKey, body: renditions.display }] : []),
+    ];
+
+    await Promise.all(objects.map(({ key, body }) => s3Client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      Body: body,
+      ContentType: RENDITION_CONTENT_TYPE,
+    }))));
+
+    try {
+      const condition = currentVersionCondition(message);
+      await docClient.send(new UpdateCommand({
+        TableName: IMAGES_TABLE,
+        Key: { imageId },
+        UpdateExpression: 'SET thumbnailKey = :thumbnailKey, previewKey = :previewKey'
+          + (displayKey ? ', displayKey = :displayKey' : ''),
+        ConditionExpression: condition.ConditionExpression,
+        ExpressionAttributeNames: condition.ExpressionAttributeNames,
+        ExpressionAttributeValues: {
+          ...condition.ExpressionAttributeValues,
+          ':thumbnailKey': thumbnailKey,
+          ':previewKey': previewKey,
+          ...(displayKey && { ':displayKey': displayKey }),
+        },
+      }));
+    } catch (error) {
+      // The image was deleted or replaced while we were working - don't leave orphaned renditions behind
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        await deleteImageObjects(objects.map(({ key }) => ({ s3Key: key })));
+      }
+      throw error;
+    }
+
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Renditions generated',
+      imageId,
+      correlationId,
+      action: 'renditions_saved',
+      thumbnailSize: renditions.thumb.length,
+      previewSize: renditions.preview.length,
+      ...(renditions.display && { displaySize: renditions.display.length }),
+    }));
+  } catch (error) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to generate renditions',
+      imageId,
+      correlationId,
+      action: 'renditions_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+}
+
+/**
+ * Prepare image bytes for Bedrock
+ * 
+ * Images within Bedrock's limits are sent untouched. Anything larger, and any
+ * format Bedrock doesn't accept (HEIC/HEIF/AVIF), is downscaled and re-encoded as JPEG.
+ */
+async function prepareImageForBedrock(
+  imageBytes: Uint8Array,
+  mimetype: string,
+  image: sharp.Sharp
+): Promise<{ data: Buffer; mediaType: BedrockMediaType }> {
+  const original = Buffer.from(imageBytes);
+  const mediaType = getMediaType(mimetype);
+
+  if (mediaType && original.length <= BEDROCK_MAX_IMAGE_BYTES) {
+    const { width = 0, height = 0 } = await image.metadata();
+    if (width <= BEDROCK_MAX_IMAGE_DIMENSION && height <= BEDROCK_MAX_IMAGE_DIMENSION) {
+      return { data: original, mediaType };
+    }
+  }
+
+  const resized = await image
+    .clone()
+    .rotate() // Apply EXIF orientation before the orientation tag is dropped
+    .resize({
+      width: BEDROCK_RESIZE_DIMENSION,
+      height: BEDROCK_RESIZE_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image converted for Bedrock',
+    action: 'bedrock_resize',
+    mimetype,
+    originalSize: original.length,
+    resizedSize: resized.length,
+  }));
+
+  return { data: resized, mediaType: 'image/jpeg' };
+}
+
+/**
+ * Convert MIME type to Bedrock media type
+ * Returns null for formats Bedrock doesn't accept - those must be converted first
+ */
+function getMediaType(mimetype: string): BedrockMediaType | null {
+  return BEDROCK_MEDIA_TYPES.find((type) => type === mimetype) ?? null;
 }
 
@@ -0,0 +1,689 @@
+/**
+ * Archives Lambda Handler
+ *
+ * Downloads a selection of images as one ZIP file: the original files plus a
+ * manifest of their metadata and analysis (see utils/archive-manifest).
+ * Building a ZIP can take minutes, so a request only records a job and queues
+ * it. The build Lambda streams the ZIP to S3 under exports/ (expired by a
+ * lifecycle rule) and the job's status has a download URL once it is done.
+ *
+ * Routes:
+ * - POST /api/archives - Request an archive of images chosen by ID, album or listing filter
+ * - GET /api/archives/{archiveId} - Archive status, with a download URL once completed
+ *
+ * SQS:
+ * - buildArchiveHandler - Build a requested archive (one message per archive)
+ *
+ * Users can only archive their own images and albums, and only see their own
+ * archives, unless they are admin.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, SQSEvent, SQSRecord } from 'aws-lambda';
+import {
+  S3Client,
+  GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { v4 as uuidv4 } from 'uuid';
+import { crc32 } from 'zlib';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  Album,
+  ArchiveJob,
+  ArchiveMessage,
+  ArchiveResponseData,
+  CreateArchiveRequest,
+  ImageMetadata,
+  ImageAnalysis,
+  MAX_ARCHIVE_IMAGES,
+  MAX_ARCHIVE_BYTES,
+  ARCHIVE_EXPIRY_HOURS,
+  ARCHIVE_URL_EXPIRY_SECONDS,
+} from '../types';
+import { extractUserClaims, isAdmin } from './auth';
+import { parseImageListQuery, findImages } from '../utils/image-query';
+import { batchGetByImageId } from '../utils/image-response';
+import { getAlbumImageIds } from '../utils/albums';
+import { getArchiveFileName, toManifestJson, toManifestCsv, ArchiveEntry } from '../utils/archive-manifest';
+import { zipLocalHeader, zipDataDescriptor, zipCentralDirectory, ZipEntry } from '../utils/zip-archive';
+
+// Initialize AWS SDK clients
+const s3Client = new S3Client({});
+const sqsClient = new SQSClient({});
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
+const ALBUMS_TABLE = process.env.ALBUMS_TABLE!;
+const ARCHIVES_TABLE = process.env.ARCHIVES_TABLE!;
+const ARCHIVE_QUEUE_URL = process.env.ARCHIVE_QUEUE_URL!;
+
+const REQUEST_FIELDS: ReadonlyArray<keyof CreateArchiveRequest> = ['imageIds', 'albumId', 'filter'];
+
+// The ZIP is uploaded to S3 in parts of this size (S3 needs at least 5MB, except for the last)
+const ARCHIVE_PART_SIZE = 16 * 1024 * 1024;
+
+/**
+ * An archive being uploaded to S3 - bytes are buffered until a part is full
+ */
+interface ArchiveUpload {
+  s3Key: string;
+  uploadId: string;
+  parts: Array<{ ETag: string; PartNumber: number }>;
+  buffered: Uint8Array[];
+  bufferedBytes: number;
+  offset: number;           // Bytes written to the archive so far
+}
+
+/**
+ * Lambda Handler
+ * Routes requests based on path and method
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { path, httpMethod, pathParameters } = event;
+
+  const claims = extractUserClaims(event);
+  const userId = claims?.sub;
+  const userIsAdmin = claims ? isAdmin(claims) : false;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Archives request received',
+    action: 'archives_start',
+    path,
+    httpMethod,
+    pathParameters,
+    userId,
+    isAdmin: userIsAdmin,
+  }));
+
+  try {
+    if (!claims || !userId) {
+      return errorResponse(401, 'Unauthorized - valid token required');
+    }
+
+    // Request an archive
+    if (path === '/api/archives' && httpMethod === 'POST') {
+      return createArchive(event.body, userId, userIsAdmin);
+    }
+
+    // Archive status
+    if (path.match(/^\/api\/archives\/[^/]+$/) && httpMethod === 'GET') {
+      const archiveId = pathParameters?.archiveId;
+      if (!archiveId) return errorResponse(400, 'Archive ID required');
+      return getArchive(archiveId, userId, userIsAdmin);
+    }
+
+    // Route not found
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Archives request failed',
+      action: 'archives_error',
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+/**
+ * SQS Handler
+ * Builds the archives of the messages (batch size is 1 in our CDK config)
+ */
+export async function buildArchiveHandler(event: SQSEvent): Promise<void> {
+  for (const record of event.Records) {
+    await buildArchive(record);
+  }
+}
+
+/**
+ * Request an archive
+ * POST /api/archives
+ *
+ * Body: { imageIds: [...] }, { albumId } or { filter: {...} } (the GET
+ * /api/images query parameters). The images are chosen now; the ZIP is built
+ * in the background - poll statusPath until the archive is completed.
+ */
+async function createArchive(body: string | null, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const archiveRequest = parseArchiveRequest(request);
+  if (typeof archiveRequest === 'string') {
+    return errorResponse(400, archiveRequest);
+  }
+
+  const selection = await selectImages(archiveRequest, userId, isAdminUser);
+  if ('error' in selection) {
+    return errorResponse(selection.statusCode, selection.error);
+  }
+
+  const { images } = selection;
+  if (images.length === 0) {
+    return errorResponse(400, 'No images to archive');
+  }
+  const totalBytes = images.reduce((sum, image) => sum + image.size, 0);
+  if (totalBytes > MAX_ARCHIVE_BYTES) {
+    return errorResponse(400, `The images add up to more than ${MAX_ARCHIVE_BYTES / (1024 * 1024 * 1024)}GB - choose fewer`);
+  }
+
+  const now = new Date();
+  const job: ArchiveJob = {
+    archiveId: uuidv4(),
+    userId,
+    status: 'queued',
+    imageIds: images.map((image) => image.imageId),
+    imageCount: images.length,
+    createdAt: now.toISOString(),
+    expiresAt: Math.floor(now.getTime() / 1000) + ARCHIVE_EXPIRY_HOURS * 60 * 60,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: ARCHIVES_TABLE,
+    Item: job,
+  }));
+
+  const correlationId = uuidv4();
+  const message: ArchiveMessage = { archiveId: job.archiveId, correlationId };
+  await sqsClient.send(new SendMessageCommand({
+    QueueUrl: ARCHIVE_QUEUE_URL,
+    MessageBody: JSON.stringify(message),
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Archive requested',
+    action: 'create_archive',
+    archiveId: job.archiveId,
+    userId,
+    isAdmin: isAdminUser,
+    correlationId,
+    imageCount: job.imageCount,
+    totalBytes,
+  }));
+
+  const response: ApiResponse<ArchiveResponseData> = {
+    success: true,
+    message: 'Archive requested',
+    data: await toArchiveResponse(job),
+  };
+
+  return {
+    statusCode: 202,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Archive status - with a presigned download URL once completed
+ * GET /api/archives/{archiveId}
+ */
+async function getArchive(archiveId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: ARCHIVES_TABLE,
+    Key: { archiveId },
+  }));
+
+  const job = result.Item as ArchiveJob | undefined;
+
+  if (!job) {
+    return errorResponse(404, 'Archive not found');
+  }
+
+  if (!isAdminUser && job.userId !== userId) {
+    return errorResponse(403, 'Access denied - you can only access your own archives');
+  }
+
+  // DynamoDB TTL can take a while to remove expired jobs
+  if (job.expiresAt * 1000 <= Date.now()) {
+    return errorResponse(410, 'Archive has expired');
+  }
+
+  const response: ApiResponse<ArchiveResponseData> = {
+    success: true,
+    data: await toArchiveResponse(job),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Choose the images of an archive request
+ * Only finished uploads that are not in the trash are archived.
+ */
+async function selectImages(
+  request: CreateArchiveRequest,
+  userId: string,
+  isAdminUser: boolean
+): Promise<{ images: ImageMetadata[] } | { statusCode: number; error: string }> {
+  const isArchivable = (image: ImageMetadata | undefined): image is ImageMetadata =>
+    !!image && image.status !== 'pending' && !image.trashedAt;
+
+  if (request.imageIds) {
+    const uniqueIds = [...new Set(request.imageIds)];
+    const images = await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, uniqueIds);
+
+    // Other users' images are reported as not found, unless you are admin
+    const notFound = uniqueIds.filter((imageId) => {
+      const image = images.get(imageId);
+      return !isArchivable(image) || (!isAdminUser && image.userId !== userId);
+    });
+    if (notFound.length > 0) {
+      return { statusCode: 400, error: `Images not found: ${notFound.join(', ')}` };
+    }
+
+    return { images: uniqueIds.map((imageId) => images.get(imageId)!) };
+  }
+
+  if (request.albumId) {
+    const result = await docClient.send(new GetCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId: request.albumId },
+    }));
+    const album = result.Item as Album | undefined;
+
+    if (!album) {
+      return { statusCode: 404, error: 'Album not found' };
+    }
+    if (!isAdminUser && album.userId !== userId) {
+      return { statusCode: 403, error: 'Access denied - you can only access your own albums' };
+    }
+
+    const imageIds = await getAlbumImageIds(album.albumId);
+    if (imageIds.length > MAX_ARCHIVE_IMAGES) {
+      return { statusCode: 400, error: `The album has more than ${MAX_ARCHIVE_IMAGES} images - choose images by ID or filter` };
+    }
+
+    // Images in the trash stay in their albums, hidden
+    const images = await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, imageIds);
+    return { images: imageIds.map((imageId) => images.get(imageId)).filter(isArchivable) };
+  }
+
+  const query = parseImageListQuery(request.filter!);
+  if (typeof query === 'string') {
+    return { statusCode: 400, error: query };
+  }
+
+  // A filter selects your own images - admins can choose another user's with filter.userId
+  const ownerId = isAdminUser ? request.filter!.userId || userId : userId;
+  const result = await findImages(ownerId, query, MAX_ARCHIVE_IMAGES + 1);
+  if ('error' in result) {
+    return result;
+  }
+  if (result.images.length > MAX_ARCHIVE_IMAGES) {
+    return { statusCode: 400, error: `More than ${MAX_ARCHIVE_IMAGES} images match - add filters` };
+  }
+
+  return { images: result.images.filter(isArchivable) };
+}
+
+/**
+ * Build the archive of one SQS message
+ *
+ * A failed archive is marked as failed rather than retried - the user can ask
+ * for a new one. Messages for archives that are already done are skipped.
+ */
+async function buildArchive(record: SQSRecord): Promise<void> {
+  const { archiveId, correlationId } = JSON.parse(record.body) as ArchiveMessage;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: ARCHIVES_TABLE,
+    Key: { archiveId },
+  }));
+
+  const job = result.Item as ArchiveJob | undefined;
+  if (!job || job.status === 'completed' || job.status === 'failed') {
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Archive already built or gone, skipping',
+      action: 'build_archive_skipped',
+      archiveId,
+      correlationId,
+      status: job?.status,
+    }));
+    return;
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Building archive',
+    action: 'build_archive_start',
+    archiveId,
+    userId: job.userId,
+    correlationId,
+    imageCount: job.imageCount,
+  }));
+
+  await updateArchiveStatus(archiveId, 'processing');
+
+  try {
+    const archive = await writeArchive(job);
+
+    await docClient.send(new UpdateCommand({
+      TableName: ARCHIVES_TABLE,
+      Key: { archiveId },
+      UpdateExpression: 'SET #status = :status, s3Key = :s3Key, #size = :size, skippedCount = :skippedCount, completedAt = :completedAt',
+      ExpressionAttributeNames: { '#status': 'status', '#size': 'size' },
+      ExpressionAttributeValues: {
+        ':status': 'completed',
+        ':s3Key': archive.s3Key,
+        ':size': archive.size,
+        ':skippedCount': archive.skippedCount,
+        ':completedAt': new Date().toISOString(),
+      },
+    }));
+
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Archive built',
+      action: 'build_archive_complete',
+      archiveId,
+      correlationId,
+      s3Key: archive.s3Key,
+      size: archive.size,
+      skippedCount: archive.skippedCount,
+    }));
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Archive build failed',
+      action: 'build_archive_error',
+      archiveId,
+      correlationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    }));
+
+    await updateArchiveStatus(archiveId, 'failed', 'The archive could not be built - please request it again');
+  }
+}
+
+/**
+ * Write the ZIP of a job to S3: its images, manifest.json and manifest.csv
+ *
+ * Images are streamed from S3 into the archive, which is uploaded in parts
+ * (S3 multipart upload), so neither has to fit in memory. Images deleted
+ * since the archive was requested are skipped.
+ */
+async function writeArchive(job: ArchiveJob): Promise<{ s3Key: string; size: number; skippedCount: number }> {
+  const images = await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, job.imageIds);
+  const found = job.imageIds
+    .map((imageId) => images.get(imageId))
+    .filter((image): image is ImageMetadata => !!image && !image.trashedAt);
+  const analyses = await batchGetByImageId<ImageAnalysis>(ANALYSIS_TABLE, found.map((image) => image.imageId));
+
+  const s3Key = `exports/${job.userId}/${job.archiveId}.zip`;
+  const multipart = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    ContentType: 'application/zip',
+  }));
+
+  const upload: ArchiveUpload = {
+    s3Key,
+    uploadId: multipart.UploadId!,
+    parts: [],
+    buffered: [],
+    bufferedBytes: 0,
+    offset: 0,
+  };
+
+  try {
+    const usedNames = new Set<string>();
+    const zipEntries: ZipEntry[] = [];
+    const entries: ArchiveEntry[] = [];
+
+    for (const image of found) {
+      let body: AsyncIterable<Uint8Array>;
+      try {
+        const object = await s3Client.send(new GetObjectCommand({
+          Bucket: BUCKET_NAME,
+          Key: image.s3Key,
+        }));
+        body = object.Body as AsyncIterable<Uint8Array>;
+      } catch (error) {
+        // Purged while the archive was being built
+        if (error instanceof Error && error.name === 'NoSuchKey') {
+          continue;
+        }
+        throw error;
+      }
+
+      const file = getArchiveFileName(image, usedNames);
+      const modifiedAt = new Date(image.creationDate || image.uploadedAt);
+      zipEntries.push(await writeZipFile(upload, file, modifiedAt, body));
+      entries.push({ file, image, analysis: analyses.get(image.imageId) });
+    }
+
+    const createdAt = new Date();
+    zipEntries.push(await writeZipFile(upload, 'manifest.json', createdAt,
+      [Buffer.from(toManifestJson(entries, createdAt.toISOString()), 'utf8')]));
+    zipEntries.push(await writeZipFile(upload, 'manifest.csv', createdAt,
+      [Buffer.from(toManifestCsv(entries), 'utf8')]));
+
+    await writeArchiveBytes(upload, zipCentralDirectory(zipEntries, upload.offset));
+    await uploadArchivePart(upload);
+
+    await s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: s3Key,
+      UploadId: upload.uploadId,
+      MultipartUpload: { Parts: upload.parts },
+    }));
+
+    return { s3Key, size: upload.offset, skippedCount: job.imageIds.length - entries.length };
+  } catch (error) {
+    await s3Client.send(new AbortMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: s3Key,
+      UploadId: upload.uploadId,
+    }));
+    throw error;
+  }
+}
+
+/**
+ * Write one file to the archive: local header, its bytes, data descriptor
+ */
+async function writeZipFile(
+  upload: ArchiveUpload,
+  name: string,
+  modifiedAt: Date,
+  chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>
+): Promise<ZipEntry> {
+  const offset = upload.offset;
+  await writeArchiveBytes(upload, zipLocalHeader(name, modifiedAt));
+
+  let checksum = 0;
+  let size = 0;
+  for await (const chunk of chunks) {
+    checksum = crc32(chunk, checksum);
+    size += chunk.length;
+    await writeArchiveBytes(upload, chunk);
+  }
+
+  await writeArchiveBytes(upload, zipDataDescriptor(checksum, size));
+  return { name, offset, crc32: checksum, size, modifiedAt };
+}
+
+/**
+ * Append bytes to the archive, uploading a part whenever enough are buffered
+ */
+async function writeArchiveBytes(upload: ArchiveUpload, bytes: Uint8Array): Promise<void> {
+  upload.buffered.push(bytes);
+  upload.bufferedBytes += bytes.length;
+  upload.offset += bytes.length;
+
+  if (upload.bufferedBytes >= ARCHIVE_PART_SIZE) {
+    await uploadArchivePart(upload);
+  }
+}
+
+/**
+ * Upload the buffered bytes as the next part
+ */
+async function uploadArchivePart(upload: ArchiveUpload): Promise<void> {
+  if (upload.bufferedBytes === 0) {
+    return;
+  }
+
+  const partNumber = upload.parts.length + 1;
+  const result = await s3Client.send(new UploadPartCommand({
+    Bucket: BUCKET_NAME,
+    Key: upload.s3Key,
+    UploadId: upload.uploadId,
+    PartNumber: partNumber,
+    Body: Buffer.concat(upload.buffered),
+  }));
+
+  upload.parts.push({ ETag: result.ETag!, PartNumber: partNumber });
+  upload.buffered = [];
+  upload.bufferedBytes = 0;
+}
+
+/**
+ * Update the status of an archive job (and its error, when it failed)
+ */
+async function updateArchiveStatus(archiveId: string, status: ArchiveJob['status'], error?: string): Promise<void> {
+  await docClient.send(new UpdateCommand({
+    TableName: ARCHIVES_TABLE,
+    Key: { archiveId },
+    UpdateExpression: error ? 'SET #status = :status, #error = :error' : 'SET #status = :status',
+    ExpressionAttributeNames: { '#status': 'status', ...(error && { '#error': 'error' }) },
+    ExpressionAttributeValues: { ':status': status, ...(error && { ':error': error }) },
+  }));
+}
+
+/**
+ * Validate an archive request body
+ * Returns the request, or the reason it was refused
+ */
+function parseArchiveRequest(body: Record<string, unknown>): CreateArchiveRequest | string {
+  const unknownField = Object.keys(body).find(
+    (field) => !REQUEST_FIELDS.includes(field as keyof CreateArchiveRequest)
+  );
+  if (unknownField) {
+    return `Unknown field: ${unknownField}. Allowed: ${REQUEST_FIELDS.join(', ')}`;
+  }
+
+  const { imageIds, albumId, filter } = body;
+  if ([imageIds, albumId, filter].filter((value) => value !== undefined).length !== 1) {
+    return 'Send one of imageIds, albumId and filter';
+  }
+
+  if (imageIds !== undefined) {
+    if (!Array.isArray(imageIds) || imageIds.length === 0 || imageIds.length > MAX_ARCHIVE_IMAGES ||
+        !imageIds.every((imageId) => typeof imageId === 'string' && imageId)) {
+      return `imageIds must be an array of 1 to ${MAX_ARCHIVE_IMAGES} image IDs`;
+    }
+    return { imageIds: imageIds as string[] };
+  }
+
+  if (albumId !== undefined) {
+    if (typeof albumId !== 'string' || !albumId) {
+      return 'albumId must be an album ID';
+    }
+    return { albumId };
+  }
+
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter) ||
+      !Object.values(filter).every((value) => typeof value === 'string')) {
+    return 'filter must be an object of GET /api/images query parameters (string values)';
+  }
+  return { filter: filter as Record<string, string> };
+}
+
+/**
+ * Archive job as returned to the user - a completed archive gets a download
+ * URL, valid for ARCHIVE_URL_EXPIRY_SECONDS or until the archive expires
+ */
+async function toArchiveResponse(job: ArchiveJob): Promise<ArchiveResponseData> {
+  let download: Pick<ArchiveResponseData, 'downloadUrl' | 'downloadExpiresAt'> = {};
+  if (job.status === 'completed' && job.s3Key) {
+    const expiresIn = Math.min(ARCHIVE_URL_EXPIRY_SECONDS, job.expiresAt - Math.floor(Date.now() / 1000));
+    download = {
+      downloadUrl: await getSignedUrl(s3Client, new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: job.s3Key,
+        ResponseContentType: 'application/zip',
+        ResponseContentDisposition: `attachment; filename="images-${job.createdAt.slice(0, 10)}.zip"`,
+      }), { expiresIn }),
+      downloadExpiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  }
+
+  return {
+    id: job.archiveId,
+    status: job.status,
+    imageCount: job.imageCount,
+    createdAt: job.createdAt,
+    expiresAt: new Date(job.expiresAt * 1000).toISOString(),
+    statusPath: `/api/archives/${job.archiveId}`,
+    ...(job.size !== undefined && { size: job.size }),
+    ...(job.skippedCount !== undefined && { skippedCount: job.skippedCount }),
+    ...(job.completedAt && { completedAt: job.completedAt }),
+    ...download,
+    ...(job.error && { error: job.error }),
+  };
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create error response
+ */
+function errorResponse(statusCode: number, message: string): APIGatewayProxyResult {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+
+  return {
+    statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Standard CORS headers
+ */
+function corsHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  };
+}
@@ -7,9 +7,11 @@
  * - POST /api/auth/refresh - Refresh access token
  * - POST /api/auth/forgot-password - Initiate password reset
  * - POST /api/auth/confirm-forgot-password - Complete password reset
- * - GET /api/auth/me - Get current user profile (protected)
+ * - GET /api/auth/me - Get current user profile and storage usage (protected)
  * - DELETE /api/auth/me - Delete user account and all data (protected)
  * - PATCH /api/auth/upgrade - Upgrade guest account to regular account (protected)
+ * - GET /api/admin/users/{userId}/limits - Get a user's limits, quota and usage (admin only)
+ * - PUT /api/admin/users/{userId}/limits - Override a user's limits and quota (admin only)
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
@@ -25,7 +27,6 @@ import {
   AdminSetUserPasswordCommand,
   AuthFlowType,
 } from '@aws-sdk/client-cognito-identity-provider';
-import { S3Client, DeleteObjectsCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { 
   DynamoDBDocumentClient, 
@@ -41,22 +42,39 @@ import {
   ForgotPasswordRequest,
   ConfirmForgotPasswordRequest,
   UpgradeAccountRequest,
+  UpdateUserLimitsRequest,
   AuthTokens,
   User,
   JwtClaims,
+  ImageMetadata,
+  UserLimits,
+  QuotaTier,
+  QuotaUsage,
+  MAX_MULTIPART_FILE_SIZE,
+  GUEST_EMAIL_DOMAIN,
 } from '../types';
+import {
+  getUserLimits,
+  getUserLimitsRecord,
+  getQuotaUsage,
+  updateUserLimits,
+  ResolvedUserLimits,
+} from '../utils/user-limits';
+import { deleteImageObjects } from '../utils/image-objects';
+import { removeFromSearchIndex } from '../utils/search-index';
+import { deleteUserAlbums } from '../utils/albums';
+import { deleteUserShares } from '../utils/shares';
 
 // Initialize clients
 const cognitoClient = new CognitoIdentityProviderClient({});
-const s3Client = new S3Client({});
 const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
 
 // Environment variables
 const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID!;
 const USER_POOL_ID = process.env.USER_POOL_ID!;
-const BUCKET_NAME = process.env.BUCKET_NAME!;
 const IMAGES_TABLE = process.env.IMAGES_TABLE!;
 const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
+const USER_LIMITS_TABLE = process.env.USER_LIMITS_TABLE!;
 
 /**
  * Lambda Handler
@@ -108,6 +126,14 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return await upgradeAccount(event);
     }
 
+    if (path.match(/^\/api\/admin\/users\/[^/]+\/limits$/) && httpMethod === 'GET') {
+      return await getLimits(event);
+    }
+
+    if (path.match(/^\/api\/admin\/users\/[^/]+\/limits$/) && httpMethod === 'PUT') {
+      return await setLimits(event);
+    }
+
     return errorResponse(404, 'Route not found');
 
   } catch (error) {
@@ -467,9 +493,11 @@ async function getMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult
     role: role as 'user' | 'admin',
   };
 
-  const response: ApiResponse<User> = {
+  const quota = await getQuotaUsage(claims.sub, getQuotaTier(claims));
+
+  const response: ApiResponse<User & { quota: QuotaUsage }> = {
     success: true,
-    data: user,
+    data: { ...user, quota },
   };
 
   return {
@@ -484,10 +512,14 @@ async function getMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult
  * DELETE /api/auth/me (protected)
  * 
  * This deletes:
- * 1. All user's images from S3
+ * 1. All user's images and their renditions from S3
  * 2. All image metadata from DynamoDB images table
  * 3. All analysis results from DynamoDB analysis table
- * 4. The Cognito user account
+ * 4. The images' search index entries
+ * 5. All albums (and which images were in them)
+ * 6. All share links
+ * 7. Any per-user limit overrides
+ * 8. The Cognito user account
  */
 async function deleteMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   const claims = extractUserClaims(event);
@@ -527,26 +559,16 @@ async function deleteMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyRes
       imageCount: images.length,
     }));
 
-    // Step 2: Delete images from S3
+    // Step 2: Delete images and their renditions from S3
     if (images.length > 0) {
-      const s3Keys = images.map((img) => ({ Key: img.s3Key as string }));
-      
-      // S3 DeleteObjects supports up to 1000 keys at a time
-      const chunkSize = 1000;
-      for (let i = 0; i < s3Keys.length; i += chunkSize) {
-        const chunk = s3Keys.slice(i, i + chunkSize);
-        await s3Client.send(new DeleteObjectsCommand({
-          Bucket: BUCKET_NAME,
-          Delete: { Objects: chunk },
-        }));
-      }
+      const deletedCount = await deleteImageObjects(images as ImageMetadata[]);
 
       console.log(JSON.stringify({
         level: 'info',
         message: 'Deleted images from S3',
         action: 'delete_user_s3_complete',
         userId,
-        deletedCount: s3Keys.length,
+        deletedCount,
       }));
     }
 
@@ -615,7 +637,26 @@ async function deleteMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyRes
       }));
     }
 
-    // Step 5: Delete the Cognito user
+    // Step 5: Remove the images from the search index
+    const indexedIds = new Set([
+      ...images.map((img) => img.imageId as string),
+      ...analysisRecords.map((record) => record.imageId as string),
+    ]);
+    await removeFromSearchIndex([...indexedIds]);
+
+    // Step 6: Delete the user's albums (the images are already gone)
+    const albumsDeleted = await deleteUserAlbums(userId);
+
+    // Step 7: Delete the user's share links
+    const sharesDeleted = await deleteUserShares(userId);
+
+    // Step 8: Delete any per-user limit overrides and usage counters
+    await dynamoClient.send(new DeleteCommand({
+      TableName: USER_LIMITS_TABLE,
+      Key: { userId },
+    }));
+
+    // Step 9: Delete the Cognito user
     await cognitoClient.send(new AdminDeleteUserCommand({
       UserPoolId: USER_POOL_ID,
       Username: cognitoUsername,
@@ -628,6 +669,8 @@ async function deleteMe(event: APIGatewayProxyEvent): Promise<APIGatewayProxyRes
       userId,
       imagesDeleted: images.length,
       analysisDeleted: analysisRecords.length,
+      albumsDeleted,
+      sharesDeleted,
     }));
 
     const response: ApiResponse<{ message: string }> = {
@@ -687,7 +730,7 @@ async function upgradeAccount(event: APIGatewayProxyEvent): Promise<APIGatewayPr
   const cognitoUsername = claims['cognito:username'];
 
   // Verify this is a guest account
-  if (!currentEmail.includes('@guidepost.guest')) {
+  if (!currentEmail.includes(GUEST_EMAIL_DOMAIN)) {
     return errorResponse(400, 'Only guest accounts can be upgraded');
   }
 
@@ -806,6 +849,117 @@ async function upgradeAccount(event: APIGatewayProxyEvent): Promise<APIGatewayPr
   }
 }
 
+/**
+ * Get a user's limits
+ * GET /api/admin/users/{userId}/limits (admin only)
+ * 
+ * Returns both the effective limits and any overrides, so admins can tell
+ * which values are defaults.
+ */
+async function getLimits(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const claims = extractUserClaims(event);
+
+  if (!claims) {
+    return errorResponse(401, 'Unauthorized');
+  }
+
+  if (!isAdmin(claims)) {
+    return errorResponse(403, 'Access denied - admin only');
+  }
+
+  const targetUserId = event.pathParameters?.userId;
+  if (!targetUserId) {
+    return errorResponse(400, 'User ID required');
+  }
+
+  const record = await getUserLimitsRecord(targetUserId);
+  const limits = await getUserLimits(targetUserId);
+
+  const response: ApiResponse<LimitsResponseData> = {
+    success: true,
+    data: toLimitsResponseData(targetUserId, limits, record),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Override a user's limits
+ * PUT /api/admin/users/{userId}/limits (admin only)
+ * 
+ * Send null for a field to remove the override and restore the default.
+ */
+async function setLimits(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const claims = extractUserClaims(event);
+
+  if (!claims) {
+    return errorResponse(401, 'Unauthorized');
+  }
+
+  if (!isAdmin(claims)) {
+    return errorResponse(403, 'Access denied - admin only');
+  }
+
+  const targetUserId = event.pathParameters?.userId;
+  if (!targetUserId) {
+    return errorResponse(400, 'User ID required');
+  }
+
+  const body = parseBody<UpdateUserLimitsRequest>(event.body);
+
+  if (!body || (body.maxUploadSize === undefined && body.maxImages === undefined && body.maxTotalBytes === undefined)) {
+    return errorResponse(400, 'At least one of maxUploadSize, maxImages or maxTotalBytes is required');
+  }
+
+  if (body.maxUploadSize !== undefined && body.maxUploadSize !== null &&
+      (!Number.isInteger(body.maxUploadSize) || body.maxUploadSize <= 0 || body.maxUploadSize > MAX_MULTIPART_FILE_SIZE)) {
+    return errorResponse(400, `maxUploadSize must be a positive integer no greater than ${MAX_MULTIPART_FILE_SIZE} bytes`);
+  }
+
+  // A quota of 0 is allowed - it stops a user from uploading without deleting anything
+  for (const field of ['maxImages', 'maxTotalBytes'] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+      return errorResponse(400, `${field} must be a non-negative integer`);
+    }
+  }
+
+  const changes: Record<string, number | null> = {};
+  for (const field of ['maxUploadSize', 'maxImages', 'maxTotalBytes'] as const) {
+    if (body[field] !== undefined) {
+      changes[field] = body[field] as number | null;
+    }
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Updating user limits',
+    action: 'update_user_limits',
+    adminUserId: claims.sub,
+    targetUserId,
+    ...changes,
+  }));
+
+  const record = await updateUserLimits(targetUserId, changes, claims.sub);
+  const limits = await getUserLimits(targetUserId);
+
+  const response: ApiResponse<LimitsResponseData> = {
+    success: true,
+    message: 'User limits updated',
+    data: toLimitsResponseData(targetUserId, limits, record),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
 /**
  * Extract user claims from API Gateway event
  * The Cognito authorizer adds claims to requestContext.authorizer.claims
@@ -849,6 +1003,42 @@ export function extractUserClaims(event: APIGatewayProxyEvent): JwtClaims | null
   };
 }
 
+/**
+ * Admin view of a user's limits
+ */
+interface LimitsResponseData {
+  userId: string;
+  limits: ResolvedUserLimits;                  // Effective limits (overrides merged with defaults)
+  overrides: Pick<UserLimits, 'maxUploadSize' | 'maxImages' | 'maxTotalBytes' | 'updatedAt' | 'updatedBy'> | null;
+  usage: { imageCount: number; totalBytes: number; tier: QuotaTier };
+}
+
+function toLimitsResponseData(
+  userId: string,
+  limits: ResolvedUserLimits,
+  record: UserLimits | undefined
+): LimitsResponseData {
+  const hasOverrides = record && (record.maxUploadSize !== undefined ||
+    record.maxImages !== undefined || record.maxTotalBytes !== undefined);
+
+  return {
+    userId,
+    limits,
+    overrides: hasOverrides ? {
+      maxUploadSize: record.maxUploadSize,
+      maxImages: record.maxImages,
+      maxTotalBytes: record.maxTotalBytes,
+      updatedAt: record.updatedAt,
+      updatedBy: record.updatedBy,
+    } : null,
+    usage: {
+      imageCount: record?.imageCount ?? 0,
+      totalBytes: record?.totalBytes ?? 0,
+      tier: record?.quotaTier ?? 'user',
+    },
+  };
+}
+
 /**
  * Check if user is admin
  */
@@ -857,6 +1047,14 @@ export function isAdmin(claims: JwtClaims): boolean {
   return groups.includes('admin');
 }
 
+/**
+ * Get the quota tier for a user (guest accounts get a smaller default quota)
+ */
+export function getQuotaTier(claims: JwtClaims): QuotaTier {
+  if (isAdmin(claims)) return 'admin';
+  return claims.email?.endsWith(GUEST_EMAIL_DOMAIN) ? 'guest' : 'user';
+}
+
 /**
  * Parse request body
  */
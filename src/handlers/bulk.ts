@@ -0,0 +1,466 @@
+/**
+ * Bulk Operations Lambda Handler
+ *
+ * Applies one operation to many images at once, instead of one request per
+ * image. Images are chosen by ID, or by the same filters as GET /api/images
+ * (one page of MAX_BULK_IMAGES at a time - send nextCursor back as cursor for
+ * the next one).
+ *
+ * Routes:
+ * - POST /api/images/bulk - delete, reanalyze, addTags or addToAlbum
+ *
+ * Every image is checked on its own, as the single-image endpoints would:
+ * one image that can't be changed doesn't stop the others. The response has
+ * a result per image.
+ *
+ * Users can only change their own images unless they are admin.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  Album,
+  ImageMetadata,
+  BulkImagesRequest,
+  BulkItemResult,
+  BulkOperation,
+  BULK_OPERATIONS,
+  MAX_BULK_IMAGES,
+  MAX_TAGS,
+} from '../types';
+import { extractUserClaims, isAdmin } from './auth';
+import { parseTags } from '../utils/image-fields';
+import { parseImageListQuery, findImages } from '../utils/image-query';
+import { batchGetByImageId } from '../utils/image-response';
+import { trashImage, purgeImage } from '../utils/trash';
+import { enqueueReanalysis } from '../utils/analysis-queue';
+import { addImagesToAlbum } from '../utils/albums';
+
+// Initialize AWS SDK clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+const ALBUMS_TABLE = process.env.ALBUMS_TABLE!;
+
+const REQUEST_FIELDS: ReadonlyArray<keyof BulkImagesRequest> = [
+  'operation', 'imageIds', 'filter', 'cursor', 'tags', 'albumId',
+];
+
+// Only finished analyses (or failed ones) can be run again
+const REANALYZABLE_STATUSES: ImageMetadata['status'][] = ['analyzed', 'failed'];
+
+/**
+ * Lambda Handler
+ * Routes requests based on path and method
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { path, httpMethod } = event;
+
+  const claims = extractUserClaims(event);
+  const userId = claims?.sub;
+  const userIsAdmin = claims ? isAdmin(claims) : false;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Bulk request received',
+    action: 'bulk_start',
+    path,
+    httpMethod,
+    userId,
+    isAdmin: userIsAdmin,
+  }));
+
+  try {
+    if (!claims || !userId) {
+      return errorResponse(401, 'Unauthorized - valid token required');
+    }
+
+    if (path === '/api/images/bulk' && httpMethod === 'POST') {
+      return bulkImages(event.body, userId, userIsAdmin);
+    }
+
+    // Route not found
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Bulk request failed',
+      action: 'bulk_error',
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+/**
+ * Apply an operation to many images
+ * POST /api/images/bulk
+ *
+ * Body: { operation, imageIds: [...] } or { operation, filter: {...}, cursor }
+ * plus tags (addTags) or albumId (addToAlbum).
+ */
+async function bulkImages(body: string | null, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const bulk = parseBulkRequest(request);
+  if (typeof bulk === 'string') {
+    return errorResponse(400, bulk);
+  }
+
+  // The album is checked once for the whole request
+  let album: Album | undefined;
+  if (bulk.operation === 'addToAlbum') {
+    const result = await docClient.send(new GetCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId: bulk.albumId },
+    }));
+    album = result.Item as Album | undefined;
+
+    if (!album) {
+      return errorResponse(404, 'Album not found');
+    }
+    if (!isAdminUser && album.userId !== userId) {
+      return errorResponse(403, 'Access denied - you can only access your own albums');
+    }
+  }
+
+  // Choose the images: by ID, or one page of the filter
+  let imageIds: string[];
+  let images: Map<string, ImageMetadata>;
+  let nextCursor: string | null | undefined;
+
+  if (bulk.imageIds) {
+    imageIds = [...new Set(bulk.imageIds)];
+    images = await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, imageIds);
+  } else {
+    const query = parseImageListQuery(bulk.filter!);
+    if (typeof query === 'string') {
+      return errorResponse(400, query);
+    }
+
+    // A filter selects your own images - admins can choose another user's with filter.userId
+    const ownerId = isAdminUser ? bulk.filter!.userId || userId : userId;
+    const page = await findImages(ownerId, query, MAX_BULK_IMAGES, bulk.cursor);
+    if ('error' in page) {
+      return errorResponse(page.statusCode, page.error);
+    }
+
+    imageIds = page.images.map((image) => image.imageId);
+    images = new Map(page.images.map((image) => [image.imageId, image]));
+    nextCursor = page.nextCursor;
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Applying bulk operation',
+    action: 'bulk_images',
+    operation: bulk.operation,
+    userId,
+    isAdmin: isAdminUser,
+    imageCount: imageIds.length,
+    byFilter: !bulk.imageIds,
+  }));
+
+  // Check every image as the single-image endpoints do
+  const results = new Map<string, BulkItemResult>();
+  const allowed: ImageMetadata[] = [];
+  for (const imageId of imageIds) {
+    const image = images.get(imageId);
+    if (!image || image.trashedAt) {
+      results.set(imageId, failure(imageId, 404, 'Image not found'));
+    } else if (!isAdminUser && image.userId !== userId) {
+      results.set(imageId, failure(imageId, 403, 'Access denied - you can only change your own images'));
+    } else {
+      allowed.push(image);
+    }
+  }
+
+  switch (bulk.operation) {
+    case 'delete':
+      await deleteImages(allowed, results);
+      break;
+    case 'reanalyze':
+      await reanalyzeImages(allowed, results);
+      break;
+    case 'addTags':
+      await addTags(allowed, bulk.tags!, results);
+      break;
+    case 'addToAlbum':
+      await addToAlbum(allowed, album!, results);
+      break;
+  }
+
+  const ordered = imageIds.map((imageId) => results.get(imageId)!);
+  const succeeded = ordered.filter((result) => result.success).length;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Bulk operation finished',
+    action: 'bulk_images_complete',
+    operation: bulk.operation,
+    userId,
+    succeeded,
+    failed: ordered.length - succeeded,
+  }));
+
+  const response: ApiResponse<{ operation: BulkOperation; succeeded: number; failed: number; results: BulkItemResult[] }> = {
+    success: true,
+    message: `${succeeded} of ${ordered.length} image(s) done`,
+    data: {
+      operation: bulk.operation,
+      succeeded,
+      failed: ordered.length - succeeded,
+      results: ordered,
+    },
+    ...(nextCursor !== undefined && { nextCursor }),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Move images to the trash - pending uploads are deleted at once (as DELETE /api/images/{imageId})
+ */
+async function deleteImages(images: ImageMetadata[], results: Map<string, BulkItemResult>): Promise<void> {
+  for (const image of images) {
+    if (image.status === 'pending') {
+      results.set(image.imageId, await purgeImage(image)
+        ? success(image.imageId)
+        : failure(image.imageId, 409, 'Upload finished meanwhile - delete the image again')); // Or deleted meanwhile
+      continue;
+    }
+
+    const trashedAt = await trashImage(image);
+    results.set(image.imageId, trashedAt
+      ? success(image.imageId)
+      : failure(image.imageId, 404, 'Image not found')); // Deleted or trashed meanwhile
+  }
+}
+
+/**
+ * Queue images for analysis again - a completed analysis stays until the new
+ * one is done, and is kept if the new one fails
+ */
+async function reanalyzeImages(images: ImageMetadata[], results: Map<string, BulkItemResult>): Promise<void> {
+  const ready: ImageMetadata[] = [];
+  for (const image of images) {
+    if (REANALYZABLE_STATUSES.includes(image.status)) {
+      ready.push(image);
+    } else {
+      results.set(image.imageId, failure(image.imageId, 409, 'Image is still being uploaded or analyzed'));
+    }
+  }
+
+  const failed = ready.length > 0 ? await enqueueReanalysis(ready, uuidv4()) : [];
+  for (const image of ready) {
+    results.set(image.imageId, failed.includes(image.imageId)
+      ? failure(image.imageId, 500, 'Failed to queue the image for analysis')
+      : success(image.imageId));
+  }
+}
+
+/**
+ * Add tags to images, keeping the tags they have (duplicates ignoring case are dropped)
+ * An image whose tags changed since it was read (e.g. a concurrent PATCH) gets a 409.
+ */
+async function addTags(images: ImageMetadata[], tags: string[], results: Map<string, BulkItemResult>): Promise<void> {
+  for (const image of images) {
+    const existing = image.tags || [];
+    const known = new Set(existing.map((tag) => tag.toLowerCase()));
+    const newTags = tags.filter((tag) => !known.has(tag.toLowerCase()));
+
+    if (newTags.length === 0) {
+      results.set(image.imageId, success(image.imageId));
+      continue;
+    }
+    if (existing.length + newTags.length > MAX_TAGS) {
+      results.set(image.imageId, failure(image.imageId, 400, `An image can have at most ${MAX_TAGS} tags`));
+      continue;
+    }
+
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: IMAGES_TABLE,
+        Key: { imageId: image.imageId },
+        UpdateExpression: 'SET tags = :tags',
+        // Don't recreate a deleted image, edit one trashed meanwhile, or overwrite tags changed meanwhile
+        ConditionExpression: 'attribute_exists(imageId) AND attribute_not_exists(trashedAt) AND ' +
+          (image.tags ? 'tags = :oldTags' : 'attribute_not_exists(tags)'),
+        ExpressionAttributeValues: {
+          ':tags': [...existing, ...newTags],
+          ...(image.tags && { ':oldTags': image.tags }),
+        },
+      }));
+      results.set(image.imageId, success(image.imageId));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        const current = await docClient.send(new GetCommand({
+          TableName: IMAGES_TABLE,
+          Key: { imageId: image.imageId },
+        }));
+        const currentImage = current.Item as ImageMetadata | undefined;
+        results.set(image.imageId, !currentImage || currentImage.trashedAt
+          ? failure(image.imageId, 404, 'Image not found')
+          : failure(image.imageId, 409, 'Tags were changed meanwhile - try again'));
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Add images to an album - they must be the album owner's finished uploads
+ * Images already in the album count as done.
+ */
+async function addToAlbum(images: ImageMetadata[], album: Album, results: Map<string, BulkItemResult>): Promise<void> {
+  const ready: ImageMetadata[] = [];
+  for (const image of images) {
+    if (image.userId !== album.userId) {
+      results.set(image.imageId, failure(image.imageId, 400, 'Image and album belong to different users'));
+    } else if (image.status === 'pending') {
+      results.set(image.imageId, failure(image.imageId, 409, 'Image is still being uploaded'));
+    } else {
+      ready.push(image);
+    }
+  }
+
+  if (ready.length === 0) {
+    return;
+  }
+
+  // Undefined if the album was deleted while the images were being added
+  const addition = await addImagesToAlbum(album, ready.map((image) => image.imageId));
+  for (const image of ready) {
+    results.set(image.imageId, addition ? success(image.imageId) : failure(image.imageId, 404, 'Album not found'));
+  }
+}
+
+/**
+ * Validate a bulk request body
+ * Returns the request, or the reason it was refused
+ */
+function parseBulkRequest(body: Record<string, unknown>): BulkImagesRequest | string {
+  const unknownField = Object.keys(body).find(
+    (field) => !REQUEST_FIELDS.includes(field as keyof BulkImagesRequest)
+  );
+  if (unknownField) {
+    return `Unknown field: ${unknownField}. Allowed: ${REQUEST_FIELDS.join(', ')}`;
+  }
+
+  const { operation, imageIds, filter, cursor, tags, albumId } = body;
+
+  if (!BULK_OPERATIONS.includes(operation as BulkOperation)) {
+    return `Invalid operation. Allowed: ${BULK_OPERATIONS.join(', ')}`;
+  }
+  const request: BulkImagesRequest = { operation: operation as BulkOperation };
+
+  if ((imageIds === undefined) === (filter === undefined)) {
+    return 'Send either imageIds or filter';
+  }
+
+  if (imageIds !== undefined) {
+    if (!Array.isArray(imageIds) || imageIds.length === 0 || imageIds.length > MAX_BULK_IMAGES ||
+        !imageIds.every((imageId) => typeof imageId === 'string' && imageId)) {
+      return `imageIds must be an array of 1 to ${MAX_BULK_IMAGES} image IDs`;
+    }
+    if (cursor !== undefined) {
+      return 'cursor can only be used with filter';
+    }
+    request.imageIds = imageIds as string[];
+  } else {
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter) ||
+        !Object.values(filter).every((value) => typeof value === 'string')) {
+      return 'filter must be an object of GET /api/images query parameters (string values)';
+    }
+    if (cursor !== undefined && (typeof cursor !== 'string' || !cursor)) {
+      return 'cursor must be the nextCursor of the previous request';
+    }
+    request.filter = filter as Record<string, string>;
+    request.cursor = cursor as string | undefined;
+  }
+
+  if (request.operation === 'addTags') {
+    const parsed = parseTags(tags);
+    if (!parsed || parsed.length === 0) {
+      return `tags must be an array of 1 to ${MAX_TAGS} tags`;
+    }
+    request.tags = parsed;
+  } else if (tags !== undefined) {
+    return 'tags can only be used with addTags';
+  }
+
+  if (request.operation === 'addToAlbum') {
+    if (typeof albumId !== 'string' || !albumId) {
+      return 'albumId is required';
+    }
+    request.albumId = albumId;
+  } else if (albumId !== undefined) {
+    return 'albumId can only be used with addToAlbum';
+  }
+
+  return request;
+}
+
+function success(id: string): BulkItemResult {
+  return { id, success: true, statusCode: 200 };
+}
+
+function failure(id: string, statusCode: number, error: string): BulkItemResult {
+  return { id, success: false, statusCode, error };
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create error response
+ */
+function errorResponse(statusCode: number, message: string): APIGatewayProxyResult {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+
+  return {
+    statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Standard CORS headers
+ */
+function corsHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  };
+}
@@ -1,26 +1,87 @@
 /**
  * Query Lambda Handler
  * 
- * This Lambda handles all GET and DELETE requests:
+ * This Lambda handles all GET, PATCH and DELETE requests:
  * - GET /health - Health check
- * - GET /api/images - List all images
- * - GET /api/images/{imageId} - Get/download a specific image
- * - GET /api/images/{imageId}/info - Get image metadata
- * - DELETE /api/images/{imageId} - Delete an image and all associated data
- * - GET /api/analysis - List all analysis results
+ * - GET /api/images - List images (filters, sort, ?limit=&cursor= pagination, ?include=analysis,urls)
+ * - GET /api/images/near - Images within a radius of a point, nearest first
+ * - GET /api/images/within - Images inside a bounding box (map viewport)
+ * - GET /api/images/clusters - Images of a map viewport grouped into clusters
+ * - GET /api/images/export - GeoJSON/KML file of geotagged images (listing filters, ?keyword=)
+ * - GET /api/images/{imageId} - Get/download a specific image (?size=thumb|preview|display|original, ?version=N)
+ * - GET /api/images/{imageId}/info - Get image metadata and version history (?include=analysis,urls)
+ * - GET /api/images/{imageId}/details - Image metadata, analysis and download URLs in one response
+ * - PATCH /api/images/{imageId} - Edit image metadata (name, title, caption, tags, location, date)
+ * - DELETE /api/images/{imageId} - Move an image to the trash
+ * - GET /api/analysis - List analysis results (?limit=&cursor= pagination)
  * - GET /api/analysis/{imageId} - Get analysis for specific image
+ * - GET /api/search - Full-text search over analysis results (?q=, ?limit=&cursor= pagination)
  * 
  * This consolidates the query functionality from both the upload and analysis
  * services in the original application into a single Lambda for efficiency.
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { v4 as uuidv4 } from 'uuid';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, ScanCommand, QueryCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
-import { ApiResponse, ImageMetadata, ImageAnalysis, JwtClaims } from '../types';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  ImageMetadata,
+  ImageAnalysis,
+  ImageVersion,
+  JwtClaims,
+  UpdateImageMetadataRequest,
+  ImageListQuery,
+  GeoBoundingBox,
+  GeoNearQuery,
+  ImageCluster,
+  SearchResultData,
+  IMAGE_SIZES,
+  ImageSize,
+  IMAGE_INCLUDES,
+  ImageInclude,
+  MAX_SEARCH_QUERY_LENGTH,
+  MAX_EXPORT_IMAGES,
+} from '../types';
 import { extractUserClaims, isAdmin } from './auth';
+import { parseImageMetadataUpdate } from '../utils/image-fields';
+import { parseImageListQuery, findImages } from '../utils/image-query';
+import {
+  parseNearQuery,
+  parseBoundingBox,
+  parseZoom,
+  findImagesNear,
+  findImagesWithin,
+  clusterImages,
+} from '../utils/geo-query';
+import { encodeGeohash } from '../utils/geohash';
+import {
+  parseExportOptions,
+  matchesKeywords,
+  serializeExport,
+  ExportOptions,
+  ExportEntry,
+  EXPORT_CONTENT_TYPES,
+} from '../utils/geo-export';
+import { toImageSummary, parseIncludes, getImageExtras, batchGetByImageId } from '../utils/image-response';
+import { getSearchTerms, searchIndex, highlight } from '../utils/search-index';
+import { trashImage, purgeImage, getPurgeAt } from '../utils/trash';
+import {
+  parsePageParams,
+  encodeCursor,
+  decodeCursor,
+  decodeMergedCursor,
+  queryPage,
+  mergedQueryPage,
+  Page,
+} from '../utils/pagination';
 
 // Initialize AWS SDK clients
 const s3Client = new S3Client({});
@@ -32,6 +93,12 @@ const BUCKET_NAME = process.env.BUCKET_NAME!;
 const IMAGES_TABLE = process.env.IMAGES_TABLE!;
 const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
 
+// Length of the description snippet in search results
+const SEARCH_SNIPPET_LENGTH = 160;
+
+// Listings of every user's analysis merge these partitions of the status-createdAt-index
+const LISTED_ANALYSIS_STATUSES: ImageAnalysis['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
 /**
  * Lambda Handler
  * Routes requests based on path and method
@@ -69,28 +136,102 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return errorResponse(401, 'Unauthorized - valid token required');
     }
 
-    // For admin users, allow optional userId query param to filter by specific user
-    const targetUserId = userIsAdmin && queryStringParameters?.userId 
-      ? queryStringParameters.userId 
-      : userId;
+    // Admin users see every user's items, or one user's with the optional userId query param
+    const targetUserId = userIsAdmin ? queryStringParameters?.userId || undefined : userId;
 
     // List all images (filtered by user unless admin)
     if (path === '/api/images' && httpMethod === 'GET') {
-      return listImages(targetUserId, userIsAdmin);
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const query = parseImageListQuery(queryStringParameters);
+      if (typeof query === 'string') return errorResponse(400, query);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      return listImages(targetUserId, userIsAdmin, query, includes, page.limit, page.cursor);
+    }
+
+    // Images near a point / inside a box - before /api/images/{imageId}, which would match too
+    if (path === '/api/images/near' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const near = parseNearQuery(queryStringParameters);
+      if (typeof near === 'string') return errorResponse(400, near);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      return listImagesByLocation(targetUserId || userId, { near }, includes, page.limit, page.cursor);
+    }
+
+    if (path === '/api/images/within' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const within = parseBoundingBox(queryStringParameters);
+      if (typeof within === 'string') return errorResponse(400, within);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      return listImagesByLocation(targetUserId || userId, { within }, includes, page.limit, page.cursor);
+    }
+
+    // Map clusters for a viewport (filtered by user unless admin)
+    if (path === '/api/images/clusters' && httpMethod === 'GET') {
+      const viewport = parseBoundingBox(queryStringParameters);
+      if (typeof viewport === 'string') return errorResponse(400, viewport);
+      const zoom = parseZoom(queryStringParameters);
+      if (typeof zoom === 'string') return errorResponse(400, zoom);
+      return getImageClusters(targetUserId, userIsAdmin, viewport, zoom);
+    }
+
+    // Export geotagged images as GeoJSON or KML (own images, or another user's for admins)
+    if (path === '/api/images/export' && httpMethod === 'GET') {
+      const query = parseImageListQuery(queryStringParameters);
+      if (typeof query === 'string') return errorResponse(400, query);
+      const options = parseExportOptions(queryStringParameters);
+      if (typeof options === 'string') return errorResponse(400, options);
+      return exportImages(targetUserId || userId, query, options, getApiBaseUrl(event));
     }
 
     // Get image info
     if (path.match(/^\/api\/images\/[^/]+\/info$/) && httpMethod === 'GET') {
       const imageId = pathParameters?.imageId;
       if (!imageId) return errorResponse(400, 'Image ID required');
-      return getImageInfo(imageId, userId, userIsAdmin);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      return getImageInfo(imageId, userId, userIsAdmin, includes);
+    }
+
+    // Get image metadata with its analysis and download URLs
+    if (path.match(/^\/api\/images\/[^/]+\/details$/) && httpMethod === 'GET') {
+      const imageId = pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return getImageInfo(imageId, userId, userIsAdmin, [...IMAGE_INCLUDES]);
     }
 
     // Get/download image
     if (path.match(/^\/api\/images\/[^/]+$/) && httpMethod === 'GET') {
       const imageId = pathParameters?.imageId;
       if (!imageId) return errorResponse(400, 'Image ID required');
-      return getImage(imageId, userId, userIsAdmin);
+      const size = queryStringParameters?.size || 'original';
+      if (!IMAGE_SIZES.includes(size as ImageSize)) {
+        return errorResponse(400, `Invalid size. Allowed: ${IMAGE_SIZES.join(', ')}`);
+      }
+      let version: number | undefined;
+      if (queryStringParameters?.version !== undefined) {
+        version = Number(queryStringParameters.version);
+        if (!Number.isInteger(version) || version < 1) {
+          return errorResponse(400, 'Invalid version');
+        }
+        // Renditions only exist for the current version
+        if (size !== 'original') {
+          return errorResponse(400, 'size cannot be combined with version');
+        }
+      }
+      return getImage(imageId, userId, userIsAdmin, size as ImageSize, version);
+    }
+
+    // Edit image metadata
+    if (path.match(/^\/api\/images\/[^/]+$/) && httpMethod === 'PATCH') {
+      const imageId = pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return updateImageMetadata(imageId, event.body, userId, userIsAdmin);
     }
 
     // Delete image
@@ -102,7 +243,9 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
 
     // List all analysis results (filtered by user unless admin)
     if (path === '/api/analysis' && httpMethod === 'GET') {
-      return listAnalysis(targetUserId, userIsAdmin);
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      return listAnalysis(targetUserId, userIsAdmin, page.limit, page.cursor);
     }
 
     // Get analysis for specific image
@@ -112,6 +255,18 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return getAnalysis(imageId, userId, userIsAdmin);
     }
 
+    // Full-text search (own images, or another user's for admins)
+    if (path === '/api/search' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const q = queryStringParameters?.q?.trim();
+      if (!q) return errorResponse(400, 'q is required');
+      if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+        return errorResponse(400, `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`);
+      }
+      return searchImages(targetUserId || userId, q, page.limit, page.cursor);
+    }
+
     // Route not found
     return errorResponse(404, 'Route not found');
 
@@ -149,64 +304,93 @@ async function healthCheck(): Promise<APIGatewayProxyResult> {
  * 
  * Regular users see only their images.
  * Admin users can see all images or filter by userId query param.
+ * Filters and sort order come from the query string (see utils/image-query).
+ * ?include= adds each image's analysis and/or download URLs (see getImageExtras).
  */
-async function listImages(userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+async function listImages(
+  userId: string | undefined,
+  isAdminUser: boolean,
+  query: ImageListQuery,
+  includes: ImageInclude[],
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
   console.log(JSON.stringify({
     level: 'info',
     message: 'Listing images',
     action: 'list_images',
     userId,
     isAdmin: isAdminUser,
+    query,
+    includes,
+    limit,
   }));
 
-  let images: ImageMetadata[] = [];
-
-  if (isAdminUser && !userId) {
-    // Admin without filter - scan all images
-    const result = await docClient.send(new ScanCommand({
-      TableName: IMAGES_TABLE,
-    }));
-    images = result.Items as ImageMetadata[] || [];
-  } else {
-    // Query by userId using GSI
-    const result = await docClient.send(new QueryCommand({
-      TableName: IMAGES_TABLE,
-      IndexName: 'userId-uploadedAt-index',
-      KeyConditionExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ':userId': userId,
-      },
-      ScanIndexForward: false, // Descending order (newest first)
-    }));
-    images = result.Items as ImageMetadata[] || [];
+  const result = await findImages(userId, query, limit, cursor);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
   }
+  const { images, nextCursor } = result;
 
-  // For scan results (admin all), sort by uploadedAt descending
-  if (isAdminUser && !userId) {
-    images.sort((a, b) => 
-      new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime()
-    );
+  const extras = await getImageExtras(images, includes);
+  const responseImages = images.map((img) => ({ ...toImageSummary(img), ...extras.get(img.imageId) }));
+
+  const response: ApiResponse<typeof responseImages> = {
+    success: true,
+    data: responseImages,
+    nextCursor,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * List a user's images by location, nearest first
+ * GET /api/images/near?lat=&lon=&radiusKm= - within a radius of a point
+ * GET /api/images/within?north=&south=&east=&west= - inside a bounding box (sorted from its center)
+ * 
+ * Only images with a location are found (see utils/geo-query). The index is
+ * per user, so admins see their own images unless they pass ?userId=.
+ */
+async function listImagesByLocation(
+  userId: string,
+  area: { near: GeoNearQuery } | { within: GeoBoundingBox },
+  includes: ImageInclude[],
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Listing images by location',
+    action: 'list_images_location',
+    userId,
+    ...area,
+    includes,
+    limit,
+  }));
+
+  const result = 'near' in area
+    ? await findImagesNear(userId, area.near, limit, cursor)
+    : await findImagesWithin(userId, area.within, limit, cursor);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
   }
 
-  // Transform to match original API response format
-  const responseImages = images.map(img => ({
-    id: img.imageId,
-    userId: img.userId,
-    filename: img.filename,
-    originalName: img.originalName,
-    mimetype: img.mimetype,
-    size: img.size,
-    uploadedAt: img.uploadedAt,
-    path: `/api/images/${img.imageId}`,
-    status: img.status,
-    ...(img.latitude !== undefined && { latitude: img.latitude }),
-    ...(img.longitude !== undefined && { longitude: img.longitude }),
-    ...(img.creationDate && { creationDate: img.creationDate }),
+  const extras = await getImageExtras(result.images, includes);
+  const responseImages = result.images.map((img) => ({
+    ...toImageSummary(img),
+    distanceKm: img.distanceKm,
+    ...extras.get(img.imageId),
   }));
 
   const response: ApiResponse<typeof responseImages> = {
     success: true,
     data: responseImages,
+    nextCursor: result.nextCursor,
   };
 
   return {
@@ -216,6 +400,138 @@ async function listImages(userId: string, isAdminUser: boolean): Promise<APIGate
   };
 }
 
+/**
+ * Cluster the images in a map viewport
+ * GET /api/images/clusters?north=&south=&east=&west=&zoom=
+ * 
+ * Regular users see only their images.
+ * Admin users see all images or filter by userId query param.
+ * Clusters are largest first; a cluster of one is a single image.
+ */
+async function getImageClusters(
+  userId: string | undefined,
+  isAdminUser: boolean,
+  viewport: GeoBoundingBox,
+  zoom: number
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Clustering images',
+    action: 'cluster_images',
+    userId,
+    isAdmin: isAdminUser,
+    viewport,
+    zoom,
+  }));
+
+  const result = await clusterImages(userId, viewport, zoom);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const response: ApiResponse<{ zoom: number; imageCount: number; clusters: ImageCluster[] }> = {
+    success: true,
+    data: { zoom, ...result },
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Export geotagged images with their analysis
+ * GET /api/images/export?format=geojson|kml
+ * 
+ * Takes the listing filters (only images with a location are exported) and
+ * ?keyword=, matched against analysis keywords and tags. The file can be
+ * larger than a Lambda response may be, so it is written to S3 under
+ * exports/ (expired by a lifecycle rule) and the response redirects to it,
+ * like image downloads.
+ */
+async function exportImages(
+  userId: string,
+  query: ImageListQuery,
+  options: ExportOptions,
+  baseUrl: string
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Exporting image locations',
+    action: 'export_images',
+    userId,
+    query,
+    options,
+  }));
+
+  const result = await findImages(userId, { ...query, hasLocation: true }, MAX_EXPORT_IMAGES + 1);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+  if (result.images.length > MAX_EXPORT_IMAGES) {
+    return errorResponse(400, `More than ${MAX_EXPORT_IMAGES} images match - add filters`);
+  }
+
+  const images = result.images.filter((image) => image.latitude !== undefined && image.longitude !== undefined);
+  const analyses = await batchGetByImageId<ImageAnalysis>(ANALYSIS_TABLE, images.map((image) => image.imageId));
+
+  let entries: ExportEntry[] = images.map((image) => ({ image, analysis: analyses.get(image.imageId) }));
+  if (options.keywords) {
+    entries = entries.filter((entry) => matchesKeywords(entry, options.keywords!));
+  }
+
+  const exportedAt = new Date().toISOString();
+  const extension = options.format === 'kml' ? 'kml' : 'geojson';
+  const s3Key = `exports/${userId}/${uuidv4()}.${extension}`;
+  const contentType = EXPORT_CONTENT_TYPES[options.format];
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    Body: serializeExport(options.format, entries, baseUrl),
+    ContentType: contentType,
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image locations exported',
+    action: 'export_images_complete',
+    userId,
+    s3Key,
+    imageCount: entries.length,
+  }));
+
+  const presignedUrl = await getSignedUrl(s3Client, new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    ResponseContentType: contentType,
+    ResponseContentDisposition: `attachment; filename="images-${exportedAt.slice(0, 10)}.${extension}"`,
+  }), {
+    expiresIn: 3600, // 1 hour
+  });
+
+  return {
+    statusCode: 302,
+    headers: {
+      ...corsHeaders(),
+      'Location': presignedUrl,
+    },
+    body: '',
+  };
+}
+
+/**
+ * Public URL of the API stage the request came in on, for absolute links
+ * Empty when the Host header is missing (links are then relative)
+ */
+function getApiBaseUrl(event: APIGatewayProxyEvent): string {
+  const host = event.headers?.Host || event.headers?.host;
+  const stage = event.requestContext?.stage;
+  return host ? `https://${host}${stage ? `/${stage}` : ''}` : '';
+}
+
 /**
  * Get a specific image (redirect to presigned S3 URL)
  * GET /api/images/{imageId}
@@ -223,9 +539,22 @@ async function listImages(userId: string, isAdminUser: boolean): Promise<APIGate
  * Instead of streaming the image through Lambda (expensive and slow),
  * we generate a presigned URL that allows direct download from S3.
  * 
+ * ?size=thumb|preview returns a generated rendition. ?size=display returns the
+ * full-size WebP made for HEIC/HEIF/AVIF originals. Renditions are created during
+ * analysis, so until then (or if generation failed, or the original needs no
+ * display rendition) the original is returned.
+ * 
+ * ?version=N returns the file of an earlier (or the current) version.
+ * 
  * Users can only access their own images unless they are admin.
  */
-async function getImage(imageId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+async function getImage(
+  imageId: string,
+  userId: string,
+  isAdminUser: boolean,
+  size: ImageSize,
+  version?: number
+): Promise<APIGatewayProxyResult> {
   console.log(JSON.stringify({
     level: 'info',
     message: 'Getting image',
@@ -233,6 +562,8 @@ async function getImage(imageId: string, userId: string, isAdminUser: boolean):
     imageId,
     userId,
     isAdmin: isAdminUser,
+    size,
+    ...(version !== undefined && { version }),
   }));
 
   // First, get the image metadata to find the S3 key
@@ -243,7 +574,8 @@ async function getImage(imageId: string, userId: string, isAdminUser: boolean):
 
   const image = result.Item as ImageMetadata | undefined;
 
-  if (!image) {
+  // Images in the trash are only shown by the trash listing
+  if (!image || image.trashedAt) {
     return errorResponse(404, 'Image not found');
   }
 
@@ -252,10 +584,24 @@ async function getImage(imageId: string, userId: string, isAdminUser: boolean):
     return errorResponse(403, 'Access denied - you can only access your own images');
   }
 
+  let s3Key = image.s3Key;
+  if (version !== undefined && version !== (image.version ?? 1)) {
+    const previous = image.versions?.find((entry) => entry.version === version);
+    if (!previous) {
+      return errorResponse(404, 'Version not found');
+    }
+    s3Key = previous.s3Key;
+  }
+
+  const renditionKey = size === 'thumb' ? image.thumbnailKey
+    : size === 'preview' ? image.previewKey
+    : size === 'display' ? image.displayKey
+    : undefined;
+
   // Generate a presigned URL for S3 (valid for 1 hour)
   const command = new GetObjectCommand({
     Bucket: BUCKET_NAME,
-    Key: image.s3Key,
+    Key: renditionKey || s3Key,
   });
 
   const presignedUrl = await getSignedUrl(s3Client, command, {
@@ -278,9 +624,18 @@ async function getImage(imageId: string, userId: string, isAdminUser: boolean):
  * Get image metadata
  * GET /api/images/{imageId}/info
  * 
+ * GET /api/images/{imageId}/details - the same, with everything ?include= can add
+ * 
+ * versions lists every version of the file, oldest first, including the current one.
+ * 
  * Users can only access their own images unless they are admin.
  */
-async function getImageInfo(imageId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+async function getImageInfo(
+  imageId: string,
+  userId: string,
+  isAdminUser: boolean,
+  includes: ImageInclude[]
+): Promise<APIGatewayProxyResult> {
   console.log(JSON.stringify({
     level: 'info',
     message: 'Getting image info',
@@ -288,6 +643,7 @@ async function getImageInfo(imageId: string, userId: string, isAdminUser: boolea
     imageId,
     userId,
     isAdmin: isAdminUser,
+    includes,
   }));
 
   const result = await docClient.send(new GetCommand({
@@ -297,7 +653,8 @@ async function getImageInfo(imageId: string, userId: string, isAdminUser: boolea
 
   const image = result.Item as ImageMetadata | undefined;
 
-  if (!image) {
+  // Images in the trash are only shown by the trash listing
+  if (!image || image.trashedAt) {
     return errorResponse(404, 'Image not found');
   }
 
@@ -306,8 +663,26 @@ async function getImageInfo(imageId: string, userId: string, isAdminUser: boolea
     return errorResponse(403, 'Access denied - you can only access your own images');
   }
 
-  // Transform to match original API response format
-  const responseData = {
+  const extras = await getImageExtras([image], includes);
+  const responseData = { ...toImageInfo(image), ...extras.get(imageId) };
+
+  const response: ApiResponse<typeof responseData> = {
+    success: true,
+    data: responseData,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Image as returned by /info and PATCH (matches the original API response format)
+ */
+function toImageInfo(image: ImageMetadata) {
+  return {
     id: image.imageId,
     userId: image.userId,
     filename: image.filename,
@@ -320,11 +695,150 @@ async function getImageInfo(imageId: string, userId: string, isAdminUser: boolea
     ...(image.latitude !== undefined && { latitude: image.latitude }),
     ...(image.longitude !== undefined && { longitude: image.longitude }),
     ...(image.creationDate && { creationDate: image.creationDate }),
+    ...(image.title && { title: image.title }),
+    ...(image.caption && { caption: image.caption }),
+    ...(image.tags && { tags: image.tags }),
+    ...(image.width !== undefined && { width: image.width }),
+    ...(image.height !== undefined && { height: image.height }),
+    ...(image.orientation !== undefined && { orientation: image.orientation }),
+    ...(image.cameraMake && { cameraMake: image.cameraMake }),
+    ...(image.cameraModel && { cameraModel: image.cameraModel }),
+    ...(image.thumbnailKey && { thumbnailPath: `/api/images/${image.imageId}?size=thumb` }),
+    ...(image.previewKey && { previewPath: `/api/images/${image.imageId}?size=preview` }),
+    ...(image.displayKey && { displayPath: `/api/images/${image.imageId}?size=display` }),
+    ...(image.contentHash && { contentHash: image.contentHash }),
+    ...(image.duplicateOf && { duplicateOf: image.duplicateOf }),
+    ...(image.sourceUrl && { sourceUrl: image.sourceUrl }),
+    version: image.version ?? 1,
+    ...(image.replacedAt && { replacedAt: image.replacedAt }),
+    versions: getVersionHistory(image),
   };
+}
 
-  const response: ApiResponse<typeof responseData> = {
+/**
+ * Version history of an image, oldest first, ending with the current version
+ */
+function getVersionHistory(image: ImageMetadata): Array<Omit<ImageVersion, 'filename' | 's3Key' | 'contentHash'> & { path: string }> {
+  const current: ImageVersion = {
+    version: image.version ?? 1,
+    filename: image.filename,
+    originalName: image.originalName,
+    mimetype: image.mimetype,
+    size: image.size,
+    s3Key: image.s3Key,
+    uploadedAt: image.replacedAt ?? image.uploadedAt,
+  };
+
+  return [...(image.versions ?? []), current].map((entry) => ({
+    version: entry.version,
+    originalName: entry.originalName,
+    mimetype: entry.mimetype,
+    size: entry.size,
+    uploadedAt: entry.uploadedAt,
+    path: `/api/images/${image.imageId}?version=${entry.version}`,
+  }));
+}
+
+/**
+ * Edit an image's metadata
+ * PATCH /api/images/{imageId}
+ * 
+ * Only the fields in the body change. title, caption, tags, the location and
+ * creationDate can be cleared with null. Values set here are kept by analysis -
+ * EXIF location and date only fill in fields that are empty.
+ * 
+ * Users can only edit their own images unless they are admin.
+ */
+async function updateImageMetadata(
+  imageId: string,
+  body: string | null,
+  userId: string,
+  isAdminUser: boolean
+): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const update = parseImageMetadataUpdate(request);
+  if (typeof update === 'string') {
+    return errorResponse(400, update);
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Updating image metadata',
+    action: 'update_image_metadata',
+    imageId,
+    userId,
+    isAdmin: isAdminUser,
+    fields: Object.keys(update),
+  }));
+
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
+
+  const image = result.Item as ImageMetadata | undefined;
+
+  if (!image || image.trashedAt) {
+    return errorResponse(404, 'Image not found');
+  }
+
+  // Check ownership (unless admin)
+  if (!isAdminUser && image.userId && image.userId !== userId) {
+    return errorResponse(403, 'Access denied - you can only edit your own images');
+  }
+
+  // null clears a field
+  const setExpressions: string[] = [];
+  const removeExpressions: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(update) as Array<[keyof UpdateImageMetadataRequest, unknown]>) {
+    if (value === null) {
+      removeExpressions.push(field);
+    } else {
+      setExpressions.push(`${field} = :${field}`);
+      values[`:${field}`] = value;
+    }
+  }
+
+  // latitude and longitude always come as a pair - the geohash follows them
+  if (update.latitude === null) {
+    removeExpressions.push('geohash');
+  } else if (update.latitude !== undefined && update.longitude !== undefined && update.longitude !== null) {
+    setExpressions.push('geohash = :geohash');
+    values[':geohash'] = encodeGeohash(update.latitude, update.longitude);
+  }
+
+  let updatedImage: ImageMetadata;
+  try {
+    const updateResult = await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      UpdateExpression: [
+        ...(setExpressions.length > 0 ? [`SET ${setExpressions.join(', ')}`] : []),
+        ...(removeExpressions.length > 0 ? [`REMOVE ${removeExpressions.join(', ')}`] : []),
+      ].join(' '),
+      // Don't recreate a deleted image, or edit one trashed meanwhile
+      ConditionExpression: 'attribute_exists(imageId) AND attribute_not_exists(trashedAt)',
+      ...(setExpressions.length > 0 && { ExpressionAttributeValues: values }),
+      ReturnValues: 'ALL_NEW',
+    }));
+    updatedImage = updateResult.Attributes as ImageMetadata;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return errorResponse(404, 'Image not found');
+    }
+    throw error;
+  }
+
+  const response: ApiResponse<ReturnType<typeof toImageInfo>> = {
     success: true,
-    data: responseData,
+    message: 'Image metadata updated',
+    data: toImageInfo(updatedImage),
   };
 
   return {
@@ -335,13 +849,13 @@ async function getImageInfo(imageId: string, userId: string, isAdminUser: boolea
 }
 
 /**
- * Delete an image and all associated data
+ * Move an image to the trash
  * DELETE /api/images/{imageId}
  * 
- * This removes:
- * - The image file from S3
- * - Image metadata from DynamoDB
- * - Any AI analysis results from DynamoDB
+ * The image is hidden from listings, search, albums and share links, but
+ * nothing is deleted until it is purged (see utils/trash) - it can be restored
+ * from the trash until then. Pending uploads have nothing to restore and are
+ * deleted at once.
  * 
  * Users can only delete their own images unless they are admin.
  */
@@ -355,7 +869,7 @@ async function deleteImage(imageId: string, userId: string, isAdminUser: boolean
     isAdmin: isAdminUser,
   }));
 
-  // First, get the image metadata to find the S3 key and verify ownership
+  // First, get the image metadata to verify ownership
   const result = await docClient.send(new GetCommand({
     TableName: IMAGES_TABLE,
     Key: { imageId },
@@ -363,7 +877,7 @@ async function deleteImage(imageId: string, userId: string, isAdminUser: boolean
 
   const image = result.Item as ImageMetadata | undefined;
 
-  if (!image) {
+  if (!image || image.trashedAt) {
     return errorResponse(404, 'Image not found');
   }
 
@@ -373,50 +887,32 @@ async function deleteImage(imageId: string, userId: string, isAdminUser: boolean
   }
 
   try {
-    // Step 1: Delete the image file from S3
-    await s3Client.send(new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: image.s3Key,
-    }));
-
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Image deleted from S3',
-      action: 'delete_s3',
-      imageId,
-      s3Key: image.s3Key,
-    }));
-
-    // Step 2: Delete image metadata from DynamoDB
-    await docClient.send(new DeleteCommand({
-      TableName: IMAGES_TABLE,
-      Key: { imageId },
-    }));
-
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Image metadata deleted from DynamoDB',
-      action: 'delete_metadata',
-      imageId,
-    }));
-
-    // Step 3: Delete analysis data from DynamoDB (if exists)
-    // We don't check if it exists first - just attempt to delete
-    await docClient.send(new DeleteCommand({
-      TableName: ANALYSIS_TABLE,
-      Key: { imageId },
-    }));
+    if (image.status === 'pending') {
+      if (!(await purgeImage(image))) {
+        return errorResponse(409, 'Upload finished meanwhile - delete the image again'); // Or deleted meanwhile
+      }
+
+      const response: ApiResponse<null> = {
+        success: true,
+        message: 'Upload deleted',
+      };
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders(),
+        body: JSON.stringify(response),
+      };
+    }
 
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Analysis data deleted from DynamoDB',
-      action: 'delete_analysis',
-      imageId,
-    }));
+    const trashedAt = await trashImage(image);
+    if (!trashedAt) {
+      return errorResponse(404, 'Image not found'); // Deleted or trashed meanwhile
+    }
 
-    const response: ApiResponse<null> = {
+    const response: ApiResponse<{ id: string; trashedAt: string; purgeAt: string }> = {
       success: true,
-      message: 'Image and all associated data deleted successfully',
+      message: 'Image moved to trash',
+      data: { id: imageId, trashedAt, purgeAt: getPurgeAt(trashedAt) },
     };
 
     return {
@@ -445,26 +941,57 @@ async function deleteImage(imageId: string, userId: string, isAdminUser: boolean
  * Regular users see only their analysis results.
  * Admin users can see all analysis or filter by userId query param.
  */
-async function listAnalysis(userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+async function listAnalysis(
+  userId: string | undefined,
+  isAdminUser: boolean,
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
   console.log(JSON.stringify({
     level: 'info',
     message: 'Listing analysis results',
     action: 'list_analysis',
     userId,
     isAdmin: isAdminUser,
+    limit,
   }));
 
-  let analyses: ImageAnalysis[] = [];
+  let analyses: ImageAnalysis[];
+  let nextCursor: string | null = null;
 
-  if (isAdminUser && !userId) {
-    // Admin without filter - scan all analysis results
-    const result = await docClient.send(new ScanCommand({
-      TableName: ANALYSIS_TABLE,
-    }));
-    analyses = result.Items as ImageAnalysis[] || [];
+  if (!userId) {
+    // Admin without filter - merge the status partitions of the status-createdAt-index
+    // (every analysis has createdAt, so analyses in progress are listed too)
+    const keyAttributes = ['imageId', 'status', 'createdAt'];
+    const startKeys = cursor ? decodeMergedCursor(cursor, LISTED_ANALYSIS_STATUSES, keyAttributes) : {};
+    if (!startKeys) {
+      return errorResponse(400, 'Invalid cursor');
+    }
+
+    const page = await mergedQueryPage<ImageAnalysis & Record<string, unknown>>(
+      Object.fromEntries(LISTED_ANALYSIS_STATUSES.map((status) => [status, {
+        TableName: ANALYSIS_TABLE,
+        IndexName: 'status-createdAt-index',
+        KeyConditionExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status },
+        ScanIndexForward: false, // Descending order (newest first)
+      }])),
+      keyAttributes,
+      (a, b) => b.createdAt.localeCompare(a.createdAt),
+      limit,
+      startKeys
+    );
+    analyses = page.items;
+    nextCursor = page.nextKey ? encodeCursor(page.nextKey) : null;
   } else {
+    const startKey = cursor ? decodeCursor(cursor, ['imageId', 'userId', 'analyzedAt']) : undefined;
+    if (startKey === null || (startKey && startKey.userId !== userId)) {
+      return errorResponse(400, 'Invalid cursor');
+    }
+
     // Query by userId using GSI
-    const result = await docClient.send(new QueryCommand({
+    const page: Page<ImageAnalysis> = await queryPage({
       TableName: ANALYSIS_TABLE,
       IndexName: 'userId-analyzedAt-index',
       KeyConditionExpression: 'userId = :userId',
@@ -472,22 +999,20 @@ async function listAnalysis(userId: string, isAdminUser: boolean): Promise<APIGa
         ':userId': userId,
       },
       ScanIndexForward: false, // Descending order (newest first)
-    }));
-    analyses = result.Items as ImageAnalysis[] || [];
+    }, limit, startKey);
+    analyses = page.items;
+    nextCursor = page.nextKey ? encodeCursor(page.nextKey) : null;
   }
 
-  // For scan results (admin all), sort by analyzedAt descending
-  if (isAdminUser && !userId) {
-    analyses.sort((a, b) => {
-      const dateA = a.analyzedAt ? new Date(a.analyzedAt).getTime() : 0;
-      const dateB = b.analyzedAt ? new Date(b.analyzedAt).getTime() : 0;
-      return dateB - dateA;
-    });
-  }
+  // Analyses of images in the trash are hidden until they are restored (a page may come back short)
+  const images = analyses.length > 0
+    ? await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, analyses.map((analysis) => analysis.imageId))
+    : new Map<string, ImageMetadata>();
 
   const response: ApiResponse<ImageAnalysis[]> = {
     success: true,
-    data: analyses,
+    data: analyses.filter((analysis) => !images.get(analysis.imageId)?.trashedAt),
+    nextCursor,
   };
 
   return {
@@ -513,14 +1038,22 @@ async function getAnalysis(imageId: string, userId: string, isAdminUser: boolean
     isAdmin: isAdminUser,
   }));
 
-  const result = await docClient.send(new GetCommand({
-    TableName: ANALYSIS_TABLE,
-    Key: { imageId },
-  }));
+  const [result, imageResult] = await Promise.all([
+    docClient.send(new GetCommand({
+      TableName: ANALYSIS_TABLE,
+      Key: { imageId },
+    })),
+    docClient.send(new GetCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+    })),
+  ]);
 
   const analysis = result.Item as ImageAnalysis | undefined;
+  const image = imageResult.Item as ImageMetadata | undefined;
 
-  if (!analysis) {
+  // The analysis of an image in the trash is hidden until it is restored
+  if (!analysis || image?.trashedAt) {
     return errorResponse(404, 'Analysis not found');
   }
 
@@ -541,6 +1074,111 @@ async function getAnalysis(imageId: string, userId: string, isAdminUser: boolean
   };
 }
 
+/**
+ * Search a user's analysis results
+ * GET /api/search?q=
+ * 
+ * Matches stemmed words of the description, keywords and detected text
+ * (see utils/search-index), best match first. Pending and trashed images, and
+ * analyses that were deleted since they were indexed, are left out.
+ */
+async function searchImages(
+  userId: string,
+  q: string,
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Searching images',
+    action: 'search_images',
+    userId,
+    q,
+    limit,
+  }));
+
+  const terms = getSearchTerms(q);
+  if (terms.length === 0) {
+    return errorResponse(400, 'q has no searchable words');
+  }
+
+  // Results are ranked in memory, so the cursor is a position in the ranking
+  const position = cursor ? decodeCursor(cursor, ['offset']) : { offset: 0 };
+  if (!position || !Number.isInteger(position.offset) || (position.offset as number) < 0) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+  const offset = position.offset as number;
+
+  const hits = await searchIndex(userId, terms);
+  const pageHits = hits.slice(offset, offset + limit);
+
+  const [images, analyses] = pageHits.length > 0
+    ? await Promise.all([
+      batchGetByImageId<ImageMetadata>(IMAGES_TABLE, pageHits.map((hit) => hit.imageId)),
+      batchGetByImageId<ImageAnalysis>(ANALYSIS_TABLE, pageHits.map((hit) => hit.imageId)),
+    ])
+    : [new Map<string, ImageMetadata>(), new Map<string, ImageAnalysis>()];
+
+  const results: SearchResultData[] = [];
+  for (const { imageId, score } of pageHits) {
+    const image = images.get(imageId);
+    const analysis = analyses.get(imageId);
+    if (!image || !analysis || image.status === 'pending' || image.trashedAt || image.userId !== userId) {
+      continue;
+    }
+
+    const keywordHighlights = analysis.keywords
+      .map((keyword) => highlight(keyword, terms))
+      .filter((text): text is string => text !== undefined);
+    const detectedTextHighlights = analysis.detectedText
+      .map((text) => highlight(text, terms))
+      .filter((text): text is string => text !== undefined);
+    const descriptionHighlight = highlight(analysis.description, terms, SEARCH_SNIPPET_LENGTH);
+
+    results.push({
+      id: imageId,
+      score,
+      originalName: image.originalName,
+      ...(image.title && { title: image.title }),
+      uploadedAt: image.uploadedAt,
+      path: `/api/images/${imageId}`,
+      ...(image.thumbnailKey && { thumbnailPath: `/api/images/${imageId}?size=thumb` }),
+      description: analysis.description,
+      keywords: analysis.keywords,
+      detectedText: analysis.detectedText,
+      highlights: {
+        ...(descriptionHighlight && { description: descriptionHighlight }),
+        ...(keywordHighlights.length > 0 && { keywords: keywordHighlights }),
+        ...(detectedTextHighlights.length > 0 && { detectedText: detectedTextHighlights }),
+      },
+    });
+  }
+
+  const response: ApiResponse<SearchResultData[]> = {
+    success: true,
+    data: results,
+    nextCursor: offset + limit < hits.length ? encodeCursor({ offset: offset + limit }) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Create error response
  */
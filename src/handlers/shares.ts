@@ -0,0 +1,610 @@
+/**
+ * Shares Lambda Handler
+ *
+ * Share links let people without an account view one image (with its
+ * analysis) or an album. A link expires, can need a password and can be
+ * limited to a number of views.
+ *
+ * Routes:
+ * - GET /api/shares - List your active share links, newest first (?limit=&cursor= pagination)
+ * - POST /api/shares - Create a share link for an image or album
+ * - DELETE /api/shares/{shareId} - Revoke a share link
+ * - GET /api/shared/{token} - View what a link shares (PUBLIC - no token needed)
+ *
+ * Users can only share their own images and albums, and only list and revoke
+ * their own links, unless they are admin. The public route returns presigned
+ * URLs and never the owner's ID or file names.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  Share,
+  ShareResponseData,
+  ImageMetadata,
+  ImageAnalysis,
+  ImageUrls,
+  Album,
+  AlbumImage,
+  IMAGE_URL_EXPIRY_SECONDS,
+  DEFAULT_SHARE_EXPIRY_HOURS,
+  MAX_SHARE_EXPIRY_HOURS,
+  MIN_SHARE_PASSWORD_LENGTH,
+  MAX_SHARE_PASSWORD_LENGTH,
+  MAX_SHARE_VIEWS,
+} from '../types';
+import { extractUserClaims, isAdmin } from './auth';
+import { createShareToken, hashSharePassword, verifySharePassword } from '../utils/shares';
+import { getImageUrls, batchGetByImageId } from '../utils/image-response';
+import { parsePageParams, encodeCursor, decodeCursor, queryPage } from '../utils/pagination';
+
+// Initialize AWS SDK clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
+const ALBUMS_TABLE = process.env.ALBUMS_TABLE!;
+const ALBUM_IMAGES_TABLE = process.env.ALBUM_IMAGES_TABLE!;
+const SHARES_TABLE = process.env.SHARES_TABLE!;
+
+// Header carrying the password of a protected link
+const PASSWORD_HEADER = 'x-share-password';
+
+/**
+ * Lambda Handler
+ * Routes requests based on path and method
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { path, httpMethod, pathParameters, queryStringParameters } = event;
+
+  // Public route - the token is the credential, so keep it out of the logs
+  if (path.match(/^\/api\/shared\/[^/]+$/) && httpMethod === 'GET') {
+    try {
+      const token = pathParameters?.token;
+      if (!token) return errorResponse(400, 'Share token required');
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      return viewShare(token, getHeader(event, PASSWORD_HEADER), page.limit, page.cursor);
+    } catch (error) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Shared view failed',
+        action: 'view_share_error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+
+      return errorResponse(500, 'Internal server error');
+    }
+  }
+
+  const claims = extractUserClaims(event);
+  const userId = claims?.sub;
+  const userIsAdmin = claims ? isAdmin(claims) : false;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Shares request received',
+    action: 'shares_start',
+    path,
+    httpMethod,
+    userId,
+    isAdmin: userIsAdmin,
+  }));
+
+  try {
+    if (!claims || !userId) {
+      return errorResponse(401, 'Unauthorized - valid token required');
+    }
+
+    // List share links (own links, or another user's for admins)
+    if (path === '/api/shares' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const targetUserId = userIsAdmin ? queryStringParameters?.userId || userId : userId;
+      return listShares(targetUserId, page.limit, page.cursor, getApiBaseUrl(event));
+    }
+
+    // Create share link
+    if (path === '/api/shares' && httpMethod === 'POST') {
+      return createShare(event.body, userId, getApiBaseUrl(event));
+    }
+
+    // Revoke share link
+    if (path.match(/^\/api\/shares\/[^/]+$/) && httpMethod === 'DELETE') {
+      const shareId = pathParameters?.shareId;
+      if (!shareId) return errorResponse(400, 'Share ID required');
+      return revokeShare(shareId, userId, userIsAdmin);
+    }
+
+    // Route not found
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Shares request failed',
+      action: 'shares_error',
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+/**
+ * List a user's active share links, newest first
+ * GET /api/shares
+ *
+ * Expired links are left out. Admins see their own links unless they pass ?userId=.
+ */
+async function listShares(
+  userId: string,
+  limit: number,
+  cursor: string | undefined,
+  baseUrl: string
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Listing shares',
+    action: 'list_shares',
+    userId,
+    limit,
+  }));
+
+  const startKey = cursor ? decodeCursor(cursor, ['shareId', 'userId', 'createdAt']) : undefined;
+  if (startKey === null || (startKey && startKey.userId !== userId)) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+
+  const page = await queryPage<Share>({
+    TableName: SHARES_TABLE,
+    IndexName: 'userId-createdAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    FilterExpression: 'expiresAt > :now', // TTL deletion can lag behind expiry
+    ExpressionAttributeValues: {
+      ':userId': userId,
+      ':now': Math.floor(Date.now() / 1000),
+    },
+    ScanIndexForward: false, // Descending order (newest first)
+  }, limit, startKey);
+
+  const response: ApiResponse<ShareResponseData[]> = {
+    success: true,
+    data: page.items.map((share) => toShareResponse(share, baseUrl)),
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Create a share link
+ * POST /api/shares
+ *
+ * Body: { imageId | albumId, expiresInHours?, password?, maxViews? }.
+ * Only the owner can share an image or album - admins too.
+ */
+async function createShare(body: string | null, userId: string, baseUrl: string): Promise<APIGatewayProxyResult> {
+  const request = parseBody<Record<string, unknown>>(body);
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return errorResponse(400, 'Request body must be a JSON object');
+  }
+
+  const allowed = ['imageId', 'albumId', 'expiresInHours', 'password', 'maxViews'];
+  const unknownField = Object.keys(request).find((field) => !allowed.includes(field));
+  if (unknownField) {
+    return errorResponse(400, `Unknown field: ${unknownField}. Allowed: ${allowed.join(', ')}`);
+  }
+
+  const { imageId, albumId, expiresInHours = DEFAULT_SHARE_EXPIRY_HOURS, password, maxViews } = request;
+  if ((imageId === undefined) === (albumId === undefined)) {
+    return errorResponse(400, 'Provide either imageId or albumId');
+  }
+  const targetId = imageId ?? albumId;
+  if (typeof targetId !== 'string' || !targetId) {
+    return errorResponse(400, `${imageId !== undefined ? 'imageId' : 'albumId'} must be a non-empty string`);
+  }
+  if (typeof expiresInHours !== 'number' || !Number.isInteger(expiresInHours) ||
+      expiresInHours < 1 || expiresInHours > MAX_SHARE_EXPIRY_HOURS) {
+    return errorResponse(400, `expiresInHours must be an integer from 1 to ${MAX_SHARE_EXPIRY_HOURS}`);
+  }
+  if (password !== undefined && (typeof password !== 'string' ||
+      password.length < MIN_SHARE_PASSWORD_LENGTH || password.length > MAX_SHARE_PASSWORD_LENGTH)) {
+    return errorResponse(400,
+      `password must be a string of ${MIN_SHARE_PASSWORD_LENGTH} to ${MAX_SHARE_PASSWORD_LENGTH} characters`);
+  }
+  if (maxViews !== undefined && (typeof maxViews !== 'number' || !Number.isInteger(maxViews) ||
+      maxViews < 1 || maxViews > MAX_SHARE_VIEWS)) {
+    return errorResponse(400, `maxViews must be an integer from 1 to ${MAX_SHARE_VIEWS}`);
+  }
+
+  const targetType: Share['targetType'] = imageId !== undefined ? 'image' : 'album';
+  const target = await docClient.send(new GetCommand({
+    TableName: targetType === 'image' ? IMAGES_TABLE : ALBUMS_TABLE,
+    Key: targetType === 'image' ? { imageId: targetId } : { albumId: targetId },
+  }));
+  const item = target.Item as (ImageMetadata | Album) | undefined;
+
+  const image = targetType === 'image' ? item as ImageMetadata | undefined : undefined;
+  if (!item || (image && (image.status === 'pending' || image.trashedAt))) {
+    return errorResponse(404, targetType === 'image' ? 'Image not found' : 'Album not found');
+  }
+  if (item.userId !== userId) {
+    return errorResponse(403, `Access denied - you can only share your own ${targetType}s`);
+  }
+
+  const share: Share = {
+    shareId: createShareToken(),
+    userId,
+    targetType,
+    targetId,
+    createdAt: new Date().toISOString(),
+    expiresAt: Math.floor(Date.now() / 1000) + expiresInHours * 60 * 60,
+    ...(password !== undefined && hashSharePassword(password as string)),
+    ...(maxViews !== undefined && { maxViews: maxViews as number }),
+    viewCount: 0,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: SHARES_TABLE,
+    Item: share,
+    ConditionExpression: 'attribute_not_exists(shareId)',
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Share created',
+    action: 'create_share',
+    userId,
+    targetType,
+    targetId,
+    expiresInHours,
+    passwordProtected: password !== undefined,
+    maxViews,
+  }));
+
+  const response: ApiResponse<ShareResponseData> = {
+    success: true,
+    message: 'Share link created',
+    data: toShareResponse(share, baseUrl),
+  };
+
+  return {
+    statusCode: 201,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Revoke a share link - it stops working at once
+ * DELETE /api/shares/{shareId}
+ */
+async function revokeShare(shareId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: SHARES_TABLE,
+    Key: { shareId },
+  }));
+
+  const share = result.Item as Share | undefined;
+
+  if (!share) {
+    return errorResponse(404, 'Share not found');
+  }
+
+  if (!isAdminUser && share.userId !== userId) {
+    return errorResponse(403, 'Access denied - you can only revoke your own shares');
+  }
+
+  await docClient.send(new DeleteCommand({
+    TableName: SHARES_TABLE,
+    Key: { shareId },
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Share revoked',
+    action: 'revoke_share',
+    userId,
+    isAdmin: isAdminUser,
+    targetType: share.targetType,
+    targetId: share.targetId,
+  }));
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: 'Share link revoked',
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * View what a share link shares
+ * GET /api/shared/{token} (PUBLIC)
+ *
+ * An image comes with its analysis and presigned URLs; an album with a page of
+ * its images (?limit=&cursor=). A protected link needs its password in the
+ * X-Share-Password header. Each view counts once - for an album, its first page.
+ * Later pages are only served while the link has views left.
+ */
+async function viewShare(
+  token: string,
+  password: string | undefined,
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: SHARES_TABLE,
+    Key: { shareId: token },
+  }));
+
+  const share = result.Item as Share | undefined;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!share) {
+    return errorResponse(404, 'Share link not found');
+  }
+  if (share.expiresAt <= now) {
+    return errorResponse(410, 'Share link has expired');
+  }
+  if (!verifySharePassword(share, password)) {
+    return errorResponse(401, password ? 'Incorrect password' : 'This share link needs a password');
+  }
+
+  const startKey = cursor ? decodeCursor(cursor, ['albumId', 'imageId', 'addedAt']) : undefined;
+  if (startKey === null || (startKey && (share.targetType !== 'album' || startKey.albumId !== share.targetId))) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+
+  if (startKey) {
+    // Pages after the first aren't counted, and the cursor is not signed - so
+    // without views left, a cursor would open the whole album for free
+    if (share.maxViews !== undefined && share.viewCount >= share.maxViews) {
+      return errorResponse(410, 'Share link has expired');
+    }
+  } else {
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: SHARES_TABLE,
+        Key: { shareId: token },
+        UpdateExpression: 'SET lastViewedAt = :viewedAt ADD viewCount :one',
+        // Revoked, expired or used up meanwhile
+        ConditionExpression: 'attribute_exists(shareId) AND expiresAt > :now AND ' +
+          '(attribute_not_exists(maxViews) OR viewCount < maxViews)',
+        ExpressionAttributeValues: {
+          ':viewedAt': new Date().toISOString(),
+          ':one': 1,
+          ':now': now,
+        },
+      }));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return errorResponse(410, 'Share link has expired');
+      }
+      throw error;
+    }
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Shared view',
+    action: 'view_share',
+    targetType: share.targetType,
+    targetId: share.targetId,
+    viewCount: share.viewCount + (startKey ? 0 : 1),
+  }));
+
+  const urlsExpireAt = new Date(Date.now() + IMAGE_URL_EXPIRY_SECONDS * 1000).toISOString();
+
+  if (share.targetType === 'image') {
+    const imageResult = await docClient.send(new GetCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId: share.targetId },
+    }));
+    // An image in the trash is hidden until it is restored
+    const image = imageResult.Item as ImageMetadata | undefined;
+    if (!image || image.trashedAt) {
+      return errorResponse(404, 'Share link not found');
+    }
+
+    const analysis = await docClient.send(new GetCommand({
+      TableName: ANALYSIS_TABLE,
+      Key: { imageId: share.targetId },
+    }));
+
+    const response: ApiResponse<{ type: 'image'; expiresAt: string; image: ReturnType<typeof toSharedImage> }> = {
+      success: true,
+      data: {
+        type: 'image',
+        expiresAt: new Date(share.expiresAt * 1000).toISOString(),
+        image: toSharedImage(image, await getImageUrls(image, urlsExpireAt), analysis.Item as ImageAnalysis | undefined),
+      },
+    };
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders(),
+      body: JSON.stringify(response),
+    };
+  }
+
+  const albumResult = await docClient.send(new GetCommand({
+    TableName: ALBUMS_TABLE,
+    Key: { albumId: share.targetId },
+  }));
+  const album = albumResult.Item as Album | undefined;
+  if (!album) {
+    return errorResponse(404, 'Share link not found');
+  }
+
+  const page = await queryPage<AlbumImage>({
+    TableName: ALBUM_IMAGES_TABLE,
+    IndexName: 'albumId-addedAt-index',
+    KeyConditionExpression: 'albumId = :albumId',
+    ExpressionAttributeValues: { ':albumId': album.albumId },
+    ScanIndexForward: false, // Descending order (most recently added first)
+  }, limit, startKey);
+
+  const imageIds = page.items.map((item) => item.imageId);
+  const images = imageIds.length > 0
+    ? await batchGetByImageId<ImageMetadata>(IMAGES_TABLE, imageIds)
+    : new Map<string, ImageMetadata>();
+  const analyses = images.size > 0
+    ? await batchGetByImageId<ImageAnalysis>(ANALYSIS_TABLE, [...images.keys()])
+    : new Map<string, ImageAnalysis>();
+
+  const sharedImages: ReturnType<typeof toSharedImage>[] = [];
+  for (const imageId of imageIds) {
+    const image = images.get(imageId);
+    if (image && !image.trashedAt) {
+      sharedImages.push(toSharedImage(image, await getImageUrls(image, urlsExpireAt), analyses.get(imageId)));
+    }
+  }
+
+  const response: ApiResponse<{
+    type: 'album';
+    expiresAt: string;
+    album: { name: string; description?: string; imageCount: number };
+    images: ReturnType<typeof toSharedImage>[];
+  }> = {
+    success: true,
+    data: {
+      type: 'album',
+      expiresAt: new Date(share.expiresAt * 1000).toISOString(),
+      album: {
+        name: album.name,
+        ...(album.description && { description: album.description }),
+        imageCount: album.imageCount,
+      },
+      images: sharedImages,
+    },
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Image as shown to a share link's viewers - no owner, file names or S3 keys
+ */
+function toSharedImage(image: ImageMetadata, urls: ImageUrls, analysis?: ImageAnalysis) {
+  return {
+    id: image.imageId,
+    mimetype: image.mimetype,
+    ...(image.title && { title: image.title }),
+    ...(image.caption && { caption: image.caption }),
+    ...(image.tags && { tags: image.tags }),
+    ...(image.creationDate && { creationDate: image.creationDate }),
+    ...(image.width !== undefined && { width: image.width }),
+    ...(image.height !== undefined && { height: image.height }),
+    urls,
+    analysis: analysis?.status === 'completed'
+      ? {
+        description: analysis.description,
+        keywords: analysis.keywords,
+        detectedText: analysis.detectedText,
+        ...(analysis.analyzedAt && { analyzedAt: analysis.analyzedAt }),
+      }
+      : null,
+  };
+}
+
+/**
+ * Share link as returned to its owner
+ */
+function toShareResponse(share: Share, baseUrl: string): ShareResponseData {
+  return {
+    id: share.shareId,
+    targetType: share.targetType,
+    targetId: share.targetId,
+    url: `${baseUrl}/api/shared/${share.shareId}`,
+    createdAt: share.createdAt,
+    expiresAt: new Date(share.expiresAt * 1000).toISOString(),
+    passwordProtected: !!share.passwordHash,
+    ...(share.maxViews !== undefined && { maxViews: share.maxViews }),
+    viewCount: share.viewCount,
+    ...(share.lastViewedAt && { lastViewedAt: share.lastViewedAt }),
+  };
+}
+
+/**
+ * Public URL of the API stage the request came in on, for absolute links
+ * Empty when the Host header is missing (links are then relative)
+ */
+function getApiBaseUrl(event: APIGatewayProxyEvent): string {
+  const host = event.headers?.Host || event.headers?.host;
+  const stage = event.requestContext?.stage;
+  return host ? `https://${host}${stage ? `/${stage}` : ''}` : '';
+}
+
+/**
+ * Read a request header, whatever its case
+ */
+function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+  const header = Object.keys(event.headers || {}).find((key) => key.toLowerCase() === name);
+  return header ? event.headers[header] : undefined;
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create error response
+ */
+function errorResponse(statusCode: number, message: string): APIGatewayProxyResult {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+
+  return {
+    statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Standard CORS headers
+ */
+function corsHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding,X-Share-Password',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  };
+}
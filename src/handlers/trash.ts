@@ -0,0 +1,409 @@
+/**
+ * Trash Lambda Handler
+ *
+ * Deleted images go to the trash first (see utils/trash). From there they
+ * can be restored, or purged for good; images left in the trash longer than
+ * the retention period are purged by a daily scheduled run.
+ *
+ * Routes:
+ * - GET /api/trash - List images in the trash, most recently deleted first (?include=analysis,urls, ?limit=&cursor=)
+ * - DELETE /api/trash - Empty the trash (up to MAX_TRASH_PURGE_PER_REQUEST images per request)
+ * - POST /api/trash/{imageId}/restore - Restore an image from the trash
+ * - DELETE /api/trash/{imageId} - Purge an image from the trash
+ *
+ * Scheduled:
+ * - purgeExpiredHandler - Purge images trashed more than TRASH_RETENTION_DAYS ago
+ *
+ * Users can only see and change their own trash unless they are admin.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, ScheduledEvent, Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+  QueryCommand,
+  ScanCommand,
+  ScanCommandOutput,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  ApiResponse,
+  ImageMetadata,
+  ImageInclude,
+  MAX_TRASH_PURGE_PER_REQUEST,
+} from '../types';
+import { extractUserClaims, isAdmin } from './auth';
+import { purgeImage, getPurgeAt, getTrashRetentionDays } from '../utils/trash';
+import { toImageSummary, parseIncludes, getImageExtras } from '../utils/image-response';
+import { parsePageParams, encodeCursor, decodeCursor, queryPage } from '../utils/pagination';
+
+// Initialize AWS SDK clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+
+// The scheduled purge stops starting new images when less time than this is left
+const PURGE_TIME_MARGIN_MS = 30 * 1000;
+
+/**
+ * Lambda Handler
+ * Routes requests based on path and method
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const { path, httpMethod, pathParameters, queryStringParameters } = event;
+
+  const claims = extractUserClaims(event);
+  const userId = claims?.sub;
+  const userIsAdmin = claims ? isAdmin(claims) : false;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Trash request received',
+    action: 'trash_start',
+    path,
+    httpMethod,
+    pathParameters,
+    userId,
+    isAdmin: userIsAdmin,
+  }));
+
+  try {
+    if (!claims || !userId) {
+      return errorResponse(401, 'Unauthorized - valid token required');
+    }
+
+    // List trash (own trash, or another user's for admins)
+    if (path === '/api/trash' && httpMethod === 'GET') {
+      const page = parsePageParams(queryStringParameters);
+      if (typeof page === 'string') return errorResponse(400, page);
+      const includes = parseIncludes(queryStringParameters);
+      if (typeof includes === 'string') return errorResponse(400, includes);
+      const targetUserId = userIsAdmin ? queryStringParameters?.userId || userId : userId;
+      return listTrash(targetUserId, includes, page.limit, page.cursor);
+    }
+
+    // Empty trash
+    if (path === '/api/trash' && httpMethod === 'DELETE') {
+      const targetUserId = userIsAdmin ? queryStringParameters?.userId || userId : userId;
+      return emptyTrash(targetUserId);
+    }
+
+    // Restore image
+    if (path.match(/^\/api\/trash\/[^/]+\/restore$/) && httpMethod === 'POST') {
+      const imageId = pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return restoreImage(imageId, userId, userIsAdmin);
+    }
+
+    // Purge image
+    if (path.match(/^\/api\/trash\/[^/]+$/) && httpMethod === 'DELETE') {
+      const imageId = pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return purgeTrashedImage(imageId, userId, userIsAdmin);
+    }
+
+    // Route not found
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Trash request failed',
+      action: 'trash_error',
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+/**
+ * Scheduled Handler
+ * Purges every image trashed more than TRASH_RETENTION_DAYS ago
+ *
+ * Scans the userId-trashedAt-index, which only holds trashed images. Stops
+ * early when the Lambda is about to time out - the next run continues.
+ */
+export async function purgeExpiredHandler(event: ScheduledEvent, context: Context): Promise<void> {
+  const retentionDays = getTrashRetentionDays();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Purging expired trash',
+    action: 'purge_trash_start',
+    scheduledAt: event.time,
+    retentionDays,
+    cutoff,
+  }));
+
+  let purged = 0;
+  let finished = true;
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  scan: do {
+    const result: ScanCommandOutput = await docClient.send(new ScanCommand({
+      TableName: IMAGES_TABLE,
+      IndexName: 'userId-trashedAt-index',
+      FilterExpression: 'trashedAt < :cutoff',
+      ExpressionAttributeValues: { ':cutoff': cutoff },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    for (const image of (result.Items || []) as ImageMetadata[]) {
+      if (context.getRemainingTimeInMillis() < PURGE_TIME_MARGIN_MS) {
+        finished = false;
+        break scan;
+      }
+      if (await purgeImage(image)) {
+        purged++;
+      }
+    }
+
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: finished ? 'Expired trash purged' : 'Expired trash partly purged - the next run continues',
+    action: 'purge_trash_complete',
+    purged,
+    finished,
+  }));
+}
+
+/**
+ * List a user's trash, most recently deleted first
+ * GET /api/trash
+ *
+ * Images are returned like GET /api/images, with trashedAt and purgeAt (when
+ * the image will be purged); ?include= works the same. Admins see their own
+ * trash unless they pass ?userId=.
+ */
+async function listTrash(
+  userId: string,
+  includes: ImageInclude[],
+  limit: number,
+  cursor?: string
+): Promise<APIGatewayProxyResult> {
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Listing trash',
+    action: 'list_trash',
+    userId,
+    limit,
+  }));
+
+  const startKey = cursor ? decodeCursor(cursor, ['imageId', 'userId', 'trashedAt']) : undefined;
+  if (startKey === null || (startKey && startKey.userId !== userId)) {
+    return errorResponse(400, 'Invalid cursor');
+  }
+
+  const page = await queryPage<ImageMetadata>({
+    TableName: IMAGES_TABLE,
+    IndexName: 'userId-trashedAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ScanIndexForward: false, // Descending order (most recently deleted first)
+  }, limit, startKey);
+
+  const extras = await getImageExtras(page.items, includes);
+
+  const responseImages = page.items.map((image) => ({
+    ...toImageSummary(image),
+    trashedAt: image.trashedAt!,
+    purgeAt: getPurgeAt(image.trashedAt!),
+    ...extras.get(image.imageId),
+  }));
+
+  const response: ApiResponse<typeof responseImages> = {
+    success: true,
+    data: responseImages,
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Empty a user's trash
+ * DELETE /api/trash
+ *
+ * Purges up to MAX_TRASH_PURGE_PER_REQUEST images, oldest first; hasMore
+ * tells the client to send the request again.
+ */
+async function emptyTrash(userId: string): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: IMAGES_TABLE,
+    IndexName: 'userId-trashedAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    Limit: MAX_TRASH_PURGE_PER_REQUEST,
+  }));
+
+  const images = (result.Items || []) as ImageMetadata[];
+  let purged = 0;
+  for (const image of images) {
+    if (await purgeImage(image)) {
+      purged++;
+    }
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Trash emptied',
+    action: 'empty_trash',
+    userId,
+    purged,
+    hasMore: !!result.LastEvaluatedKey,
+  }));
+
+  const response: ApiResponse<{ purged: number; hasMore: boolean }> = {
+    success: true,
+    message: `${purged} image(s) permanently deleted`,
+    data: { purged, hasMore: !!result.LastEvaluatedKey },
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Restore an image from the trash
+ * POST /api/trash/{imageId}/restore
+ */
+async function restoreImage(imageId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await getTrashedImage(imageId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  let image: ImageMetadata;
+  try {
+    const updated = await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      UpdateExpression: 'REMOVE trashedAt',
+      ConditionExpression: 'attribute_exists(trashedAt)', // Restored or purged meanwhile
+      ReturnValues: 'ALL_NEW',
+    }));
+    image = updated.Attributes as ImageMetadata;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return errorResponse(404, 'Image is not in the trash');
+    }
+    throw error;
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image restored from trash',
+    action: 'restore_image',
+    imageId,
+    userId,
+    isAdmin: isAdminUser,
+  }));
+
+  const response: ApiResponse<ReturnType<typeof toImageSummary>> = {
+    success: true,
+    message: 'Image restored',
+    data: toImageSummary(image),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Purge an image from the trash - it is deleted for good
+ * DELETE /api/trash/{imageId}
+ */
+async function purgeTrashedImage(imageId: string, userId: string, isAdminUser: boolean): Promise<APIGatewayProxyResult> {
+  const result = await getTrashedImage(imageId, userId, isAdminUser);
+  if ('error' in result) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  if (!(await purgeImage(result.image))) {
+    return errorResponse(404, 'Image is not in the trash'); // Restored or purged meanwhile
+  }
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: 'Image and all associated data deleted successfully',
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Read an image in the trash and check ownership (unless admin)
+ */
+async function getTrashedImage(
+  imageId: string,
+  userId: string,
+  isAdminUser: boolean
+): Promise<{ image: ImageMetadata } | { statusCode: number; error: string }> {
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
+
+  const image = result.Item as ImageMetadata | undefined;
+
+  if (!image || !image.trashedAt) {
+    return { statusCode: 404, error: 'Image is not in the trash' };
+  }
+
+  if (!isAdminUser && image.userId !== userId) {
+    return { statusCode: 403, error: 'Access denied - you can only access your own images' };
+  }
+
+  return { image };
+}
+
+/**
+ * Create error response
+ */
+function errorResponse(statusCode: number, message: string): APIGatewayProxyResult {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: message,
+  };
+
+  return {
+    statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Standard CORS headers
+ */
+function corsHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+  };
+}
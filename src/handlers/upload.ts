@@ -4,11 +4,34 @@
  * This is the AWS Lambda equivalent of the Express upload controller.
  * 
  * What it does:
- * 1. Receives image upload via API Gateway (multipart/form-data)
- * 2. Validates file type and size
- * 3. Saves image to S3
- * 4. Saves metadata to DynamoDB
- * 5. Sends message to SQS for analysis processing
+ * 1. Receives image upload via API Gateway (multipart/form-data), or fetches it from a URL
+ * 2. Validates file size and type (detected from the file signature, not the client's Content-Type)
+ * 3. Returns the existing image if the same content was already uploaded (unless allowDuplicate is set)
+ * 4. Reserves storage quota (image count + bytes)
+ * 5. Saves image to S3
+ * 6. Saves metadata to DynamoDB
+ * 7. Sends message to SQS for analysis processing
+ * 
+ * Routes:
+ * - POST /api/upload - Upload an image through the Lambda (multipart/form-data)
+ * - POST /api/upload/batch - Upload several images in one multipart/form-data request
+ * - POST /api/upload/url - Fetch an image from a public URL and store it
+ * - POST /api/upload/presigned - Get a presigned S3 POST for a direct-to-S3 upload
+ * - POST /api/upload/presigned/{imageId}/complete - Verify a direct upload and queue it for analysis
+ * - POST /api/upload/multipart - Start an S3 multipart upload for images larger than MAX_FILE_SIZE
+ * - POST /api/upload/multipart/{imageId}/parts - Get presigned URLs for parts
+ * - POST /api/upload/multipart/{imageId}/complete - Assemble the parts and queue for analysis
+ * - DELETE /api/upload/multipart/{imageId} - Abort a multipart upload
+ * - PUT /api/images/{imageId} - Replace an image's file (the old file is kept as a version)
+ * - POST /api/images/{imageId}/versions/{version}/restore - Make an earlier version current again
+ * 
+ * POST /api/upload, /api/upload/batch, /api/upload/url and PUT /api/images/{imageId}
+ * accept an Idempotency-Key header:
+ * a retried request with the same key gets the original response back
+ * instead of storing the images again.
+ * 
+ * Large files should use the presigned flow: the image goes straight to S3,
+ * so it never hits API Gateway's payload limit or costs Lambda time.
  * 
  * Key differences from Express version:
  * - No multer middleware - we parse multipart data manually
@@ -17,281 +40,1913 @@
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { createPresignedPost } from '@aws-sdk/s3-presigned-post';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
-import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
 import {
   ImageMetadata,
-  ImageUploadMessage,
   ApiResponse,
   UploadResponseData,
+  BatchUploadResult,
+  BatchUploadResponseData,
+  AllowedMimeType,
+  QuotaTier,
+  PresignedUploadRequest,
+  PresignedUploadResponseData,
+  MultipartUploadRequest,
+  MultipartUploadResponseData,
+  SignMultipartPartsRequest,
+  CompleteMultipartUploadRequest,
+  UrlUploadRequest,
+  ImageVersion,
   ALLOWED_MIME_TYPES,
   MAX_FILE_SIZE,
+  MAX_BATCH_FILES,
+  MAX_IMAGE_VERSIONS,
   MIME_TO_EXTENSION,
+  PRESIGNED_UPLOAD_EXPIRY_SECONDS,
+  PENDING_UPLOAD_TTL_SECONDS,
+  MULTIPART_PART_SIZE,
+  MAX_MULTIPART_PARTS,
 } from '../types';
-import { extractUserClaims } from './auth';
+import { extractUserClaims, getQuotaTier } from './auth';
+import { getUserLimits, checkQuota, reserveQuota, releaseQuota } from '../utils/user-limits';
+import { hashContent, findImagesByContentHash } from '../utils/content-hash';
+import {
+  isValidIdempotencyKey,
+  claimIdempotencyKey,
+  saveIdempotentResponse,
+  releaseIdempotencyKey,
+} from '../utils/idempotency';
+import { detectImageType, findPolyglotMarker, POLYGLOT_SCAN_BYTES } from '../utils/image-type';
+import { fetchRemoteImage } from '../utils/remote-image';
+import { getVersionKey, deleteImageObjects } from '../utils/image-objects';
+import { parseLatitude, parseLongitude, parseCreationDate } from '../utils/image-fields';
+import { encodeGeohash } from '../utils/geohash';
+import { enqueueAnalysis } from '../utils/analysis-queue';
 
 // Initialize AWS SDK clients
 // These are created once when Lambda starts (cold start) and reused for subsequent invocations (warm starts)
 const s3Client = new S3Client({});
 const dynamoClient = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
-const sqsClient = new SQSClient({});
 
-// Environment variables (set in CDK stack)
-const BUCKET_NAME = process.env.BUCKET_NAME!;
-const IMAGES_TABLE = process.env.IMAGES_TABLE!;
-const QUEUE_URL = process.env.QUEUE_URL!;
+// Environment variables (set in CDK stack)
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+
+// Keep part signing requests (and their responses) small
+const MAX_PARTS_PER_SIGN_REQUEST = 100;
+
+/**
+ * A file from a multipart/form-data upload (or fetched from a URL) with its optional metadata fields
+ */
+interface UploadedFile {
+  filename: string;
+  contentType: string;       // As declared by the client (or the remote server)
+  content: Buffer;
+  latitude?: number;
+  longitude?: number;
+  creationDate?: string;
+  allowDuplicate?: boolean;
+  sourceUrl?: string;        // Set when the file was fetched from a URL
+}
+
+/**
+ * Outcome of storing one uploaded file - data on success, error otherwise
+ */
+type StoreImageResult =
+  | { statusCode: number; message: string; data: UploadResponseData; error?: undefined }
+  | { statusCode: number; error: string; data?: undefined; message?: undefined };
+
+/**
+ * Lambda Handler Function
+ * 
+ * This is the entry point that AWS Lambda calls.
+ * The event contains the HTTP request from API Gateway.
+ */
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  // Generate correlation ID for tracing through the system
+  const correlationId = uuidv4();
+
+  // Extract userId from JWT claims (set by Cognito authorizer)
+  const claims = extractUserClaims(event);
+  if (!claims) {
+    return errorResponse(401, 'Unauthorized - valid token required');
+  }
+  const userId = claims.sub;
+  const tier = getQuotaTier(claims);
+  
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Upload request received',
+    correlationId,
+    userId,
+    action: 'upload_start',
+    path: event.path,
+    httpMethod: event.httpMethod,
+    isBase64Encoded: event.isBase64Encoded,
+    contentType: event.headers['Content-Type'] || event.headers['content-type'],
+    bodyLength: event.body?.length || 0,
+  }));
+
+  try {
+    // Route the request based on path
+    // Note: Must await async functions for try-catch to work properly
+    if (event.path === '/api/upload' && event.httpMethod === 'POST') {
+      return await withIdempotency(event, userId, correlationId,
+        () => uploadImage(event, userId, tier, correlationId));
+    }
+
+    if (event.path === '/api/upload/batch' && event.httpMethod === 'POST') {
+      return await withIdempotency(event, userId, correlationId,
+        () => uploadBatch(event, userId, tier, correlationId));
+    }
+
+    if (event.path === '/api/upload/url' && event.httpMethod === 'POST') {
+      return await withIdempotency(event, userId, correlationId,
+        () => uploadFromUrl(event, userId, tier, correlationId));
+    }
+
+    if (event.path === '/api/upload/presigned' && event.httpMethod === 'POST') {
+      return await createPresignedUpload(event, userId, tier, correlationId);
+    }
+
+    if (event.path.match(/^\/api\/upload\/presigned\/[^/]+\/complete$/) && event.httpMethod === 'POST') {
+      const imageId = event.pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return await completePresignedUpload(imageId, userId, tier, correlationId);
+    }
+
+    if (event.path === '/api/upload/multipart' && event.httpMethod === 'POST') {
+      return await initiateMultipartUpload(event, userId, tier, correlationId);
+    }
+
+    if (event.path.match(/^\/api\/upload\/multipart\/[^/]+\/parts$/) && event.httpMethod === 'POST') {
+      const imageId = event.pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return await signMultipartParts(imageId, event, userId);
+    }
+
+    if (event.path.match(/^\/api\/upload\/multipart\/[^/]+\/complete$/) && event.httpMethod === 'POST') {
+      const imageId = event.pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return await completeMultipartUpload(imageId, event, userId, tier, correlationId);
+    }
+
+    if (event.path.match(/^\/api\/upload\/multipart\/[^/]+$/) && event.httpMethod === 'DELETE') {
+      const imageId = event.pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return await abortMultipartUpload(imageId, userId, correlationId);
+    }
+
+    if (event.path.match(/^\/api\/images\/[^/]+$/) && event.httpMethod === 'PUT') {
+      const imageId = event.pathParameters?.imageId;
+      if (!imageId) return errorResponse(400, 'Image ID required');
+      return await withIdempotency(event, userId, correlationId,
+        () => replaceImage(imageId, event, userId, tier, correlationId));
+    }
+
+    if (event.path.match(/^\/api\/images\/[^/]+\/versions\/[^/]+\/restore$/) && event.httpMethod === 'POST') {
+      const imageId = event.pathParameters?.imageId;
+      const version = event.pathParameters?.version;
+      if (!imageId || !version) return errorResponse(400, 'Image ID and version required');
+      return await restoreImageVersion(imageId, version, userId, correlationId);
+    }
+
+    return errorResponse(404, 'Route not found');
+
+  } catch (error) {
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Upload failed',
+      correlationId,
+      action: 'upload_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    }));
+
+    return errorResponse(500, 'Failed to upload image');
+  }
+}
+
+/**
+ * Run an upload at most once per Idempotency-Key
+ * 
+ * Without the header the upload just runs. With it, the first request claims
+ * the key and its response is stored; retries get that response back
+ * (with an Idempotent-Replayed header). Server errors release the key so the
+ * client can retry for real.
+ */
+async function withIdempotency(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  correlationId: string,
+  run: () => Promise<APIGatewayProxyResult>
+): Promise<APIGatewayProxyResult> {
+  const key = event.headers['Idempotency-Key'] ?? event.headers['idempotency-key'];
+  if (key === undefined) {
+    return run();
+  }
+
+  if (!isValidIdempotencyKey(key)) {
+    return errorResponse(400, 'Invalid Idempotency-Key header. Use 1-255 printable ASCII characters');
+  }
+
+  const claim = await claimIdempotencyKey(userId, key, fingerprintRequest(event));
+
+  if (claim.state === 'completed') {
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Replaying response for Idempotency-Key',
+      correlationId,
+      userId,
+      action: 'idempotent_replay',
+      statusCode: claim.statusCode,
+    }));
+
+    return {
+      statusCode: claim.statusCode,
+      headers: { ...corsHeaders(), 'Idempotent-Replayed': 'true' },
+      body: claim.body,
+    };
+  }
+
+  if (claim.state === 'in_progress') {
+    return errorResponse(409, 'A request with this Idempotency-Key is still being processed. Retry later');
+  }
+
+  if (claim.state === 'mismatch') {
+    return errorResponse(422, 'Idempotency-Key was already used for a different request');
+  }
+
+  let response: APIGatewayProxyResult;
+  try {
+    response = await run();
+  } catch (error) {
+    await releaseIdempotencyKey(userId, key);
+    throw error;
+  }
+
+  if (response.statusCode >= 500) {
+    await releaseIdempotencyKey(userId, key);
+    return response;
+  }
+
+  try {
+    await saveIdempotentResponse(userId, key, response.statusCode, response.body);
+  } catch (error) {
+    // The upload itself succeeded - don't turn it into an error for the client
+    console.error(JSON.stringify({
+      level: 'error',
+      message: 'Failed to save response for Idempotency-Key',
+      correlationId,
+      userId,
+      action: 'idempotency_save_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+
+  return response;
+}
+
+/**
+ * Fingerprint a multipart upload so a reused Idempotency-Key can be checked against it
+ * Hashes the parsed parts rather than the raw body - some clients pick a new
+ * multipart boundary when they retry.
+ */
+function fingerprintRequest(event: APIGatewayProxyEvent): string {
+  const hash = createHash('sha256').update(event.path);
+  const parsed = parseMultipartParts(event);
+
+  if (!parsed) {
+    return hash.update(event.body ?? '').digest('hex');
+  }
+
+  for (const file of parsed.files) {
+    hash.update(`\0file\0${file.filename}\0${file.contentType}\0`).update(file.content);
+  }
+  for (const name of Object.keys(parsed.fields).sort()) {
+    hash.update(`\0field\0${name}\0${parsed.fields[name]}`);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Upload an image through the Lambda
+ * POST /api/upload
+ */
+async function uploadImage(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  // Parse the multipart form data from the request
+  const formData = parseMultipartFormData(event);
+  
+  if (!formData) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to parse multipart data',
+      correlationId,
+      hasBody: !!event.body,
+      bodyLength: event.body?.length || 0,
+      isBase64Encoded: event.isBase64Encoded,
+      headers: event.headers,
+    }));
+    return errorResponse(400, 'No file uploaded or invalid multipart data');
+  }
+
+  const result = await storeImage(formData, userId, tier, correlationId);
+
+  if (!result.data) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const response: ApiResponse<UploadResponseData> = {
+    success: true,
+    message: result.message,
+    data: result.data,
+  };
+
+  return {
+    statusCode: result.statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Fetch an image from a URL and store it like an uploaded file
+ * POST /api/upload/url
+ * 
+ * The URL must resolve to a public address - see utils/remote-image for the SSRF rules.
+ */
+async function uploadFromUrl(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody<UrlUploadRequest>(event.body);
+
+  if (!body || typeof body.url !== 'string' || !body.url) {
+    return errorResponse(400, 'url is required');
+  }
+  if (body.filename !== undefined && (typeof body.filename !== 'string' || !body.filename.trim())) {
+    return errorResponse(400, 'filename must be a non-empty string');
+  }
+
+  const fetched = await fetchRemoteImage(body.url, MAX_FILE_SIZE);
+
+  if ('error' in fetched) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to fetch image from URL',
+      correlationId,
+      userId,
+      action: 'url_fetch_error',
+      url: body.url,
+      statusCode: fetched.statusCode,
+      reason: fetched.error,
+    }));
+    return errorResponse(fetched.statusCode, fetched.error);
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image fetched from URL',
+    correlationId,
+    userId,
+    action: 'url_fetch',
+    url: fetched.url,
+    size: fetched.content.length,
+    contentType: fetched.contentType,
+  }));
+
+  const result = await storeImage({
+    filename: body.filename?.trim() || getFilenameFromUrl(fetched.url),
+    contentType: fetched.contentType,
+    content: fetched.content,
+    latitude: parseLatitude(body.latitude),
+    longitude: parseLongitude(body.longitude),
+    creationDate: parseCreationDate(body.creationDate),
+    allowDuplicate: body.allowDuplicate === true,
+    sourceUrl: body.url,
+  }, userId, tier, correlationId);
+
+  if (!result.data) {
+    return errorResponse(result.statusCode, result.error);
+  }
+
+  const response: ApiResponse<UploadResponseData> = {
+    success: true,
+    message: result.message,
+    data: result.data,
+  };
+
+  return {
+    statusCode: result.statusCode,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Upload several images in one request
+ * POST /api/upload/batch
+ * 
+ * Each file is validated and stored on its own - one bad file doesn't stop
+ * (or roll back) the others. Per-file metadata uses indexed field names:
+ * latitude[0], longitude[0], creationDate[0], allowDuplicate[0], ...
+ * 
+ * Returns 201 if every file was accepted, 207 if only some were, 400 if none were.
+ */
+async function uploadBatch(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const files = parseBatchFormData(event);
+
+  if (!files || files.length === 0) {
+    return errorResponse(400, 'No files uploaded or invalid multipart data');
+  }
+
+  if (files.length > MAX_BATCH_FILES) {
+    return errorResponse(400, `Too many files. Maximum per batch: ${MAX_BATCH_FILES}`);
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Processing batch upload',
+    correlationId,
+    userId,
+    action: 'batch_upload_start',
+    fileCount: files.length,
+  }));
+
+  // One at a time - keeps memory flat and the per-file logs readable
+  const results: BatchUploadResult[] = [];
+  for (const [index, file] of files.entries()) {
+    let result: StoreImageResult;
+    try {
+      result = await storeImage(file, userId, tier, correlationId);
+    } catch (error) {
+      console.error(JSON.stringify({
+        level: 'error',
+        message: 'Batch file upload failed',
+        correlationId,
+        action: 'batch_upload_file_error',
+        index,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+      result = { statusCode: 500, error: 'Failed to upload image' };
+    }
+
+    results.push({
+      index,
+      originalName: file.filename,
+      success: !!result.data,
+      statusCode: result.statusCode,
+      ...(result.data ? { data: result.data } : { error: result.error }),
+    });
+  }
+
+  const succeeded = results.filter((r) => r.success).length;
+  const failed = results.length - succeeded;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Batch upload completed',
+    correlationId,
+    userId,
+    action: 'batch_upload_complete',
+    succeeded,
+    failed,
+  }));
+
+  const response: ApiResponse<BatchUploadResponseData> = {
+    success: failed === 0,
+    message: `${succeeded} of ${results.length} images uploaded`,
+    data: { results, succeeded, failed },
+    ...(succeeded === 0 && { error: 'No images were uploaded' }),
+  };
+
+  return {
+    statusCode: failed === 0 ? 201 : succeeded === 0 ? 400 : 207,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Check the size and content of a file uploaded through the Lambda
+ * Returns the detected type, or the status code and error to reject the file with
+ */
+function validateUploadedFile(
+  file: UploadedFile,
+  correlationId: string
+): { mimetype: AllowedMimeType } | { statusCode: number; error: string } {
+  const { content, contentType: declaredType } = file;
+
+  // Validate file size
+  if (content.length > MAX_FILE_SIZE) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'File too large',
+      correlationId,
+      size: content.length,
+      maxSize: MAX_FILE_SIZE,
+    }));
+    return { statusCode: 400, error: `File too large. Maximum size: ${MAX_FILE_SIZE / (1024 * 1024)}MB` };
+  }
+
+  // Validate file type from the file signature - the part's Content-Type is only the client's claim
+  const contentCheck = checkImageContent(content, declaredType);
+  if ('error' in contentCheck) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Invalid file content',
+      correlationId,
+      declaredType,
+      reason: contentCheck.error,
+    }));
+    return { statusCode: 415, error: contentCheck.error };
+  }
+
+  return contentCheck;
+}
+
+/**
+ * Validate and store one uploaded file, then queue it for analysis
+ * Shared by the single and batch upload routes
+ */
+async function storeImage(
+  file: UploadedFile,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<StoreImageResult> {
+  const {
+    filename: originalName,
+    content,
+    latitude,
+    longitude,
+    creationDate,
+    allowDuplicate,
+    sourceUrl,
+  } = file;
+
+  const validation = validateUploadedFile(file, correlationId);
+  if ('error' in validation) {
+    return validation;
+  }
+
+  // From here on, the detected type is the file's type
+  const contentType = validation.mimetype;
+
+  // Same bytes already uploaded by this user? Hand back that image instead of storing a copy
+  // (not one in the trash - it is hidden, so the upload stores the file again)
+  const contentHash = hashContent(content);
+  const [existing] = (await findImagesByContentHash(userId, contentHash))
+    .filter((image) => image.status !== 'failed' && !image.trashedAt);
+
+  if (existing && !allowDuplicate) {
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Duplicate upload - returning existing image',
+      correlationId,
+      userId,
+      action: 'upload_duplicate',
+      imageId: existing.imageId,
+      contentHash,
+    }));
+
+    return {
+      statusCode: 200,
+      message: 'Image already uploaded',
+      data: { ...toUploadResponseData(existing), duplicateOf: existing.imageId },
+    };
+  }
+
+  // Reserve quota before anything is written
+  const quota = await reserveQuota(userId, tier, content.length);
+  if (!quota.allowed) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Quota exceeded',
+      correlationId,
+      userId,
+      tier,
+      size: content.length,
+      reason: quota.reason,
+    }));
+    return { statusCode: 403, error: quota.reason };
+  }
+
+  // Generate unique ID and filename
+  const imageId = uuidv4();
+  const extension = MIME_TO_EXTENSION[contentType];
+  const storedFilename = `${imageId}${extension}`;
+  // S3 key includes userId for organization and potential future access patterns
+  const s3Key = `images/${userId}/${storedFilename}`;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Processing upload',
+    correlationId,
+    userId,
+    imageId,
+    originalName,
+    contentType,
+    size: content.length,
+    latitude,
+    longitude,
+    creationDate,
+    contentHash,
+    duplicateOf: existing?.imageId,
+  }));
+
+  const now = new Date().toISOString();
+  const imageMetadata: ImageMetadata = {
+    imageId,
+    userId,
+    filename: storedFilename,
+    originalName,
+    mimetype: contentType,
+    size: content.length,
+    uploadedAt: now,
+    s3Key,
+    status: 'uploaded',
+    contentHash,
+    ...(latitude !== undefined && { latitude }),
+    ...(longitude !== undefined && { longitude }),
+    ...(latitude !== undefined && longitude !== undefined && { geohash: encodeGeohash(latitude, longitude) }),
+    ...(creationDate && { creationDate }),
+    ...(existing && { duplicateOf: existing.imageId }),
+    ...(sourceUrl && { sourceUrl }),
+  };
+
+  try {
+    // Step 1: Upload image to S3
+    await s3Client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: s3Key,
+      Body: content,
+      ContentType: contentType,
+      Metadata: {
+        'original-name': originalName,
+        'correlation-id': correlationId,
+        'user-id': userId,
+      },
+    }));
+
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Image saved to S3',
+      correlationId,
+      imageId,
+      action: 's3_upload',
+      bucket: BUCKET_NAME,
+      key: s3Key,
+    }));
+
+    // Step 2: Save metadata to DynamoDB
+    await docClient.send(new PutCommand({
+      TableName: IMAGES_TABLE,
+      Item: imageMetadata,
+    }));
+
+    console.log(JSON.stringify({
+      level: 'info',
+      message: 'Metadata saved to DynamoDB',
+      correlationId,
+      imageId,
+      action: 'db_save',
+    }));
+  } catch (error) {
+    // The image record wasn't saved - give the reserved quota back
+    await releaseQuota(userId, content.length);
+    throw error;
+  }
+
+  // Step 3: Send message to SQS for analysis
+  await enqueueAnalysis(imageMetadata, correlationId);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Upload completed successfully',
+    correlationId,
+    imageId,
+    action: 'upload_complete',
+  }));
+
+  // Build success response (matches original API response format)
+  return {
+    statusCode: 201,
+    message: 'Image uploaded successfully',
+    data: toUploadResponseData(imageMetadata),
+  };
+}
+
+/**
+ * Replace an image's file, keeping its imageId
+ * PUT /api/images/{imageId}
+ * 
+ * Takes the same multipart/form-data as POST /api/upload. The previous file
+ * stays in S3 and is added to the image's version list. Renditions and the
+ * metadata read from the old file are cleared, and the new file is analyzed
+ * again. latitude, longitude and creationDate fields overwrite stored values.
+ */
+async function replaceImage(
+  imageId: string,
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const formData = parseMultipartFormData(event);
+  if (!formData) {
+    return errorResponse(400, 'No file uploaded or invalid multipart data');
+  }
+
+  const image = await getVersionableImage(imageId, userId);
+  if ('error' in image) {
+    return errorResponse(image.statusCode, image.error);
+  }
+
+  const validation = validateUploadedFile(formData, correlationId);
+  if ('error' in validation) {
+    return errorResponse(validation.statusCode, validation.error);
+  }
+
+  const { content } = formData;
+  const contentType = validation.mimetype;
+  const contentHash = hashContent(content);
+
+  // Same bytes as the current version - nothing to replace
+  if (contentHash === image.contentHash) {
+    const response: ApiResponse<UploadResponseData> = {
+      success: true,
+      message: 'Image content unchanged',
+      data: toUploadResponseData(image),
+    };
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders(),
+      body: JSON.stringify(response),
+    };
+  }
+
+  // The image already has a slot - only the new bytes count against the quota
+  const quota = await reserveQuota(userId, tier, content.length, 0);
+  if (!quota.allowed) {
+    return errorResponse(403, quota.reason);
+  }
+
+  const version = (image.version ?? 1) + 1;
+  const extension = MIME_TO_EXTENSION[contentType];
+  const s3Key = getVersionKey(image.userId, imageId, version, extension);
+
+  let updatedImage: ImageMetadata | null;
+  try {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: s3Key,
+      Body: content,
+      ContentType: contentType,
+      Metadata: {
+        'original-name': formData.filename,
+        'correlation-id': correlationId,
+        'user-id': userId,
+      },
+    }));
+
+    updatedImage = await saveNewVersion(image, {
+      version,
+      filename: `${imageId}-v${version}${extension}`,
+      originalName: formData.filename,
+      mimetype: contentType,
+      size: content.length,
+      s3Key,
+      contentHash,
+      uploadedAt: new Date().toISOString(),
+    }, formData);
+  } catch (error) {
+    await releaseQuota(userId, content.length, 0);
+    throw error;
+  }
+
+  if (!updatedImage) {
+    await releaseQuota(userId, content.length, 0);
+    await s3Client.send(new DeleteObjectCommand({ Bucket: BUCKET_NAME, Key: s3Key }));
+    return errorResponse(409, 'Image was changed or deleted while it was being replaced');
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image replaced',
+    correlationId,
+    userId,
+    imageId,
+    action: 'image_replace',
+    version,
+    s3Key,
+  }));
+
+  await enqueueAnalysis(updatedImage, correlationId);
+
+  const response: ApiResponse<UploadResponseData> = {
+    success: true,
+    message: 'Image replaced and queued for analysis',
+    data: toUploadResponseData(updatedImage),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Make an earlier version the current one again
+ * POST /api/images/{imageId}/versions/{version}/restore
+ * 
+ * History is never rewritten: the restored file becomes a new version that
+ * shares the earlier version's S3 object, and is analyzed again.
+ */
+async function restoreImageVersion(
+  imageId: string,
+  versionParam: string,
+  userId: string,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const restoredVersion = Number(versionParam);
+  if (!Number.isInteger(restoredVersion) || restoredVersion < 1) {
+    return errorResponse(400, 'Version must be a positive integer');
+  }
+
+  const image = await getVersionableImage(imageId, userId);
+  if ('error' in image) {
+    return errorResponse(image.statusCode, image.error);
+  }
+
+  const currentVersion = image.version ?? 1;
+  if (restoredVersion === currentVersion) {
+    return errorResponse(400, `Version ${restoredVersion} is already the current version`);
+  }
+
+  const previous = image.versions?.find((entry) => entry.version === restoredVersion);
+  if (!previous) {
+    return errorResponse(404, 'Version not found');
+  }
+
+  const version = currentVersion + 1;
+  const updatedImage = await saveNewVersion(image, {
+    ...previous,
+    version,
+    uploadedAt: new Date().toISOString(),
+  }, {});
+
+  if (!updatedImage) {
+    return errorResponse(409, 'Image was changed or deleted while the version was being restored');
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image version restored',
+    correlationId,
+    userId,
+    imageId,
+    action: 'image_restore_version',
+    restoredVersion,
+    version,
+  }));
+
+  await enqueueAnalysis(updatedImage, correlationId);
+
+  const response: ApiResponse<UploadResponseData> = {
+    success: true,
+    message: `Version ${restoredVersion} restored as version ${version}`,
+    data: toUploadResponseData(updatedImage),
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Load an image whose file is about to change
+ * Returns the image, or the status code and error to refuse the change with
+ */
+async function getVersionableImage(
+  imageId: string,
+  userId: string
+): Promise<ImageMetadata | { statusCode: number; error: string }> {
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
+
+  const image = result.Item as ImageMetadata | undefined;
+
+  // Images in the trash must be restored first
+  if (!image || image.trashedAt) {
+    return { statusCode: 404, error: 'Image not found' };
+  }
+
+  if (image.userId !== userId) {
+    return { statusCode: 403, error: 'Access denied - you can only change your own images' };
+  }
+
+  if (image.status === 'pending') {
+    return { statusCode: 409, error: 'Upload has not been completed yet' };
+  }
+
+  if ((image.versions?.length ?? 0) + 1 >= MAX_IMAGE_VERSIONS) {
+    return { statusCode: 409, error: `Image already has the maximum of ${MAX_IMAGE_VERSIONS} versions` };
+  }
+
+  return image;
+}
+
+/**
+ * Make `next` the current version of an image and move the current one into its history
+ * 
+ * Everything derived from the old file (renditions, EXIF fields, duplicate link) is
+ * cleared - analysis of the new version fills it in again. The update only applies
+ * if nobody else changed the version in the meantime; returns null if they did
+ * (or the image was deleted).
+ */
+async function saveNewVersion(
+  image: ImageMetadata,
+  next: ImageVersion,
+  metadata: Pick<UploadedFile, 'latitude' | 'longitude' | 'creationDate'>
+): Promise<ImageMetadata | null> {
+  const current: ImageVersion = {
+    version: image.version ?? 1,
+    filename: image.filename,
+    originalName: image.originalName,
+    mimetype: image.mimetype,
+    size: image.size,
+    s3Key: image.s3Key,
+    ...(image.contentHash && { contentHash: image.contentHash }),
+    uploadedAt: image.replacedAt ?? image.uploadedAt,
+  };
+
+  const setExpressions = [
+    'filename = :filename',
+    'originalName = :originalName',
+    'mimetype = :mimetype',
+    '#size = :size',
+    's3Key = :s3Key',
+    '#status = :status',
+    '#version = :version',
+    'replacedAt = :replacedAt',
+    'versions = list_append(if_not_exists(versions, :noVersions), :previous)',
+  ];
+  const removeExpressions = [
+    'width', 'height', 'orientation', 'cameraMake', 'cameraModel',
+    'thumbnailKey', 'previewKey', 'displayKey', 'duplicateOf',
+  ];
+  const values: Record<string, unknown> = {
+    ':filename': next.filename,
+    ':originalName': next.originalName,
+    ':mimetype': next.mimetype,
+    ':size': next.size,
+    ':s3Key': next.s3Key,
+    ':status': 'uploaded',
+    ':version': next.version,
+    ':replacedAt': next.uploadedAt,
+    ':noVersions': [],
+    ':previous': [current],
+  };
+
+  if (next.contentHash) {
+    setExpressions.push('contentHash = :contentHash');
+    values[':contentHash'] = next.contentHash;
+  } else {
+    removeExpressions.push('contentHash');
+  }
+
+  for (const field of ['latitude', 'longitude', 'creationDate'] as const) {
+    if (metadata[field] !== undefined) {
+      setExpressions.push(`${field} = :${field}`);
+      values[`:${field}`] = metadata[field];
+    }
+  }
+
+  // Keep the geohash in line with a moved position
+  const latitude = metadata.latitude ?? image.latitude;
+  const longitude = metadata.longitude ?? image.longitude;
+  if ((metadata.latitude !== undefined || metadata.longitude !== undefined) &&
+      latitude !== undefined && longitude !== undefined) {
+    setExpressions.push('geohash = :geohash');
+    values[':geohash'] = encodeGeohash(latitude, longitude);
+  }
+
+  // Optimistic lock on the version number - images that were never replaced have none
+  if (image.version !== undefined) {
+    values[':currentVersion'] = image.version;
+  }
+
+  let updatedImage: ImageMetadata;
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId: image.imageId },
+      UpdateExpression: `SET ${setExpressions.join(', ')} REMOVE ${removeExpressions.join(', ')}`,
+      ConditionExpression: image.version !== undefined
+        ? 'attribute_exists(imageId) AND #version = :currentVersion'
+        : 'attribute_exists(imageId) AND attribute_not_exists(#version)',
+      ExpressionAttributeNames: {
+        '#size': 'size',
+        '#status': 'status',
+        '#version': 'version',
+      },
+      ExpressionAttributeValues: values,
+      ReturnValues: 'ALL_NEW',
+    }));
+    updatedImage = result.Attributes as ImageMetadata;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return null;
+    }
+    throw error;
+  }
+
+  // The old renditions show the old file - remove them (the original stays as a version)
+  const renditionKeys = [image.thumbnailKey, image.previewKey, image.displayKey]
+    .filter((key): key is string => !!key);
+  try {
+    await deleteImageObjects(renditionKeys.map((key) => ({ s3Key: key })));
+  } catch (error) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'Failed to delete renditions of the previous version',
+      imageId: image.imageId,
+      action: 'renditions_delete_error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }));
+  }
+
+  return updatedImage;
+}
+
+/**
+ * Create a presigned S3 POST for a direct-to-S3 upload
+ * POST /api/upload/presigned
+ * 
+ * The client declares the filename, content type and size. We create a 'pending'
+ * metadata record and return a presigned POST whose policy pins the S3 key, the
+ * Content-Type and the allowed size range, so S3 itself rejects anything else.
+ */
+async function createPresignedUpload(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody<PresignedUploadRequest>(event.body);
+
+  if (!body || !body.filename || !body.contentType || body.size === undefined) {
+    return errorResponse(400, 'filename, contentType, and size are required');
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(body.contentType as any)) {
+    return errorResponse(400, `Invalid file type. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`);
+  }
+
+  if (!Number.isInteger(body.size) || body.size <= 0) {
+    return errorResponse(400, 'size must be a positive integer (bytes)');
+  }
+
+  if (body.size > MAX_FILE_SIZE) {
+    return errorResponse(400, `File too large. Maximum size: ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+  }
+
+  // Fail early if the file can't fit - the quota is reserved once the upload is complete
+  const quota = await checkQuota(userId, tier, body.size);
+  if (!quota.allowed) {
+    return errorResponse(403, quota.reason);
+  }
+
+  const latitude = parseLatitude(body.latitude);
+  const longitude = parseLongitude(body.longitude);
+  const creationDate = parseCreationDate(body.creationDate);
+
+  // Generate unique ID and filename (same key layout as the multipart route)
+  const imageId = uuidv4();
+  const extension = MIME_TO_EXTENSION[body.contentType] || '.jpg';
+  const storedFilename = `${imageId}${extension}`;
+  const s3Key = `images/${userId}/${storedFilename}`;
+
+  const presignedPost = await createPresignedPost(s3Client, {
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    // Every field is added to the policy conditions, so the client cannot change them
+    Fields: {
+      'Content-Type': body.contentType,
+      'x-amz-meta-correlation-id': correlationId,
+      'x-amz-meta-user-id': userId,
+    },
+    Conditions: [
+      ['content-length-range', 1, MAX_FILE_SIZE],
+    ],
+    Expires: PRESIGNED_UPLOAD_EXPIRY_SECONDS,
+  });
+
+  // Save a pending metadata record - DynamoDB TTL removes it if the upload is never completed
+  const now = new Date();
+  const imageMetadata: ImageMetadata = {
+    imageId,
+    userId,
+    filename: storedFilename,
+    originalName: body.filename,
+    mimetype: body.contentType,
+    size: body.size,
+    uploadedAt: now.toISOString(),
+    s3Key,
+    status: 'pending',
+    expiresAt: Math.floor(now.getTime() / 1000) + PENDING_UPLOAD_TTL_SECONDS,
+    ...(latitude !== undefined && { latitude }),
+    ...(longitude !== undefined && { longitude }),
+    ...(latitude !== undefined && longitude !== undefined && { geohash: encodeGeohash(latitude, longitude) }),
+    ...(creationDate && { creationDate }),
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: IMAGES_TABLE,
+    Item: imageMetadata,
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Presigned upload created',
+    correlationId,
+    userId,
+    imageId,
+    action: 'presigned_upload_created',
+    contentType: body.contentType,
+    size: body.size,
+    key: s3Key,
+  }));
+
+  const response: ApiResponse<PresignedUploadResponseData> = {
+    success: true,
+    message: 'Presigned upload created',
+    data: {
+      id: imageId,
+      uploadUrl: presignedPost.url,
+      fields: presignedPost.fields,
+      expiresIn: PRESIGNED_UPLOAD_EXPIRY_SECONDS,
+      completePath: `/api/upload/presigned/${imageId}/complete`,
+    },
+  };
+
+  return {
+    statusCode: 201,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Complete a direct-to-S3 upload
+ * POST /api/upload/presigned/{imageId}/complete
+ * 
+ * Verifies the object actually landed in S3 with an allowed type and size,
+ * flips the record from 'pending' to 'uploaded' and queues it for analysis.
+ */
+async function completePresignedUpload(
+  imageId: string,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
+
+  const image = result.Item as ImageMetadata | undefined;
+
+  if (!image) {
+    return errorResponse(404, 'Upload not found');
+  }
+
+  // Only the user who started the upload can complete it
+  if (image.userId !== userId) {
+    return errorResponse(403, 'Access denied - you can only complete your own uploads');
+  }
+
+  if (image.status !== 'pending') {
+    return errorResponse(409, 'Upload has already been completed');
+  }
+
+  if (image.multipartUploadId) {
+    return errorResponse(400, 'This is a multipart upload - complete it via the multipart endpoint');
+  }
+
+  return finalizeDirectUpload(image, MAX_FILE_SIZE, tier, correlationId);
+}
+
+/**
+ * Start an S3 multipart upload for a large image
+ * POST /api/upload/multipart
+ * 
+ * The maximum size comes from the user's limits (admins can raise it per user).
+ * The image lands under the same images/{userId}/ key layout as every other upload.
+ */
+async function initiateMultipartUpload(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody<MultipartUploadRequest>(event.body);
+
+  if (!body || !body.filename || !body.contentType || body.size === undefined) {
+    return errorResponse(400, 'filename, contentType, and size are required');
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(body.contentType as any)) {
+    return errorResponse(400, `Invalid file type. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`);
+  }
+
+  if (!Number.isInteger(body.size) || body.size <= 0) {
+    return errorResponse(400, 'size must be a positive integer (bytes)');
+  }
+
+  const limits = await getUserLimits(userId, tier);
+  if (body.size > limits.maxUploadSize) {
+    console.log(JSON.stringify({
+      level: 'warn',
+      message: 'File too large for multipart upload',
+      correlationId,
+      userId,
+      size: body.size,
+      maxSize: limits.maxUploadSize,
+    }));
+    return errorResponse(400, `File too large. Maximum size: ${limits.maxUploadSize / (1024 * 1024)}MB`);
+  }
+
+  // Fail early if the file can't fit - the quota is reserved once the upload is complete
+  const quota = await checkQuota(userId, tier, body.size);
+  if (!quota.allowed) {
+    return errorResponse(403, quota.reason);
+  }
+
+  const latitude = parseLatitude(body.latitude);
+  const longitude = parseLongitude(body.longitude);
+  const creationDate = parseCreationDate(body.creationDate);
+
+  const imageId = uuidv4();
+  const extension = MIME_TO_EXTENSION[body.contentType] || '.jpg';
+  const storedFilename = `${imageId}${extension}`;
+  const s3Key = `images/${userId}/${storedFilename}`;
+
+  const multipartUpload = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: s3Key,
+    ContentType: body.contentType,
+    Metadata: {
+      'correlation-id': correlationId,
+      'user-id': userId,
+    },
+  }));
+
+  // Pending record - TTL removes it and the bucket lifecycle rule aborts the S3 upload if abandoned
+  const now = new Date();
+  const imageMetadata: ImageMetadata = {
+    imageId,
+    userId,
+    filename: storedFilename,
+    originalName: body.filename,
+    mimetype: body.contentType,
+    size: body.size,
+    uploadedAt: now.toISOString(),
+    s3Key,
+    status: 'pending',
+    expiresAt: Math.floor(now.getTime() / 1000) + PENDING_UPLOAD_TTL_SECONDS,
+    multipartUploadId: multipartUpload.UploadId!,
+    ...(latitude !== undefined && { latitude }),
+    ...(longitude !== undefined && { longitude }),
+    ...(latitude !== undefined && longitude !== undefined && { geohash: encodeGeohash(latitude, longitude) }),
+    ...(creationDate && { creationDate }),
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: IMAGES_TABLE,
+    Item: imageMetadata,
+  }));
+
+  const partSize = getPartSize(body.size);
+  const partCount = Math.ceil(body.size / partSize);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Multipart upload initiated',
+    correlationId,
+    userId,
+    imageId,
+    action: 'multipart_upload_initiated',
+    size: body.size,
+    partSize,
+    partCount,
+    key: s3Key,
+  }));
+
+  const response: ApiResponse<MultipartUploadResponseData> = {
+    success: true,
+    message: 'Multipart upload initiated',
+    data: {
+      id: imageId,
+      partSize,
+      partCount,
+      partsPath: `/api/upload/multipart/${imageId}/parts`,
+      completePath: `/api/upload/multipart/${imageId}/complete`,
+      abortPath: `/api/upload/multipart/${imageId}`,
+    },
+  };
+
+  return {
+    statusCode: 201,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Get presigned URLs for uploading parts
+ * POST /api/upload/multipart/{imageId}/parts
+ * 
+ * The client PUTs each part to its URL and keeps the ETag response header
+ * for the completion call.
+ */
+async function signMultipartParts(
+  imageId: string,
+  event: APIGatewayProxyEvent,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody<SignMultipartPartsRequest>(event.body);
+
+  if (!body || !Array.isArray(body.partNumbers) || body.partNumbers.length === 0) {
+    return errorResponse(400, 'partNumbers is required');
+  }
+
+  if (body.partNumbers.length > MAX_PARTS_PER_SIGN_REQUEST) {
+    return errorResponse(400, `At most ${MAX_PARTS_PER_SIGN_REQUEST} parts can be signed per request`);
+  }
+
+  const lookup = await getPendingMultipartUpload(imageId, userId);
+  if ('statusCode' in lookup) {
+    return lookup;
+  }
+  const image = lookup;
+
+  const partCount = Math.ceil(image.size / getPartSize(image.size));
+  const invalidPart = body.partNumbers.find(
+    (partNumber) => !Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount
+  );
+  if (invalidPart !== undefined) {
+    return errorResponse(400, `Invalid part number ${invalidPart}. Expected 1 to ${partCount}`);
+  }
+
+  const parts = await Promise.all(body.partNumbers.map(async (partNumber) => ({
+    partNumber,
+    url: await getSignedUrl(s3Client, new UploadPartCommand({
+      Bucket: BUCKET_NAME,
+      Key: image.s3Key,
+      UploadId: image.multipartUploadId,
+      PartNumber: partNumber,
+    }), {
+      expiresIn: PRESIGNED_UPLOAD_EXPIRY_SECONDS,
+    }),
+  })));
+
+  const response: ApiResponse<{ parts: Array<{ partNumber: number; url: string }>; expiresIn: number }> = {
+    success: true,
+    data: {
+      parts,
+      expiresIn: PRESIGNED_UPLOAD_EXPIRY_SECONDS,
+    },
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Complete a multipart upload
+ * POST /api/upload/multipart/{imageId}/complete
+ * 
+ * Assembles the parts in S3, then goes through the same verification and
+ * analysis queueing as a presigned upload.
+ */
+async function completeMultipartUpload(
+  imageId: string,
+  event: APIGatewayProxyEvent,
+  userId: string,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const body = parseBody<CompleteMultipartUploadRequest>(event.body);
+
+  if (!body || !Array.isArray(body.parts) || body.parts.length === 0) {
+    return errorResponse(400, 'parts is required');
+  }
+
+  if (body.parts.some((part) => !Number.isInteger(part.partNumber) || !part.etag)) {
+    return errorResponse(400, 'Each part needs a partNumber and etag');
+  }
+
+  const lookup = await getPendingMultipartUpload(imageId, userId);
+  if ('statusCode' in lookup) {
+    return lookup;
+  }
+  const image = lookup;
+
+  try {
+    await s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: image.s3Key,
+      UploadId: image.multipartUploadId,
+      MultipartUpload: {
+        Parts: [...body.parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+  } catch (error) {
+    if (error instanceof Error && ['InvalidPart', 'InvalidPartOrder', 'EntityTooSmall'].includes(error.name)) {
+      return errorResponse(400, `Could not assemble parts: ${error.message}`);
+    }
+    if (error instanceof Error && error.name === 'NoSuchUpload') {
+      return errorResponse(410, 'Multipart upload has expired or was aborted');
+    }
+    throw error;
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Multipart upload assembled',
+    correlationId,
+    imageId,
+    action: 'multipart_upload_assembled',
+    partCount: body.parts.length,
+  }));
+
+  const limits = await getUserLimits(userId, tier);
+  return finalizeDirectUpload(image, limits.maxUploadSize, tier, correlationId);
+}
+
+/**
+ * Abort a multipart upload
+ * DELETE /api/upload/multipart/{imageId}
+ * 
+ * Frees the uploaded parts in S3 and removes the pending record.
+ */
+async function abortMultipartUpload(
+  imageId: string,
+  userId: string,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const lookup = await getPendingMultipartUpload(imageId, userId);
+  if ('statusCode' in lookup) {
+    return lookup;
+  }
+  const image = lookup;
+
+  try {
+    await s3Client.send(new AbortMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: image.s3Key,
+      UploadId: image.multipartUploadId,
+    }));
+  } catch (error) {
+    // Already aborted or expired - nothing left to clean up in S3
+    if (!(error instanceof Error && error.name === 'NoSuchUpload')) {
+      throw error;
+    }
+  }
+
+  await docClient.send(new DeleteCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Multipart upload aborted',
+    correlationId,
+    imageId,
+    action: 'multipart_upload_aborted',
+  }));
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: 'Multipart upload aborted',
+  };
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
 
 /**
- * Lambda Handler Function
- * 
- * This is the entry point that AWS Lambda calls.
- * The event contains the HTTP request from API Gateway.
+ * Load a pending multipart upload owned by the user
+ * Returns an error response if it does not exist, belongs to someone else or is already complete
  */
-export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-  // Generate correlation ID for tracing through the system
-  const correlationId = uuidv4();
+async function getPendingMultipartUpload(
+  imageId: string,
+  userId: string
+): Promise<ImageMetadata | APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId },
+  }));
 
-  // Extract userId from JWT claims (set by Cognito authorizer)
-  const claims = extractUserClaims(event);
-  if (!claims) {
-    return errorResponse(401, 'Unauthorized - valid token required');
+  const image = result.Item as ImageMetadata | undefined;
+
+  if (!image) {
+    return errorResponse(404, 'Multipart upload not found');
   }
-  const userId = claims.sub;
-  
-  console.log(JSON.stringify({
-    level: 'info',
-    message: 'Upload request received',
-    correlationId,
-    userId,
-    action: 'upload_start',
-    path: event.path,
-    httpMethod: event.httpMethod,
-    isBase64Encoded: event.isBase64Encoded,
-    contentType: event.headers['Content-Type'] || event.headers['content-type'],
-    bodyLength: event.body?.length || 0,
-  }));
 
-  try {
-    // Parse the multipart form data from the request
-    const formData = parseMultipartFormData(event);
-    
-    if (!formData) {
-      console.log(JSON.stringify({
-        level: 'warn',
-        message: 'Failed to parse multipart data',
-        correlationId,
-        hasBody: !!event.body,
-        bodyLength: event.body?.length || 0,
-        isBase64Encoded: event.isBase64Encoded,
-        headers: event.headers,
-      }));
-      return errorResponse(400, 'No file uploaded or invalid multipart data');
-    }
+  if (image.userId !== userId) {
+    return errorResponse(403, 'Access denied - you can only manage your own uploads');
+  }
 
-    const { filename: originalName, contentType, content, latitude, longitude, creationDate } = formData;
+  if (image.status !== 'pending') {
+    return errorResponse(409, 'Upload has already been completed');
+  }
 
-    // Validate file type
-    if (!ALLOWED_MIME_TYPES.includes(contentType as any)) {
-      console.log(JSON.stringify({
-        level: 'warn',
-        message: 'Invalid file type',
-        correlationId,
-        contentType,
-        allowedTypes: ALLOWED_MIME_TYPES,
-      }));
-      return errorResponse(400, `Invalid file type. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`);
-    }
+  // A pending presigned POST upload, not a multipart one
+  if (!image.multipartUploadId) {
+    return errorResponse(404, 'Multipart upload not found');
+  }
 
-    // Validate file size
-    if (content.length > MAX_FILE_SIZE) {
-      console.log(JSON.stringify({
-        level: 'warn',
-        message: 'File too large',
-        correlationId,
-        size: content.length,
-        maxSize: MAX_FILE_SIZE,
-      }));
-      return errorResponse(400, `File too large. Maximum size: ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
-    }
+  return image;
+}
 
-    // Generate unique ID and filename
-    const imageId = uuidv4();
-    const extension = MIME_TO_EXTENSION[contentType] || '.jpg';
-    const storedFilename = `${imageId}${extension}`;
-    // S3 key includes userId for organization and potential future access patterns
-    const s3Key = `images/${userId}/${storedFilename}`;
+/**
+ * Part size for a multipart upload
+ * Grows beyond MULTIPART_PART_SIZE only when needed to stay within S3's part limit
+ */
+function getPartSize(size: number): number {
+  return Math.max(MULTIPART_PART_SIZE, Math.ceil(size / MAX_MULTIPART_PARTS));
+}
 
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Processing upload',
-      correlationId,
-      userId,
-      imageId,
-      originalName,
-      contentType,
-      size: content.length,
-      latitude,
-      longitude,
-      creationDate,
-    }));
+/**
+ * Verify a file uploaded directly to S3 and queue it for analysis
+ * 
+ * Shared by the presigned POST and multipart flows: checks the object actually
+ * landed in S3 with the declared type and an allowed size, reserves quota,
+ * flips the record from 'pending' to 'uploaded' and sends the SQS message.
+ */
+async function finalizeDirectUpload(
+  image: ImageMetadata,
+  maxSize: number,
+  tier: QuotaTier,
+  correlationId: string
+): Promise<APIGatewayProxyResult> {
+  const imageId = image.imageId;
 
-    // Step 1: Upload image to S3
-    await s3Client.send(new PutObjectCommand({
+  // Verify the object exists in S3
+  let objectSize: number;
+  let objectContentType: string | undefined;
+  try {
+    const head = await s3Client.send(new HeadObjectCommand({
       Bucket: BUCKET_NAME,
-      Key: s3Key,
-      Body: content,
-      ContentType: contentType,
-      Metadata: {
-        'original-name': originalName,
-        'correlation-id': correlationId,
-        'user-id': userId,
-      },
+      Key: image.s3Key,
     }));
+    objectSize = head.ContentLength || 0;
+    objectContentType = head.ContentType;
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+      return errorResponse(400, 'File has not been uploaded to S3 yet');
+    }
+    throw error;
+  }
 
+  // The presigned POST policy / multipart initiation fix these, but never trust the client blindly
+  if (objectContentType !== image.mimetype) {
     console.log(JSON.stringify({
-      level: 'info',
-      message: 'Image saved to S3',
+      level: 'warn',
+      message: 'Uploaded object has unexpected content type',
       correlationId,
       imageId,
-      action: 's3_upload',
-      bucket: BUCKET_NAME,
-      key: s3Key,
+      expected: image.mimetype,
+      actual: objectContentType,
     }));
+    await discardDirectUpload(image);
+    return errorResponse(400, `Uploaded file type does not match the declared type (${image.mimetype})`);
+  }
 
-    // Step 2: Save metadata to DynamoDB
-    const now = new Date().toISOString();
-    const imageMetadata: ImageMetadata = {
-      imageId,
-      userId,
-      filename: storedFilename,
-      originalName,
-      mimetype: contentType,
-      size: content.length,
-      uploadedAt: now,
-      s3Key,
-      status: 'uploaded',
-      ...(latitude !== undefined && { latitude }),
-      ...(longitude !== undefined && { longitude }),
-      ...(creationDate && { creationDate }),
-    };
-
-    await docClient.send(new PutCommand({
-      TableName: IMAGES_TABLE,
-      Item: imageMetadata,
-    }));
+  if (objectSize <= 0 || objectSize > maxSize) {
+    // Multipart parts are not size-limited by S3, so an oversized object can exist - remove it
+    await discardDirectUpload(image);
+    return errorResponse(400, `File too large. Maximum size: ${maxSize / (1024 * 1024)}MB`);
+  }
 
+  // Sniff the real format - only the start and end of the object are needed
+  const sample = await readObjectSample(image.s3Key, objectSize);
+  const contentCheck = checkImageContent(sample, image.mimetype);
+  if ('error' in contentCheck) {
     console.log(JSON.stringify({
-      level: 'info',
-      message: 'Metadata saved to DynamoDB',
+      level: 'warn',
+      message: 'Invalid file content',
       correlationId,
       imageId,
-      action: 'db_save',
+      declaredType: image.mimetype,
+      reason: contentCheck.error,
     }));
+    await discardDirectUpload(image);
+    return errorResponse(415, contentCheck.error);
+  }
 
-    // Step 3: Send message to SQS for analysis
-    const sqsMessage: ImageUploadMessage = {
-      imageId,
-      userId,
-      filename: storedFilename,
-      s3Key,
-      mimetype: contentType,
-      uploadedAt: now,
-      correlationId,
-      ...(latitude !== undefined && { latitude }),
-      ...(longitude !== undefined && { longitude }),
-      ...(creationDate && { creationDate }),
-    };
+  // The actual size is known now - reserve quota for it
+  const quota = await reserveQuota(image.userId, tier, objectSize);
+  if (!quota.allowed) {
+    await discardDirectUpload(image);
+    return errorResponse(403, quota.reason);
+  }
 
-    await sqsClient.send(new SendMessageCommand({
-      QueueUrl: QUEUE_URL,
-      MessageBody: JSON.stringify(sqsMessage),
-      // Message attributes for filtering/routing if needed later
-      MessageAttributes: {
-        imageId: {
-          DataType: 'String',
-          StringValue: imageId,
-        },
-        correlationId: {
-          DataType: 'String',
-          StringValue: correlationId,
-        },
+  // Flip status to 'uploaded' - the condition guards against completing twice
+  const now = new Date().toISOString();
+  let updatedImage: ImageMetadata;
+  try {
+    const updateResult = await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      UpdateExpression: 'SET #status = :uploaded, #size = :size, uploadedAt = :now REMOVE expiresAt, multipartUploadId',
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+        '#size': 'size',
       },
+      ExpressionAttributeValues: {
+        ':uploaded': 'uploaded',
+        ':pending': 'pending',
+        ':size': objectSize,
+        ':now': now,
+      },
+      ReturnValues: 'ALL_NEW',
     }));
+    updatedImage = updateResult.Attributes as ImageMetadata;
+  } catch (error) {
+    await releaseQuota(image.userId, objectSize);
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return errorResponse(409, 'Upload has already been completed');
+    }
+    throw error;
+  }
 
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Message sent to SQS',
-      correlationId,
-      imageId,
-      action: 'sqs_publish',
-    }));
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Direct upload verified',
+    correlationId,
+    imageId,
+    action: 'direct_upload_verified',
+    size: objectSize,
+  }));
 
-    // Build success response (matches original API response format)
-    const responseData: UploadResponseData = {
-      id: imageId,
-      userId,
-      filename: storedFilename,
-      originalName,
-      mimetype: contentType,
-      size: content.length,
-      uploadedAt: now,
-      path: `/api/images/${imageId}`,
-      ...(latitude !== undefined && { latitude }),
-      ...(longitude !== undefined && { longitude }),
-      ...(creationDate && { creationDate }),
-    };
+  await enqueueAnalysis(updatedImage, correlationId);
 
-    const response: ApiResponse<UploadResponseData> = {
-      success: true,
-      message: 'Image uploaded successfully',
-      data: responseData,
-    };
+  const response: ApiResponse<UploadResponseData> = {
+    success: true,
+    message: 'Image uploaded successfully',
+    data: toUploadResponseData(updatedImage),
+  };
 
-    console.log(JSON.stringify({
-      level: 'info',
-      message: 'Upload completed successfully',
-      correlationId,
-      imageId,
-      action: 'upload_complete',
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Upload completed successfully',
+    correlationId,
+    imageId,
+    action: 'upload_complete',
+  }));
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders(),
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Remove a rejected direct upload (S3 object and pending record)
+ */
+async function discardDirectUpload(image: ImageMetadata): Promise<void> {
+  await s3Client.send(new DeleteObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: image.s3Key,
+  }));
+  await docClient.send(new DeleteCommand({
+    TableName: IMAGES_TABLE,
+    Key: { imageId: image.imageId },
+  }));
+}
+
+/**
+ * Read the start and end of an S3 object for content sniffing
+ * Small objects are read whole; large ones with two ranged GETs
+ */
+async function readObjectSample(s3Key: string, objectSize: number): Promise<Buffer> {
+  const readRange = async (range?: string): Promise<Buffer> => {
+    const result = await s3Client.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: s3Key,
+      ...(range && { Range: range }),
     }));
+    return Buffer.from(await result.Body!.transformToByteArray());
+  };
+
+  if (objectSize <= POLYGLOT_SCAN_BYTES * 2) {
+    return readRange();
+  }
+
+  const [head, tail] = await Promise.all([
+    readRange(`bytes=0-${POLYGLOT_SCAN_BYTES - 1}`),
+    readRange(`bytes=-${POLYGLOT_SCAN_BYTES}`),
+  ]);
+  return Buffer.concat([head, tail]);
+}
+
+/**
+ * Check uploaded bytes against the type the client declared
+ * Returns the detected MIME type, or a client-facing error for unsupported,
+ * mismatched or polyglot files
+ */
+function checkImageContent(content: Buffer, declaredType: string): { mimetype: AllowedMimeType } | { error: string } {
+  const detectedType = detectImageType(content);
+  if (!detectedType) {
+    return { error: `Unsupported file content. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}` };
+  }
+
+  const claimedType = normalizeDeclaredType(declaredType);
+  if (claimedType && claimedType !== normalizeDeclaredType(detectedType)) {
+    return { error: `File content is ${detectedType} but was declared as ${declaredType}` };
+  }
+
+  const polyglotMarker = findPolyglotMarker(content);
+  if (polyglotMarker) {
+    return { error: `File rejected: ${polyglotMarker} found in image data` };
+  }
+
+  return { mimetype: detectedType };
+}
+
+/**
+ * Normalize a client-declared content type for comparison
+ * Returns null when the client made no real claim (missing or generic binary type)
+ */
+function normalizeDeclaredType(declaredType: string): string | null {
+  const type = declaredType.split(';')[0].trim().toLowerCase();
+  if (!type || type === 'application/octet-stream') {
+    return null;
+  }
+  // Common non-standard JPEG aliases
+  if (type === 'image/jpg' || type === 'image/pjpeg') {
+    return 'image/jpeg';
+  }
+  // Clients use the HEIC and HEIF types interchangeably (and add -sequence for bursts)
+  if (type === 'image/heif' || type === 'image/heic-sequence' || type === 'image/heif-sequence') {
+    return 'image/heic';
+  }
+  return type;
+}
+
+/**
+ * Build the upload response data (matches original API response format)
+ */
+function toUploadResponseData(image: ImageMetadata): UploadResponseData {
+  return {
+    id: image.imageId,
+    userId: image.userId,
+    filename: image.filename,
+    originalName: image.originalName,
+    mimetype: image.mimetype,
+    size: image.size,
+    uploadedAt: image.uploadedAt,
+    path: `/api/images/${image.imageId}`,
+    ...(image.latitude !== undefined && { latitude: image.latitude }),
+    ...(image.longitude !== undefined && { longitude: image.longitude }),
+    ...(image.creationDate && { creationDate: image.creationDate }),
+    ...(image.duplicateOf && { duplicateOf: image.duplicateOf }),
+    ...(image.version !== undefined && { version: image.version }),
+  };
+}
+
+/**
+ * Parse multipart/form-data from API Gateway event (single file upload)
+ * 
+ * Uses the last `image`/`file` part; text fields are the file's metadata.
+ */
+function parseMultipartFormData(event: APIGatewayProxyEvent): UploadedFile | null {
+  const parsed = parseMultipartParts(event);
+  if (!parsed) {
+    return null;
+  }
 
+  const fileData = parsed.files[parsed.files.length - 1];
+
+  // Return combined data if we found the file
+  if (fileData) {
     return {
-      statusCode: 201,
-      headers: corsHeaders(),
-      body: JSON.stringify(response),
+      ...fileData,
+      ...parseFileMetadata(parsed.fields, ''),
     };
+  }
 
-  } catch (error) {
-    console.error(JSON.stringify({
-      level: 'error',
-      message: 'Upload failed',
-      correlationId,
-      action: 'upload_error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-    }));
+  return null;
+}
 
-    return errorResponse(500, 'Failed to upload image');
+/**
+ * Parse multipart/form-data for a batch upload
+ * 
+ * Every `image`/`file` part is a file. Metadata for the file at position i
+ * comes from indexed fields (latitude[i], ...). A plain allowDuplicate field
+ * applies to every file that doesn't set its own.
+ */
+function parseBatchFormData(event: APIGatewayProxyEvent): UploadedFile[] | null {
+  const parsed = parseMultipartParts(event);
+  if (!parsed) {
+    return null;
   }
+
+  const defaults = parseFileMetadata(parsed.fields, '');
+
+  return parsed.files.map((file, index) => {
+    const metadata = parseFileMetadata(parsed.fields, `[${index}]`);
+    return {
+      ...file,
+      ...metadata,
+      allowDuplicate: metadata.allowDuplicate ?? defaults.allowDuplicate,
+    };
+  });
+}
+
+/**
+ * Read the optional metadata fields for one file
+ * suffix is '' for single uploads or '[i]' for the i-th file of a batch
+ */
+function parseFileMetadata(
+  fields: Record<string, string>,
+  suffix: string
+): Pick<UploadedFile, 'latitude' | 'longitude' | 'creationDate' | 'allowDuplicate'> {
+  const metadata: Pick<UploadedFile, 'latitude' | 'longitude' | 'creationDate' | 'allowDuplicate'> = {};
+
+  const latitude = fields[`latitude${suffix}`];
+  const longitude = fields[`longitude${suffix}`];
+  const creationDate = fields[`creationDate${suffix}`];
+  const allowDuplicate = fields[`allowDuplicate${suffix}`];
+
+  if (latitude !== undefined) metadata.latitude = parseLatitude(latitude);
+  if (longitude !== undefined) metadata.longitude = parseLongitude(longitude);
+  if (creationDate !== undefined) metadata.creationDate = parseCreationDate(creationDate);
+  if (allowDuplicate !== undefined) metadata.allowDuplicate = allowDuplicate === 'true' || allowDuplicate === '1';
+
+  return metadata;
 }
 
 /**
- * Parse multipart/form-data from API Gateway event
+ * Split multipart/form-data into file parts and text fields
  * 
  * API Gateway sends the request body as base64-encoded when binary media types are enabled.
- * We need to decode it and parse the multipart boundary to extract the file and optional metadata.
+ * We need to decode it and parse the multipart boundary to extract the files and text fields.
  */
-function parseMultipartFormData(event: APIGatewayProxyEvent): {
-  filename: string;
-  contentType: string;
-  content: Buffer;
-  latitude?: number;
-  longitude?: number;
-  creationDate?: string;
+function parseMultipartParts(event: APIGatewayProxyEvent): {
+  files: Array<{ filename: string; contentType: string; content: Buffer }>;
+  fields: Record<string, string>;
 } | null {
   if (!event.body) {
     return null;
@@ -333,9 +1988,9 @@ function parseMultipartFormData(event: APIGatewayProxyEvent): {
     partLengths: parts.map(p => p.length),
   }));
 
-  // Track file data and metadata fields
-  let fileData: { filename: string; contentType: string; content: Buffer } | null = null;
-  const metadata: { latitude?: number; longitude?: number; creationDate?: string } = {};
+  // Track file parts and text fields
+  const files: Array<{ filename: string; contentType: string; content: Buffer }> = [];
+  const fields: Record<string, string> = {};
 
   for (const part of parts) {
     // Parse headers from this part
@@ -395,11 +2050,11 @@ function parseMultipartFormData(event: APIGatewayProxyEvent): {
         cleanContent = cleanContent.slice(0, -2);
       }
 
-      fileData = {
+      files.push({
         filename,
         contentType: fileContentType,
         content: cleanContent,
-      };
+      });
     } else if (!filename) {
       // This is a text field (not a file)
       // Extract text value
@@ -410,35 +2065,11 @@ function parseMultipartFormData(event: APIGatewayProxyEvent): {
         textValue = textValue.slice(0, -2);
       }
 
-      // Parse metadata fields
-      if (fieldName === 'latitude') {
-        const lat = parseFloat(textValue);
-        if (!isNaN(lat) && lat >= -90 && lat <= 90) {
-          metadata.latitude = lat;
-        }
-      } else if (fieldName === 'longitude') {
-        const lon = parseFloat(textValue);
-        if (!isNaN(lon) && lon >= -180 && lon <= 180) {
-          metadata.longitude = lon;
-        }
-      } else if (fieldName === 'creationDate') {
-        // Validate ISO 8601 format
-        if (textValue && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(textValue)) {
-          metadata.creationDate = textValue;
-        }
-      }
+      fields[fieldName] = textValue;
     }
   }
 
-  // Return combined data if we found the file
-  if (fileData) {
-    return {
-      ...fileData,
-      ...metadata,
-    };
-  }
-
-  return null;
+  return { files, fields };
 }
 
 /**
@@ -482,6 +2113,33 @@ function splitByBoundary(buffer: Buffer, boundary: Buffer): Buffer[] {
   return parts;
 }
 
+/**
+ * Filename for a URL upload - the last path segment, or 'image' if there is none
+ */
+function getFilenameFromUrl(url: string): string {
+  const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+  if (!segment) {
+    return 'image';
+  }
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Parse request body
+ */
+function parseBody<T>(body: string | null): T | null {
+  if (!body) return null;
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Create error response with CORS headers
  */
@@ -505,7 +2163,7 @@ function corsHeaders(): Record<string, string> {
   return {
     'Content-Type': 'application/json',
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding',
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,X-Amz-Date,X-Amz-Security-Token,Accept,Accept-Encoding,Idempotency-Key',
     'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
   };
 }
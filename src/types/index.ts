@@ -24,6 +24,49 @@ export interface User {
   role: UserRole;
 }
 
+/**
+ * Quota tier - decides the default storage quota
+ * Guests are regular Cognito users with a guest_*@guidepost.guest email
+ */
+export type QuotaTier = 'guest' | UserRole;
+
+/**
+ * Per-user limit overrides and storage usage
+ * Stored in DynamoDB 'user_limits' table - users without a record get the defaults
+ */
+export interface UserLimits {
+  userId: string;           // Cognito sub - Primary Key in DynamoDB
+  maxUploadSize?: number;   // Largest file (bytes) allowed through the multipart upload flow
+  maxImages?: number;       // Quota override: number of stored images
+  maxTotalBytes?: number;   // Quota override: total bytes stored
+  imageCount?: number;      // Usage: images currently stored
+  totalBytes?: number;      // Usage: bytes currently stored
+  quotaTier?: QuotaTier;    // Tier seen on the user's last upload (for the admin view)
+  updatedAt?: string;       // ISO timestamp of the last change
+  updatedBy?: string;       // Admin who made the last change
+}
+
+/**
+ * Update user limits request data (admin only)
+ * A null value removes the override and restores the default
+ */
+export interface UpdateUserLimitsRequest {
+  maxUploadSize?: number | null;
+  maxImages?: number | null;
+  maxTotalBytes?: number | null;
+}
+
+/**
+ * Storage quota and current usage, as reported by GET /api/auth/me
+ */
+export interface QuotaUsage {
+  tier: QuotaTier;
+  imageCount: number;
+  totalBytes: number;
+  maxImages: number;
+  maxTotalBytes: number;
+}
+
 /**
  * JWT claims extracted from Cognito tokens
  * These claims are provided by API Gateway after token validation
@@ -123,10 +166,66 @@ export interface ImageMetadata {
   size: number;             // File size in bytes
   uploadedAt: string;       // ISO timestamp
   s3Key: string;            // S3 object key for retrieval
-  status: 'uploaded' | 'processing' | 'analyzed' | 'failed';
+  status: 'pending' | 'uploaded' | 'processing' | 'analyzed' | 'failed';
   latitude?: number;        // GPS latitude (optional)
   longitude?: number;       // GPS longitude (optional)
+  geohash?: string;         // Geohash of latitude/longitude - userId-geohash-index GSI (only set with both)
   creationDate?: string;    // When image was taken (optional, ISO 8601)
+  title?: string;           // User-defined title (PATCH /api/images/{imageId})
+  caption?: string;         // User-defined caption
+  tags?: string[];          // User-defined free-form tags
+  width?: number;           // Display width in pixels (from the image file)
+  height?: number;          // Display height in pixels (from the image file)
+  orientation?: number;     // EXIF orientation (1-8)
+  cameraMake?: string;      // EXIF camera make
+  cameraModel?: string;     // EXIF camera model
+  thumbnailKey?: string;    // S3 key of the thumbnail rendition (set after analysis)
+  previewKey?: string;      // S3 key of the preview rendition (set after analysis)
+  displayKey?: string;      // S3 key of the full-size rendition - only for formats browsers can't show (HEIC/HEIF/AVIF)
+  contentHash?: string;     // SHA-256 of the file (hex) - userId-contentHash-index GSI
+  duplicateOf?: string;     // imageId of an earlier image with identical content
+  sourceUrl?: string;       // URL the image was fetched from (POST /api/upload/url only)
+  version?: number;         // Current version number - absent means 1 (never replaced)
+  replacedAt?: string;      // When the current version was uploaded (ISO timestamp) - uploadedAt stays the first upload
+  versions?: ImageVersion[]; // Earlier versions, oldest first - the current one is the top-level fields
+  expiresAt?: number;       // TTL (epoch seconds) - only set while status is 'pending'
+  multipartUploadId?: string; // S3 multipart upload ID - only set while a multipart upload is pending
+  trashedAt?: string;       // When the image was moved to the trash (ISO timestamp) - userId-trashedAt-index GSI (only set while trashed)
+}
+
+/**
+ * An earlier version of an image's file, kept when the image is replaced
+ * Restoring a version reuses its S3 object, so several versions can share an s3Key
+ */
+export interface ImageVersion {
+  version: number;
+  filename: string;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  s3Key: string;
+  contentHash?: string;
+  uploadedAt: string;       // When this version was uploaded
+}
+
+// ============================================
+// IDEMPOTENCY
+// ============================================
+
+/**
+ * A request made with an Idempotency-Key header
+ * Stored in DynamoDB 'idempotency' table so retries get the original response
+ */
+export interface IdempotencyRecord {
+  idempotencyKey: string;   // Primary Key - `${userId}#${Idempotency-Key header}`
+  userId: string;
+  status: 'in_progress' | 'completed';
+  requestHash: string;      // SHA-256 fingerprint of the request - a reused key must send the same request
+  lockedUntil: number;      // Epoch ms - an in-progress record older than this was abandoned (e.g. Lambda timeout)
+  responseStatusCode?: number;
+  responseBody?: string;
+  createdAt: string;        // ISO timestamp
+  expiresAt: number;        // TTL (epoch seconds)
 }
 
 // ============================================
@@ -146,9 +245,134 @@ export interface ImageAnalysis {
   detectedText: string[];   // Text found in image (addresses, signs, etc.)
   status: 'pending' | 'processing' | 'completed' | 'failed';
   error?: string;           // Error message if failed
+  createdAt: string;        // ISO timestamp when the analysis started - set on every record, unlike analyzedAt
   analyzedAt?: string;      // ISO timestamp when analysis completed
 }
 
+/**
+ * Presigned download URLs of an image's file and renditions (?include=urls)
+ * Renditions that have not been generated are left out.
+ */
+export interface ImageUrls {
+  original: string;
+  thumb?: string;
+  preview?: string;
+  display?: string;
+  expiresAt: string;        // ISO timestamp when the URLs stop working
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+/**
+ * One entry of the search index: a term that occurs in an image's analysis
+ * Stored in DynamoDB 'search_index' table (imageId-term-index GSI finds an image's entries)
+ */
+export interface SearchPosting {
+  term: string;             // Primary Key - `${userId}#${stemmed term}` so a query only sees one user's images
+  imageId: string;          // Sort Key
+  weight: number;           // How strongly the term describes the image (field weight x term frequency)
+}
+
+/**
+ * One result of GET /api/search
+ * Highlighted text is HTML-escaped, with matching words wrapped in <mark></mark>
+ */
+export interface SearchResultData {
+  id: string;
+  score: number;
+  originalName: string;
+  title?: string;
+  uploadedAt: string;
+  path: string;
+  thumbnailPath?: string;
+  description: string;
+  keywords: string[];
+  detectedText: string[];
+  highlights: {
+    description?: string;
+    keywords?: string[];
+    detectedText?: string[];
+  };
+}
+
+// ============================================
+// ALBUMS
+// ============================================
+
+/**
+ * A named group of a user's images
+ * Stored in DynamoDB 'albums' table
+ */
+export interface Album {
+  albumId: string;          // UUID - Primary Key
+  userId: string;           // Owner's Cognito sub - for multi-tenancy
+  name: string;
+  description?: string;
+  coverImageId?: string;    // Image shown for the album - the first one added unless chosen
+  imageCount: number;
+  createdAt: string;        // ISO timestamp
+  updatedAt: string;        // ISO timestamp
+}
+
+/**
+ * Membership of an image in an album - an image can be in several albums
+ * Stored in DynamoDB 'album_images' table (imageId-albumId-index finds an image's albums)
+ */
+export interface AlbumImage {
+  albumId: string;          // Primary Key
+  imageId: string;          // Sort Key
+  userId: string;           // Owner of the album (and the image)
+  addedAt: string;          // ISO timestamp - album pages are newest first
+}
+
+// ============================================
+// SHARES
+// ============================================
+
+/**
+ * A share link - anyone with the token can view an image (with its analysis)
+ * or an album until the link expires or is revoked
+ * Stored in DynamoDB 'shares' table (targetId-index finds the shares of a deleted image or album)
+ */
+export interface Share {
+  shareId: string;          // Primary Key - the random token in the link
+  userId: string;           // Owner of the shared image or album
+  targetType: 'image' | 'album';
+  targetId: string;         // imageId or albumId
+  createdAt: string;        // ISO timestamp
+  expiresAt: number;        // TTL (epoch seconds) - expired shares stop working at once, DynamoDB removes them later
+  passwordHash?: string;    // scrypt hash (hex) - viewers must send the password
+  passwordSalt?: string;
+  maxViews?: number;        // Optional view limit
+  viewCount: number;
+  lastViewedAt?: string;    // ISO timestamp
+}
+
+// ============================================
+// ARCHIVES
+// ============================================
+
+/**
+ * A ZIP archive of images, built in the background
+ * Stored in DynamoDB 'archives' table; the ZIP itself goes to S3 under exports/
+ */
+export interface ArchiveJob {
+  archiveId: string;        // UUID - Primary Key
+  userId: string;           // Who asked for the archive
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  imageIds: string[];       // Chosen when the archive was requested
+  imageCount: number;
+  createdAt: string;        // ISO timestamp
+  expiresAt: number;        // TTL (epoch seconds) - the ZIP is expired from S3 by a lifecycle rule too
+  s3Key?: string;           // Set once completed
+  size?: number;            // ZIP size in bytes
+  skippedCount?: number;    // Images deleted before the archive was built
+  completedAt?: string;     // ISO timestamp
+  error?: string;           // Set if failed
+}
+
 // ============================================
 // SQS MESSAGE
 // ============================================
@@ -168,6 +392,17 @@ export interface ImageUploadMessage {
   latitude?: number;        // GPS latitude (optional)
   longitude?: number;       // GPS longitude (optional)
   creationDate?: string;    // When image was taken (optional, ISO 8601)
+  version?: number;         // Image version this message is for - stale messages are skipped
+  reanalyze?: boolean;      // Asked for again - call Bedrock even if identical content was analyzed
+}
+
+/**
+ * Message sent to SQS when an archive is requested
+ * Triggers the archive build Lambda
+ */
+export interface ArchiveMessage {
+  archiveId: string;
+  correlationId: string;
 }
 
 // ============================================
@@ -182,6 +417,7 @@ export interface ApiResponse<T> {
   message?: string;
   data?: T;
   error?: string;
+  nextCursor?: string | null; // Paginated lists only - pass as ?cursor= for the next page, null on the last page
 }
 
 /**
@@ -199,6 +435,272 @@ export interface UploadResponseData {
   latitude?: number;        // GPS latitude (optional)
   longitude?: number;       // GPS longitude (optional)
   creationDate?: string;    // When image was taken (optional, ISO 8601)
+  duplicateOf?: string;     // Set when the content matches an earlier image
+  version?: number;         // Current version - set once the image has been replaced
+}
+
+/**
+ * Outcome for one file of a batch upload
+ */
+export interface BatchUploadResult {
+  index: number;            // Position of the file in the request (0-based)
+  originalName: string;
+  success: boolean;
+  statusCode: number;       // What a single-file upload would have returned (201, 200 for duplicates, 4xx/5xx)
+  data?: UploadResponseData;
+  error?: string;
+}
+
+/**
+ * Batch upload response data
+ */
+export interface BatchUploadResponseData {
+  results: BatchUploadResult[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Presigned upload request data
+ * The client declares the file up front; the presigned POST enforces it
+ */
+export interface PresignedUploadRequest {
+  filename: string;
+  contentType: string;
+  size: number;
+  latitude?: number;
+  longitude?: number;
+  creationDate?: string;
+}
+
+/**
+ * Presigned upload response data
+ * The client POSTs the file to uploadUrl with all of the returned fields,
+ * then calls completePath to queue the image for analysis
+ */
+export interface PresignedUploadResponseData {
+  id: string;
+  uploadUrl: string;
+  fields: Record<string, string>;
+  expiresIn: number;        // Seconds until the presigned POST expires
+  completePath: string;     // API path to call once the upload has finished
+}
+
+/**
+ * URL upload request data
+ * The image is fetched server-side; filename defaults to the last path segment of the URL
+ */
+export interface UrlUploadRequest {
+  url: string;
+  filename?: string;
+  latitude?: number;
+  longitude?: number;
+  creationDate?: string;
+  allowDuplicate?: boolean;
+}
+
+/**
+ * Image metadata update - PATCH /api/images/{imageId}
+ * Only the fields sent are changed; null (or an empty value) clears an optional field
+ */
+export interface UpdateImageMetadataRequest {
+  originalName?: string;
+  title?: string | null;
+  caption?: string | null;
+  tags?: string[] | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  creationDate?: string | null;
+}
+
+/**
+ * Filters and sort order for GET /api/images (parsed from query string parameters)
+ * Date bounds are normalized to ISO timestamps; all bounds are inclusive
+ */
+export interface ImageListQuery {
+  statuses?: ImageMetadata['status'][];
+  uploadedFrom?: string;
+  uploadedTo?: string;
+  takenFrom?: string;       // creationDate bounds - images without one never match
+  takenTo?: string;
+  mimetypes?: string[];
+  minSize?: number;
+  maxSize?: number;
+  hasLocation?: boolean;
+  sort: ImageSortField;
+  order: 'asc' | 'desc';
+}
+
+/**
+ * An area for GET /api/images/within (degrees, bounds inclusive)
+ * west > east means the box crosses the antimeridian
+ */
+export interface GeoBoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * A circle for GET /api/images/near
+ */
+export interface GeoNearQuery {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+/**
+ * A group of nearby images on the map (GET /api/images/clusters)
+ */
+export interface ImageCluster {
+  latitude: number;         // Centroid of the images
+  longitude: number;
+  count: number;
+  imageId: string;          // Representative image - the newest with a thumbnail
+  thumbnailPath?: string;
+  bounds: GeoBoundingBox;   // Smallest box containing the images - zoom to it to split the cluster
+}
+
+/**
+ * Album fields - POST /api/albums (name, description) and PATCH /api/albums/{albumId}
+ * Only the fields sent are changed; null clears description and coverImageId
+ */
+export interface UpdateAlbumRequest {
+  name?: string;
+  description?: string | null;
+  coverImageId?: string | null;
+}
+
+/**
+ * Album as returned by the albums API
+ */
+export interface AlbumResponseData {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  imageCount: number;
+  coverImageId?: string;
+  coverPath?: string;       // Thumbnail of the cover image
+  imagesPath: string;       // API path listing the album's images
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Create a share link - POST /api/shares
+ * Exactly one of imageId and albumId
+ */
+export interface CreateShareRequest {
+  imageId?: string;
+  albumId?: string;
+  expiresInHours?: number;
+  password?: string;
+  maxViews?: number;
+}
+
+/**
+ * Share link as returned to its owner
+ */
+export interface ShareResponseData {
+  id: string;
+  targetType: Share['targetType'];
+  targetId: string;
+  url: string;              // Public link (no authentication needed)
+  createdAt: string;
+  expiresAt: string;        // ISO timestamp
+  passwordProtected: boolean;
+  maxViews?: number;
+  viewCount: number;
+  lastViewedAt?: string;
+}
+
+/**
+ * Bulk operation request
+ * Images are chosen by imageIds, or by a listing filter (the GET /api/images
+ * query parameters) one page of MAX_BULK_IMAGES at a time
+ */
+export interface BulkImagesRequest {
+  operation: BulkOperation;
+  imageIds?: string[];
+  filter?: Record<string, string>;
+  cursor?: string;          // nextCursor of the previous filtered request
+  tags?: string[];          // addTags
+  albumId?: string;         // addToAlbum
+}
+
+/**
+ * Outcome of a bulk operation for one image
+ * statusCode and error are what the single-image endpoint would have returned
+ */
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  statusCode: number;
+  error?: string;
+}
+
+/**
+ * Archive request - exactly one of imageIds, albumId and filter
+ * filter takes the GET /api/images query parameters
+ */
+export interface CreateArchiveRequest {
+  imageIds?: string[];
+  albumId?: string;
+  filter?: Record<string, string>;
+}
+
+/**
+ * Archive status as returned to the user
+ */
+export interface ArchiveResponseData {
+  id: string;
+  status: ArchiveJob['status'];
+  imageCount: number;
+  createdAt: string;
+  expiresAt: string;        // ISO timestamp
+  statusPath: string;       // API path to poll
+  size?: number;
+  skippedCount?: number;
+  completedAt?: string;
+  downloadUrl?: string;     // Presigned - only once completed
+  downloadExpiresAt?: string;
+  error?: string;
+}
+
+/**
+ * Multipart upload initiation request data
+ * Same shape as a presigned upload - the size decides how many parts are needed
+ */
+export type MultipartUploadRequest = PresignedUploadRequest;
+
+/**
+ * Multipart upload initiation response data
+ * Every part except the last must be exactly partSize bytes
+ */
+export interface MultipartUploadResponseData {
+  id: string;
+  partSize: number;
+  partCount: number;
+  partsPath: string;        // API path to get presigned URLs for parts
+  completePath: string;     // API path to call once all parts are uploaded
+  abortPath: string;        // API path to cancel the upload
+}
+
+/**
+ * Request presigned URLs for a set of parts
+ */
+export interface SignMultipartPartsRequest {
+  partNumbers: number[];
+}
+
+/**
+ * Complete a multipart upload - ETags come from each part's PUT response
+ */
+export interface CompleteMultipartUploadRequest {
+  parts: Array<{ partNumber: number; etag: string }>;
 }
 
 // ============================================
@@ -228,14 +730,238 @@ export const ALLOWED_MIME_TYPES = [
   'image/jpeg',
   'image/png', 
   'image/gif',
-  'image/webp'
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'image/avif'
 ] as const;
 
+export type AllowedMimeType = typeof ALLOWED_MIME_TYPES[number];
+
+/**
+ * Image types Bedrock accepts as-is
+ * Everything else is converted to JPEG before analysis
+ */
+export const BEDROCK_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+
+export type BedrockMediaType = typeof BEDROCK_MEDIA_TYPES[number];
+
+/**
+ * Image types every browser can display
+ * Other uploads (HEIC/HEIF/AVIF) get a full-size 'display' rendition
+ */
+export const BROWSER_MIME_TYPES: readonly string[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
 /**
  * Maximum file size (10MB)
  */
 export const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+/**
+ * Default time an Idempotency-Key is remembered (24 hours)
+ * Override with the IDEMPOTENCY_TTL_SECONDS environment variable
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Email domain of guest accounts (guest_*@guidepost.guest)
+ */
+export const GUEST_EMAIL_DOMAIN = '@guidepost.guest';
+
+/**
+ * Default storage quotas per tier
+ * Admins can override them per user with PUT /api/admin/users/{userId}/limits
+ */
+export const DEFAULT_QUOTAS: Record<QuotaTier, { maxImages: number; maxTotalBytes: number }> = {
+  guest: { maxImages: 20, maxTotalBytes: 100 * 1024 * 1024 },              // 20 images, 100MB
+  user: { maxImages: 1000, maxTotalBytes: 5 * 1024 * 1024 * 1024 },        // 1,000 images, 5GB
+  admin: { maxImages: 100000, maxTotalBytes: 1024 * 1024 * 1024 * 1024 },  // 100,000 images, 1TB
+};
+
+/**
+ * Page size of list endpoints when ?limit= is not given, and the largest allowed
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Fields GET /api/images can be sorted by
+ * uploadedAt is read in index order; the others are sorted in memory
+ */
+export const IMAGE_SORT_FIELDS = ['uploadedAt', 'creationDate', 'size', 'name'] as const;
+export type ImageSortField = typeof IMAGE_SORT_FIELDS[number];
+
+/**
+ * Most images a listing sorted in memory (any sort but uploadedAt, or by distance) may match
+ */
+export const MAX_SORTED_IMAGES = 10000;
+
+/**
+ * Largest radius of GET /api/images/near
+ */
+export const MAX_NEAR_RADIUS_KM = 1000;
+
+/**
+ * Map zoom levels GET /api/images/clusters accepts (web map zoom, 0 = whole world in one tile)
+ * and the most images one viewport may hold
+ */
+export const MAX_CLUSTER_ZOOM = 22;
+export const MAX_CLUSTERED_IMAGES = 20000;
+
+/**
+ * Most images one GET /api/images/export may hold
+ */
+export const MAX_EXPORT_IMAGES = 10000;
+
+/**
+ * Search limits - longer queries are truncated to the first MAX_SEARCH_TERMS terms
+ */
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Maximum number of files in one batch upload
+ * The whole request is still bound by API Gateway's 10MB payload limit
+ */
+export const MAX_BATCH_FILES = 20;
+
+/**
+ * Most versions kept for one image (keeps the DynamoDB item well under 400KB)
+ */
+export const MAX_IMAGE_VERSIONS = 100;
+
+/**
+ * Limits for user-defined image metadata
+ */
+export const MAX_ORIGINAL_NAME_LENGTH = 255;
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_CAPTION_LENGTH = 2000;
+export const MAX_TAGS = 50;
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Limits for albums
+ */
+export const MAX_ALBUM_NAME_LENGTH = 100;
+export const MAX_ALBUM_DESCRIPTION_LENGTH = 2000;
+export const MAX_ALBUMS_PER_USER = 1000;
+export const MAX_ALBUM_IMAGES_PER_REQUEST = 100;
+
+/**
+ * Operations of POST /api/images/bulk
+ * - delete: move to the trash (pending uploads are deleted at once)
+ * - reanalyze: queue the analysis again
+ * - addTags: add tags, keeping the ones an image has
+ * - addToAlbum: add to one of your albums
+ */
+export const BULK_OPERATIONS = ['delete', 'reanalyze', 'addTags', 'addToAlbum'] as const;
+
+export type BulkOperation = typeof BULK_OPERATIONS[number];
+
+/**
+ * Most images one bulk request may change
+ */
+export const MAX_BULK_IMAGES = 100;
+
+/**
+ * How long a presigned upload URL stays valid (15 minutes)
+ */
+export const PRESIGNED_UPLOAD_EXPIRY_SECONDS = 15 * 60;
+
+/**
+ * How long images stay in the trash before they are purged, unless TRASH_RETENTION_DAYS is set
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Most images purged by one DELETE /api/trash request - the rest are left for the next one
+ */
+export const MAX_TRASH_PURGE_PER_REQUEST = 100;
+
+/**
+ * How long share links last unless the owner says otherwise (7 days), and at most (90 days)
+ */
+export const DEFAULT_SHARE_EXPIRY_HOURS = 7 * 24;
+export const MAX_SHARE_EXPIRY_HOURS = 90 * 24;
+
+/**
+ * Limits for share link passwords and view limits
+ */
+export const MIN_SHARE_PASSWORD_LENGTH = 4;
+export const MAX_SHARE_PASSWORD_LENGTH = 128;
+export const MAX_SHARE_VIEWS = 1000000;
+
+/**
+ * Limits for ZIP archives - well below the 4GB and 65,535 entries of a ZIP without ZIP64
+ */
+export const MAX_ARCHIVE_IMAGES = 1000;
+export const MAX_ARCHIVE_BYTES = 2 * 1024 * 1024 * 1024;
+
+/**
+ * How long an archive can be downloaded (matches the exports/ lifecycle rule),
+ * and how long one download URL stays valid
+ */
+export const ARCHIVE_EXPIRY_HOURS = 24;
+export const ARCHIVE_URL_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * How long a pending upload record is kept before DynamoDB TTL removes it (24 hours)
+ */
+export const PENDING_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * How long a URL upload may take to download, redirects included (10 seconds)
+ */
+export const REMOTE_FETCH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Default maximum file size for multipart uploads (100MB)
+ * Admins can override this per user, up to MAX_MULTIPART_FILE_SIZE
+ */
+export const DEFAULT_MAX_UPLOAD_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Hard upper bound for a per-user upload size override (5GB)
+ */
+export const MAX_MULTIPART_FILE_SIZE = 5 * 1024 * 1024 * 1024;
+
+/**
+ * Part size for multipart uploads (10MB - S3 requires at least 5MB for all but the last part)
+ */
+export const MULTIPART_PART_SIZE = 10 * 1024 * 1024;
+
+/**
+ * S3 allows at most 10,000 parts per multipart upload
+ */
+export const MAX_MULTIPART_PARTS = 10000;
+
+/**
+ * Sizes that can be requested from GET /api/images/{imageId}
+ */
+export const IMAGE_SIZES = ['thumb', 'preview', 'display', 'original'] as const;
+
+export type ImageSize = typeof IMAGE_SIZES[number];
+
+/**
+ * What ?include= can add to image listings and /info
+ * - analysis: the image's analysis result (null if there is none)
+ * - urls: presigned download URLs, so a gallery needs no request per image
+ */
+export const IMAGE_INCLUDES = ['analysis', 'urls'] as const;
+
+export type ImageInclude = typeof IMAGE_INCLUDES[number];
+
+/**
+ * How long the presigned URLs of ?include=urls stay valid (15 minutes)
+ */
+export const IMAGE_URL_EXPIRY_SECONDS = 15 * 60;
+
+/**
+ * Longest edge of generated renditions, in pixels
+ */
+export const THUMBNAIL_MAX_DIMENSION = 256;
+export const PREVIEW_MAX_DIMENSION = 1280;
+
 /**
  * File extension mapping
  */
@@ -243,6 +969,9 @@ export const MIME_TO_EXTENSION: Record<string, string> = {
   'image/jpeg': '.jpg',
   'image/png': '.png',
   'image/gif': '.gif',
-  'image/webp': '.webp'
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'image/heif': '.heif',
+  'image/avif': '.avif'
 };
 
@@ -0,0 +1,272 @@
+/**
+ * Album Membership
+ *
+ * Albums live in the albums table; which images are in an album is one item
+ * per (albumId, imageId) in the album images table. An album keeps its
+ * imageCount and coverImageId up to date as images come and go, so album
+ * listings never have to read the memberships.
+ *
+ * Deleting an image removes it from every album it is in
+ * (removeImagesFromAlbums); deleting an account deletes its albums
+ * (deleteUserAlbums). The images in an album are never deleted with it.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  QueryCommandInput,
+  PutCommand,
+  DeleteCommand,
+  UpdateCommand,
+  BatchWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Album, AlbumImage } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const ALBUMS_TABLE = process.env.ALBUMS_TABLE!;
+const ALBUM_IMAGES_TABLE = process.env.ALBUM_IMAGES_TABLE!;
+
+// DynamoDB BatchWriteItem limit
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Add images to an album, updating its count and cover
+ * The images must already be checked to be the album owner's. Images already
+ * in the album keep their addedAt. Returns the updated album and the imageIds
+ * that were added, or undefined if the album was deleted meanwhile.
+ */
+export async function addImagesToAlbum(
+  album: Album,
+  imageIds: string[]
+): Promise<{ album: Album; added: string[] } | undefined> {
+  const { albumId } = album;
+  const addedAt = new Date().toISOString();
+  const added: string[] = [];
+  for (const imageId of imageIds) {
+    const item: AlbumImage = { albumId, imageId, userId: album.userId, addedAt };
+    try {
+      await docClient.send(new PutCommand({
+        TableName: ALBUM_IMAGES_TABLE,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(imageId)', // Already in the album - keep its addedAt
+      }));
+      added.push(imageId);
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+        throw error;
+      }
+    }
+  }
+
+  if (added.length === 0) {
+    return { album, added };
+  }
+
+  try {
+    const updated = await docClient.send(new UpdateCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId },
+      UpdateExpression: 'SET updatedAt = :now, coverImageId = if_not_exists(coverImageId, :cover) ADD imageCount :added',
+      ConditionExpression: 'attribute_exists(albumId)', // Don't recreate a deleted album
+      ExpressionAttributeValues: {
+        ':now': addedAt,
+        ':cover': added[0],
+        ':added': added.length,
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    return { album: updated.Attributes as Album, added };
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+
+  // The album was deleted meanwhile - remove the memberships that outlived it
+  await deleteAlbum(albumId);
+  return undefined;
+}
+
+/**
+ * Remove images from an album, updating its count and cover
+ * Returns the imageIds that were in the album.
+ */
+export async function removeAlbumImages(albumId: string, imageIds: string[]): Promise<string[]> {
+  const removed: string[] = [];
+  for (const imageId of imageIds) {
+    const result = await docClient.send(new DeleteCommand({
+      TableName: ALBUM_IMAGES_TABLE,
+      Key: { albumId, imageId },
+      ReturnValues: 'ALL_OLD',
+    }));
+    if (result.Attributes) {
+      removed.push(imageId);
+    }
+  }
+
+  if (removed.length === 0) {
+    return removed;
+  }
+
+  try {
+    const updated = await docClient.send(new UpdateCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId },
+      UpdateExpression: 'SET updatedAt = :now ADD imageCount :removed',
+      ConditionExpression: 'attribute_exists(albumId)',
+      ExpressionAttributeValues: {
+        ':removed': -removed.length,
+        ':now': new Date().toISOString(),
+      },
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    const album = updated.Attributes as Album;
+    if (album.coverImageId && removed.includes(album.coverImageId)) {
+      await replaceCover(albumId, album.coverImageId);
+    }
+  } catch (error) {
+    // The album itself was deleted meanwhile - nothing left to update
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Every imageId in an album, most recently added first
+ */
+export async function getAlbumImageIds(albumId: string): Promise<string[]> {
+  const memberships = await queryAll<Pick<AlbumImage, 'imageId'>>({
+    TableName: ALBUM_IMAGES_TABLE,
+    IndexName: 'albumId-addedAt-index',
+    KeyConditionExpression: 'albumId = :albumId',
+    ExpressionAttributeValues: { ':albumId': albumId },
+    ScanIndexForward: false,
+  });
+  return memberships.map(({ imageId }) => imageId);
+}
+
+/**
+ * Remove images from every album they are in
+ */
+export async function removeImagesFromAlbums(imageIds: string[]): Promise<void> {
+  for (const imageId of imageIds) {
+    const memberships = await queryAll<Pick<AlbumImage, 'albumId' | 'imageId'>>({
+      TableName: ALBUM_IMAGES_TABLE,
+      IndexName: 'imageId-albumId-index',
+      KeyConditionExpression: 'imageId = :imageId',
+      ExpressionAttributeValues: { ':imageId': imageId },
+    });
+
+    for (const { albumId } of memberships) {
+      await removeAlbumImages(albumId, [imageId]);
+    }
+  }
+}
+
+/**
+ * Delete an album and its memberships (not the images)
+ */
+export async function deleteAlbum(albumId: string): Promise<void> {
+  const memberships = await queryAll<Pick<AlbumImage, 'albumId' | 'imageId'>>({
+    TableName: ALBUM_IMAGES_TABLE,
+    KeyConditionExpression: 'albumId = :albumId',
+    ExpressionAttributeValues: { ':albumId': albumId },
+    ProjectionExpression: 'albumId, imageId',
+  });
+
+  for (let i = 0; i < memberships.length; i += BATCH_WRITE_SIZE) {
+    let pending = memberships.slice(i, i + BATCH_WRITE_SIZE)
+      .map(({ imageId }) => ({ DeleteRequest: { Key: { albumId, imageId } } }));
+
+    while (pending.length > 0) {
+      const result = await docClient.send(new BatchWriteCommand({
+        RequestItems: { [ALBUM_IMAGES_TABLE]: pending },
+      }));
+      pending = (result.UnprocessedItems?.[ALBUM_IMAGES_TABLE] || []) as typeof pending;
+    }
+  }
+
+  await docClient.send(new DeleteCommand({
+    TableName: ALBUMS_TABLE,
+    Key: { albumId },
+  }));
+}
+
+/**
+ * Delete every album of a user
+ * Returns the number of albums deleted.
+ */
+export async function deleteUserAlbums(userId: string): Promise<number> {
+  const albums = await queryAll<Pick<Album, 'albumId'>>({
+    TableName: ALBUMS_TABLE,
+    IndexName: 'userId-createdAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ProjectionExpression: 'albumId',
+  });
+
+  for (const { albumId } of albums) {
+    await deleteAlbum(albumId);
+  }
+  return albums.length;
+}
+
+/**
+ * Make the most recently added image the cover, in place of one that was removed
+ * Only if the cover is still the removed image - a cover chosen meanwhile is kept.
+ */
+async function replaceCover(albumId: string, removedImageId: string): Promise<void> {
+  const newest = await docClient.send(new QueryCommand({
+    TableName: ALBUM_IMAGES_TABLE,
+    IndexName: 'albumId-addedAt-index',
+    KeyConditionExpression: 'albumId = :albumId',
+    ExpressionAttributeValues: { ':albumId': albumId },
+    ScanIndexForward: false,
+    Limit: 1,
+  }));
+  const coverImageId = newest.Items?.[0]?.imageId as string | undefined;
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: ALBUMS_TABLE,
+      Key: { albumId },
+      UpdateExpression: coverImageId ? 'SET coverImageId = :cover' : 'REMOVE coverImageId',
+      ConditionExpression: 'coverImageId = :removed',
+      ExpressionAttributeValues: {
+        ':removed': removedImageId,
+        ...(coverImageId && { ':cover': coverImageId }),
+      },
+    }));
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Every item of a Query, following LastEvaluatedKey
+ */
+async function queryAll<T>(input: QueryCommandInput): Promise<T[]> {
+  const items: T[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...input,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    items.push(...(result.Items || []) as T[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
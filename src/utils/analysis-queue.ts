@@ -0,0 +1,103 @@
+/**
+ * Analysis Queue
+ *
+ * Images are analyzed by the analysis Lambda, which reads one SQS message per
+ * image. The upload Lambda queues every new file (enqueueAnalysis); bulk
+ * re-analysis queues finished images again (enqueueReanalysis) - those skip
+ * the reuse of an identical upload's analysis and always go to Bedrock.
+ */
+
+import { SQSClient, SendMessageCommand, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { ImageMetadata, ImageUploadMessage } from '../types';
+
+const sqsClient = new SQSClient({});
+
+const QUEUE_URL = process.env.QUEUE_URL!;
+
+// SQS SendMessageBatch limit
+const SEND_BATCH_SIZE = 10;
+
+/**
+ * Send an image to the SQS queue for analysis
+ */
+export async function enqueueAnalysis(image: ImageMetadata, correlationId: string): Promise<void> {
+  await sqsClient.send(new SendMessageCommand({
+    QueueUrl: QUEUE_URL,
+    MessageBody: JSON.stringify(toAnalysisMessage(image, correlationId)),
+    // Message attributes for filtering/routing if needed later
+    MessageAttributes: toMessageAttributes(image, correlationId),
+  }));
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Message sent to SQS',
+    correlationId,
+    imageId: image.imageId,
+    action: 'sqs_publish',
+  }));
+}
+
+/**
+ * Send analyzed images to the SQS queue to be analyzed again (in batches of 10)
+ * Returns the imageIds SQS did not accept.
+ */
+export async function enqueueReanalysis(images: ImageMetadata[], correlationId: string): Promise<string[]> {
+  const failed: string[] = [];
+
+  for (let i = 0; i < images.length; i += SEND_BATCH_SIZE) {
+    const batch = images.slice(i, i + SEND_BATCH_SIZE);
+    const result = await sqsClient.send(new SendMessageBatchCommand({
+      QueueUrl: QUEUE_URL,
+      // Batch entry IDs only need to be unique within the batch
+      Entries: batch.map((image, index) => ({
+        Id: String(index),
+        MessageBody: JSON.stringify({ ...toAnalysisMessage(image, correlationId), reanalyze: true }),
+        MessageAttributes: toMessageAttributes(image, correlationId),
+      })),
+    }));
+
+    for (const entry of result.Failed || []) {
+      failed.push(batch[Number(entry.Id)].imageId);
+    }
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Re-analysis messages sent to SQS',
+    correlationId,
+    action: 'sqs_publish_reanalysis',
+    imageCount: images.length,
+    failedCount: failed.length,
+  }));
+
+  return failed;
+}
+
+function toAnalysisMessage(image: ImageMetadata, correlationId: string): ImageUploadMessage {
+  return {
+    imageId: image.imageId,
+    userId: image.userId,
+    filename: image.filename,
+    s3Key: image.s3Key,
+    mimetype: image.mimetype,
+    uploadedAt: image.uploadedAt,
+    correlationId,
+    ...(image.latitude !== undefined && { latitude: image.latitude }),
+    ...(image.longitude !== undefined && { longitude: image.longitude }),
+    ...(image.creationDate && { creationDate: image.creationDate }),
+    ...(image.version !== undefined && { version: image.version }),
+  };
+}
+
+function toMessageAttributes(image: ImageMetadata, correlationId: string) {
+  return {
+    imageId: {
+      DataType: 'String',
+      StringValue: image.imageId,
+    },
+    correlationId: {
+      DataType: 'String',
+      StringValue: correlationId,
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Archive Manifest
+ *
+ * A ZIP archive holds the original files under images/ plus manifest.json and
+ * manifest.csv: for each file, the image's metadata and analysis - so the
+ * archive still makes sense offline.
+ *
+ * Files are named after the image's original name, made safe for every
+ * operating system and unique within the archive.
+ */
+
+import { ImageMetadata, ImageAnalysis } from '../types';
+import { toImageSummary } from './image-response';
+
+/**
+ * An image in the archive, with its analysis if there is one
+ */
+export interface ArchiveEntry {
+  file: string;             // Path in the archive
+  image: ImageMetadata;
+  analysis?: ImageAnalysis;
+}
+
+const CSV_COLUMNS = [
+  'file', 'id', 'originalName', 'title', 'caption', 'tags', 'mimetype', 'size', 'width', 'height',
+  'uploadedAt', 'creationDate', 'latitude', 'longitude', 'cameraMake', 'cameraModel',
+  'analysisStatus', 'description', 'keywords', 'detectedText', 'analyzedAt',
+] as const;
+
+/**
+ * Path of an image in the archive - usedNames (lowercase) keeps names unique
+ */
+export function getArchiveFileName(image: ImageMetadata, usedNames: Set<string>): string {
+  // Characters Windows or macOS refuse in file names
+  const name = (image.originalName || image.filename).replace(/[/\\:*?"<>|\x00-\x1f\x7f]/g, '_').trim() || image.imageId;
+
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  let file = `images/${name}`;
+  for (let n = 2; usedNames.has(file.toLowerCase()); n++) {
+    file = `images/${base} (${n})${extension}`;
+  }
+  usedNames.add(file.toLowerCase());
+
+  return file;
+}
+
+/**
+ * manifest.json - image metadata as returned by GET /api/images, with the analysis
+ */
+export function toManifestJson(entries: ArchiveEntry[], createdAt: string): string {
+  return JSON.stringify({
+    createdAt,
+    imageCount: entries.length,
+    images: entries.map(({ file, image, analysis }) => ({
+      file,
+      ...toImageSummary(image),
+      analysis: analysis
+        ? {
+          status: analysis.status,
+          description: analysis.description,
+          keywords: analysis.keywords,
+          detectedText: analysis.detectedText,
+          ...(analysis.analyzedAt && { analyzedAt: analysis.analyzedAt }),
+        }
+        : null,
+    })),
+  }, null, 2);
+}
+
+/**
+ * manifest.csv - one row per image, lists joined with '; '
+ */
+export function toManifestCsv(entries: ArchiveEntry[]): string {
+  const rows = entries.map(({ file, image, analysis }) => {
+    const row: Record<typeof CSV_COLUMNS[number], string | number | string[] | undefined> = {
+      file,
+      id: image.imageId,
+      originalName: image.originalName,
+      title: image.title,
+      caption: image.caption,
+      tags: image.tags,
+      mimetype: image.mimetype,
+      size: image.size,
+      width: image.width,
+      height: image.height,
+      uploadedAt: image.uploadedAt,
+      creationDate: image.creationDate,
+      latitude: image.latitude,
+      longitude: image.longitude,
+      cameraMake: image.cameraMake,
+      cameraModel: image.cameraModel,
+      analysisStatus: analysis?.status,
+      description: analysis?.description,
+      keywords: analysis?.keywords,
+      detectedText: analysis?.detectedText,
+      analyzedAt: analysis?.analyzedAt,
+    };
+    return CSV_COLUMNS.map((column) => toCsvField(row[column])).join(',');
+  });
+
+  // CRLF line endings (RFC 4180)
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function toCsvField(value: string | number | string[] | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  let text = Array.isArray(value) ? value.join('; ') : value;
+  // Spreadsheets run text starting with these as formulas
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
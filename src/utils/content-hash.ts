@@ -0,0 +1,48 @@
+/**
+ * Content Hashing
+ *
+ * Images are fingerprinted with a SHA-256 of their bytes so a user re-uploading
+ * the same photo can get the existing image back, and identical content is
+ * never sent to Bedrock twice.
+ *
+ * Hashes are per user: the userId-contentHash-index GSI only finds duplicates
+ * within one user's images.
+ */
+
+import { createHash } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ImageMetadata } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+
+/**
+ * SHA-256 of the image bytes (hex)
+ */
+export function hashContent(content: Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Find a user's images with the given content hash, oldest first
+ * Pending uploads never have a hash, so they are never returned
+ */
+export async function findImagesByContentHash(
+  userId: string,
+  contentHash: string
+): Promise<ImageMetadata[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: IMAGES_TABLE,
+    IndexName: 'userId-contentHash-index',
+    KeyConditionExpression: 'userId = :userId AND contentHash = :contentHash',
+    ExpressionAttributeValues: {
+      ':userId': userId,
+      ':contentHash': contentHash,
+    },
+  }));
+
+  const images = (result.Items || []) as ImageMetadata[];
+  return images.sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt));
+}
@@ -0,0 +1,165 @@
+/**
+ * Location Export
+ *
+ * Serializes geotagged images for GET /api/images/export: a GeoJSON
+ * FeatureCollection (RFC 7946) or a KML document, one point per image with
+ * its metadata and analysis as properties.
+ *
+ * The caller picks the images (the listing filters plus ?keyword=); this
+ * module only parses the export options and writes the file.
+ */
+
+import { ImageMetadata, ImageAnalysis } from '../types';
+
+export const EXPORT_FORMATS = ['geojson', 'kml'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+/**
+ * Export options on top of the listing filters
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  keywords?: string[];      // Lowercase - an image matches if any is one of its analysis keywords or tags
+}
+
+/**
+ * An image to export, with its analysis if there is one
+ */
+export interface ExportEntry {
+  image: ImageMetadata;
+  analysis?: ImageAnalysis;
+}
+
+/**
+ * Read ?format= and ?keyword= from query string parameters
+ * Returns the reason the parameters were refused, if they were
+ */
+export function parseExportOptions(params: Record<string, string | undefined> | null): ExportOptions | string {
+  const format = (params?.format || 'geojson') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return `Invalid format. Allowed: ${EXPORT_FORMATS.join(', ')}`;
+  }
+
+  const options: ExportOptions = { format };
+  if (params?.keyword) {
+    const keywords = params.keyword.split(',').map((keyword) => keyword.trim().toLowerCase()).filter(Boolean);
+    if (keywords.length === 0) {
+      return 'keyword must list at least one keyword';
+    }
+    options.keywords = keywords;
+  }
+
+  return options;
+}
+
+/**
+ * Whether an image has one of the keywords (analysis keywords and user tags, ignoring case)
+ */
+export function matchesKeywords(entry: ExportEntry, keywords: string[]): boolean {
+  const terms = [...(entry.analysis?.keywords || []), ...(entry.image.tags || [])]
+    .map((term) => term.toLowerCase());
+  return keywords.some((keyword) => terms.includes(keyword));
+}
+
+/**
+ * Serialize the entries in the requested format
+ * baseUrl (e.g. https://host/prod) turns image paths into absolute links
+ */
+export function serializeExport(format: ExportFormat, entries: ExportEntry[], baseUrl: string): string {
+  return format === 'kml' ? toKml(entries, baseUrl) : toGeoJson(entries, baseUrl);
+}
+
+/**
+ * Properties shared by both formats - absent values are left out
+ */
+function getProperties(entry: ExportEntry, baseUrl: string): Record<string, string | string[] | number> {
+  const { image, analysis } = entry;
+  const url = `${baseUrl}/api/images/${image.imageId}`;
+
+  return {
+    id: image.imageId,
+    originalName: image.originalName,
+    ...(image.title && { title: image.title }),
+    ...(image.caption && { caption: image.caption }),
+    ...(image.tags && { tags: image.tags }),
+    ...(image.creationDate && { creationDate: image.creationDate }),
+    uploadedAt: image.uploadedAt,
+    mimetype: image.mimetype,
+    ...(image.cameraMake && { cameraMake: image.cameraMake }),
+    ...(image.cameraModel && { cameraModel: image.cameraModel }),
+    ...(analysis?.status === 'completed' && {
+      description: analysis.description,
+      keywords: analysis.keywords,
+      detectedText: analysis.detectedText,
+    }),
+    url,
+    infoUrl: `${url}/info`,
+    ...(image.thumbnailKey && { thumbnailUrl: `${url}?size=thumb` }),
+  };
+}
+
+function toGeoJson(entries: ExportEntry[], baseUrl: string): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: entries.map((entry) => ({
+      type: 'Feature',
+      id: entry.image.imageId,
+      geometry: {
+        type: 'Point',
+        coordinates: [entry.image.longitude!, entry.image.latitude!], // GeoJSON order is longitude, latitude
+      },
+      properties: getProperties(entry, baseUrl),
+    })),
+  });
+}
+
+function toKml(entries: ExportEntry[], baseUrl: string): string {
+  const placemarks = entries.map((entry) => {
+    const { image, analysis } = entry;
+    const properties = getProperties(entry, baseUrl);
+    const description = analysis?.status === 'completed' ? analysis.description : image.caption;
+
+    const data = Object.entries(properties)
+      .map(([name, value]) =>
+        `        <Data name="${escapeXml(name)}"><value>${escapeXml(Array.isArray(value) ? value.join(', ') : String(value))}</value></Data>`)
+      .join('\n');
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(image.title || image.originalName)}</name>`,
+      ...(description ? [`      <description>${escapeXml(description)}</description>`] : []),
+      ...(image.creationDate ? [`      <TimeStamp><when>${escapeXml(image.creationDate)}</when></TimeStamp>`] : []),
+      '      <ExtendedData>',
+      data,
+      '      </ExtendedData>',
+      `      <Point><coordinates>${image.longitude},${image.latitude}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Images</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '') // Not allowed in XML 1.0, even escaped
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
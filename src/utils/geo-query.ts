@@ -0,0 +1,355 @@
+/**
+ * Location Queries
+ *
+ * Finds a user's images by position for GET /api/images/near (within a radius)
+ * and GET /api/images/within (inside a bounding box, e.g. a map viewport).
+ *
+ * The area is covered with a few geohash cells, each read from the
+ * userId-geohash-index with begins_with, and every image found is checked
+ * against the exact area. Matches (at most MAX_SORTED_IMAGES) are sorted by
+ * distance in memory - from the point, or from the center of the box - and
+ * the cursor records the distance and imageId of the last image returned.
+ *
+ * GET /api/images/clusters groups every image in a viewport on a grid whose
+ * cells shrink with the zoom level. The grid is anchored at (-180, -90), so
+ * panning the map doesn't move images between clusters. Admins without a
+ * userId cluster every user's images: there is no cross-user location index,
+ * so that reads the status partitions of the status-uploadedAt-index with the
+ * geohash cells as a filter.
+ *
+ * Images without both a latitude and a longitude have no geohash and are
+ * never found.
+ */
+
+import { QueryCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  ImageMetadata,
+  GeoBoundingBox,
+  GeoNearQuery,
+  ImageCluster,
+  MAX_NEAR_RADIUS_KM,
+  MAX_SORTED_IMAGES,
+  MAX_CLUSTER_ZOOM,
+  MAX_CLUSTERED_IMAGES,
+} from '../types';
+import { parseLatitude, parseLongitude } from './image-fields';
+import {
+  coverBoundingBox,
+  boundingBoxAround,
+  boundingBoxCenter,
+  isInBoundingBox,
+  distanceKm,
+} from './geohash';
+import { encodeCursor, decodeCursor, queryPage } from './pagination';
+import { LISTED_STATUSES } from './image-query';
+
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+
+// Queries per search - more cells fit the area better, but each is a Query
+const MAX_COVER_CELLS = 16;
+
+// Cluster cells per map tile side (4 = 64px cells on 256px tiles)
+const CLUSTER_CELLS_PER_TILE = 4;
+
+// All clustering needs of an image
+const CLUSTER_ATTRIBUTES = ['imageId', 'latitude', 'longitude', 'uploadedAt', 'thumbnailKey'];
+
+/**
+ * An image found by location, with its distance from the point searched around
+ */
+export type LocatedImage = ImageMetadata & { distanceKm: number };
+
+/**
+ * Outcome of a clustering query - the clusters, or an HTTP status and message
+ */
+export type ClusterResult =
+  | { imageCount: number; clusters: ImageCluster[] }
+  | { statusCode: number; error: string };
+
+/**
+ * Outcome of a location query - a page of images, or an HTTP status and message
+ */
+export type GeoQueryResult =
+  | { images: LocatedImage[]; nextCursor: string | null }
+  | { statusCode: number; error: string };
+
+/**
+ * Read ?lat=&lon=&radiusKm= for GET /api/images/near
+ * Returns the reason the parameters were refused, if they were
+ */
+export function parseNearQuery(params: Record<string, string | undefined> | null): GeoNearQuery | string {
+  const latitude = params?.lat ? parseLatitude(Number(params.lat)) : undefined;
+  const longitude = params?.lon ? parseLongitude(Number(params.lon)) : undefined;
+  if (latitude === undefined || longitude === undefined) {
+    return 'lat (-90 to 90) and lon (-180 to 180) are required';
+  }
+
+  const radiusKm = Number(params?.radiusKm);
+  if (!params?.radiusKm || !Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_NEAR_RADIUS_KM) {
+    return `radiusKm must be a number greater than 0 and at most ${MAX_NEAR_RADIUS_KM}`;
+  }
+
+  return { latitude, longitude, radiusKm };
+}
+
+/**
+ * Read ?north=&south=&east=&west= for GET /api/images/within
+ * Returns the reason the parameters were refused, if they were
+ */
+export function parseBoundingBox(params: Record<string, string | undefined> | null): GeoBoundingBox | string {
+  const north = params?.north ? parseLatitude(Number(params.north)) : undefined;
+  const south = params?.south ? parseLatitude(Number(params.south)) : undefined;
+  const east = params?.east ? parseLongitude(Number(params.east)) : undefined;
+  const west = params?.west ? parseLongitude(Number(params.west)) : undefined;
+  if (north === undefined || south === undefined || east === undefined || west === undefined) {
+    return 'north and south (-90 to 90) and east and west (-180 to 180) are required';
+  }
+  if (south > north) {
+    return 'south must not be greater than north';
+  }
+
+  return { north, south, east, west };
+}
+
+/**
+ * Read ?zoom= for GET /api/images/clusters (the viewport is read with parseBoundingBox)
+ * Returns the reason the parameter was refused, if it was
+ */
+export function parseZoom(params: Record<string, string | undefined> | null): number | string {
+  const zoom = Number(params?.zoom);
+  if (!params?.zoom || !Number.isInteger(zoom) || zoom < 0 || zoom > MAX_CLUSTER_ZOOM) {
+    return `zoom must be an integer from 0 to ${MAX_CLUSTER_ZOOM}`;
+  }
+  return zoom;
+}
+
+/**
+ * Group the images inside a viewport into clusters
+ * userId limits clustering to one user; undefined clusters every user's images (admins)
+ */
+export async function clusterImages(
+  userId: string | undefined,
+  box: GeoBoundingBox,
+  zoom: number
+): Promise<ClusterResult> {
+  const cells = coverBoundingBox(box, MAX_COVER_CELLS);
+  const candidates = userId
+    ? await findImagesInCells(userId, cells, MAX_CLUSTERED_IMAGES + 1, CLUSTER_ATTRIBUTES)
+    : await findAllImagesInCells(cells, MAX_CLUSTERED_IMAGES + 1, CLUSTER_ATTRIBUTES);
+
+  // Reading stopped at the cap, so the images past it are unknown - even if fewer are inside the box
+  if (candidates.length > MAX_CLUSTERED_IMAGES) {
+    return { statusCode: 400, error: `More than ${MAX_CLUSTERED_IMAGES} images in this area - zoom in` };
+  }
+  const images = candidates.filter((image) => isInBoundingBox(image.latitude!, image.longitude!, box));
+
+  // Square grid cells in degrees, a fraction of a map tile at this zoom
+  const cellSize = 360 / (2 ** zoom * CLUSTER_CELLS_PER_TILE);
+  const groups = new Map<string, ImageMetadata[]>();
+  for (const image of images) {
+    const x = Math.floor((image.longitude! + 180) / cellSize);
+    const y = Math.floor((image.latitude! + 90) / cellSize);
+    const key = `${x}:${y}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(image);
+    } else {
+      groups.set(key, [image]);
+    }
+  }
+
+  const clusters = [...groups.values()]
+    .map(toCluster)
+    .sort((a, b) => b.count - a.count || a.imageId.localeCompare(b.imageId));
+
+  return { imageCount: images.length, clusters };
+}
+
+/**
+ * One page of a user's images within a radius, nearest first
+ */
+export async function findImagesNear(
+  userId: string,
+  query: GeoNearQuery,
+  limit: number,
+  cursor?: string
+): Promise<GeoQueryResult> {
+  const { latitude, longitude, radiusKm } = query;
+  return findImagesInArea(
+    userId,
+    boundingBoxAround(latitude, longitude, radiusKm),
+    { latitude, longitude },
+    (image) => image.distanceKm <= radiusKm,
+    limit,
+    cursor
+  );
+}
+
+/**
+ * One page of a user's images inside a bounding box, nearest to its center first
+ */
+export async function findImagesWithin(
+  userId: string,
+  box: GeoBoundingBox,
+  limit: number,
+  cursor?: string
+): Promise<GeoQueryResult> {
+  return findImagesInArea(
+    userId,
+    box,
+    boundingBoxCenter(box),
+    (image) => isInBoundingBox(image.latitude!, image.longitude!, box),
+    limit,
+    cursor
+  );
+}
+
+/**
+ * Read every image in the cells covering a box, keep those that match, sort by distance from center
+ */
+async function findImagesInArea(
+  userId: string,
+  box: GeoBoundingBox,
+  center: { latitude: number; longitude: number },
+  matches: (image: LocatedImage) => boolean,
+  limit: number,
+  cursor?: string
+): Promise<GeoQueryResult> {
+  const key = cursor ? decodeCursor(cursor, ['distanceKm', 'imageId']) : undefined;
+  if (key === null || (key && (typeof key.distanceKm !== 'number' || typeof key.imageId !== 'string'))) {
+    return { statusCode: 400, error: 'Invalid cursor' };
+  }
+  const after = key ? { distanceKm: key.distanceKm as number, imageId: key.imageId as string } : undefined;
+
+  const candidates = await findImagesInCells(userId, coverBoundingBox(box, MAX_COVER_CELLS), MAX_SORTED_IMAGES + 1);
+  if (candidates.length > MAX_SORTED_IMAGES) {
+    return { statusCode: 400, error: `More than ${MAX_SORTED_IMAGES} images in this area - search a smaller one` };
+  }
+
+  const compare = (a: { distanceKm: number; imageId: string }, b: { distanceKm: number; imageId: string }) =>
+    a.distanceKm - b.distanceKm || a.imageId.localeCompare(b.imageId);
+
+  const located = candidates
+    .map((image) => ({
+      ...image,
+      distanceKm: Math.round(distanceKm(center.latitude, center.longitude, image.latitude!, image.longitude!) * 1000) / 1000,
+    }))
+    .filter(matches)
+    .sort(compare);
+
+  const first = after ? located.findIndex((image) => compare(image, after) > 0) : 0;
+  const page = first === -1 ? [] : located.slice(first, first + limit);
+  const last = page[page.length - 1];
+  const hasMore = first !== -1 && first + limit < located.length;
+
+  return {
+    images: page,
+    nextCursor: hasMore && last ? encodeCursor({ distanceKm: last.distanceKm, imageId: last.imageId }) : null,
+  };
+}
+
+/**
+ * Every listed image of a user whose geohash starts with one of the cells
+ * Stops after `max` images - callers refuse that many anyway
+ */
+async function findImagesInCells(
+  userId: string,
+  cells: string[],
+  max: number,
+  attributes?: string[]
+): Promise<ImageMetadata[]> {
+  const images: ImageMetadata[] = [];
+  const projection = buildProjection(attributes);
+
+  for (const cell of cells) {
+    const page = await queryPage<ImageMetadata>({
+      TableName: IMAGES_TABLE,
+      IndexName: 'userId-geohash-index',
+      KeyConditionExpression: 'userId = :userId AND begins_with(geohash, :cell)',
+      // Hide presigned uploads that have not been completed yet, and images in the trash
+      FilterExpression: '#status <> :pending AND attribute_not_exists(trashedAt)',
+      ...(projection && { ProjectionExpression: projection.expression }),
+      ExpressionAttributeNames: { '#status': 'status', ...projection?.names },
+      ExpressionAttributeValues: { ':userId': userId, ':cell': cell, ':pending': 'pending' },
+    }, max - images.length);
+
+    images.push(...page.items);
+    if (images.length >= max) {
+      break;
+    }
+  }
+
+  return images.filter((image) => image.latitude !== undefined && image.longitude !== undefined);
+}
+
+/**
+ * Every user's listed images whose geohash starts with one of the cells
+ * Reads the whole status-uploadedAt-index - the cells only filter what is returned
+ */
+async function findAllImagesInCells(cells: string[], max: number, attributes?: string[]): Promise<ImageMetadata[]> {
+  const images: ImageMetadata[] = [];
+  const projection = buildProjection(attributes);
+  const cellValues = Object.fromEntries(cells.map((cell, i) => [`:cell${i}`, cell]));
+
+  for (const status of LISTED_STATUSES) {
+    const input: QueryCommandInput = {
+      TableName: IMAGES_TABLE,
+      IndexName: 'status-uploadedAt-index',
+      KeyConditionExpression: '#status = :status',
+      FilterExpression: `(${cells.map((_, i) => `begins_with(geohash, :cell${i})`).join(' OR ')}) AND attribute_not_exists(trashedAt)`,
+      ...(projection && { ProjectionExpression: projection.expression }),
+      ExpressionAttributeNames: { '#status': 'status', ...projection?.names },
+      ExpressionAttributeValues: { ':status': status, ...cellValues },
+    };
+    const page = await queryPage<ImageMetadata>(input, max - images.length);
+
+    images.push(...page.items);
+    if (images.length >= max) {
+      break;
+    }
+  }
+
+  return images.filter((image) => image.latitude !== undefined && image.longitude !== undefined);
+}
+
+/**
+ * ProjectionExpression for a list of attributes (aliased - some attribute names are reserved words)
+ */
+function buildProjection(attributes?: string[]): { expression: string; names: Record<string, string> } | undefined {
+  if (!attributes) {
+    return undefined;
+  }
+  return {
+    expression: attributes.map((_, i) => `#attr${i}`).join(', '),
+    names: Object.fromEntries(attributes.map((attribute, i) => [`#attr${i}`, attribute])),
+  };
+}
+
+/**
+ * Summarize a group of images - centroid, extent and the newest image with a thumbnail
+ */
+function toCluster(images: ImageMetadata[]): ImageCluster {
+  const latitudes = images.map((image) => image.latitude!);
+  const longitudes = images.map((image) => image.longitude!);
+
+  const newestFirst = [...images].sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  const representative = newestFirst.find((image) => image.thumbnailKey) ?? newestFirst[0];
+
+  return {
+    latitude: round(latitudes.reduce((sum, value) => sum + value, 0) / images.length),
+    longitude: round(longitudes.reduce((sum, value) => sum + value, 0) / images.length),
+    count: images.length,
+    imageId: representative.imageId,
+    ...(representative.thumbnailKey && { thumbnailPath: `/api/images/${representative.imageId}?size=thumb` }),
+    bounds: {
+      north: round(latitudes.reduce((a, b) => Math.max(a, b))),
+      south: round(latitudes.reduce((a, b) => Math.min(a, b))),
+      east: round(longitudes.reduce((a, b) => Math.max(a, b))),
+      west: round(longitudes.reduce((a, b) => Math.min(a, b))),
+    },
+  };
+}
+
+function round(degrees: number): number {
+  return Math.round(degrees * 1e6) / 1e6;
+}
@@ -0,0 +1,188 @@
+/**
+ * Geohash
+ *
+ * A geohash encodes a position as a base32 string; every character narrows the
+ * cell, so positions close together usually share a prefix. Images store the
+ * geohash of their GPS position, and the userId-geohash-index answers "images
+ * in this cell" with a begins_with key condition.
+ *
+ * An area is searched by covering it with a few cells (coverBoundingBox) and
+ * checking the exact position of every image found in them.
+ */
+
+import { GeoBoundingBox } from '../types';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// 9 characters is a cell of about 5m x 5m
+export const GEOHASH_PRECISION = 9;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Geohash of a position
+ */
+export function encodeGeohash(latitude: number, longitude: number, precision = GEOHASH_PRECISION): string {
+  let latMin = -90, latMax = 90;
+  let lonMin = -180, lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Bits alternate longitude, latitude - starting with longitude
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      value = value * 2 + (longitude >= mid ? 1 : 0);
+      if (longitude >= mid) lonMin = mid; else lonMax = mid;
+    } else {
+      const mid = (latMin + latMax) / 2;
+      value = value * 2 + (latitude >= mid ? 1 : 0);
+      if (latitude >= mid) latMin = mid; else latMax = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Geohash cells (of one precision) covering a bounding box
+ * Uses the finest precision that needs at most maxCells cells - the whole world
+ * is 32 cells of one character, so larger boxes still get those.
+ */
+export function coverBoundingBox(box: GeoBoundingBox, maxCells: number): string[] {
+  // A box crossing the antimeridian is two boxes
+  const parts: GeoBoundingBox[] = box.west <= box.east
+    ? [box]
+    : [{ ...box, east: 180 }, { ...box, west: -180 }];
+
+  for (let precision = GEOHASH_PRECISION; precision > 1; precision--) {
+    const count = parts.reduce((total, part) => total + countCells(part, precision), 0);
+    if (count <= maxCells) {
+      return [...new Set(parts.flatMap((part) => listCells(part, precision)))];
+    }
+  }
+  return [...new Set(parts.flatMap((part) => listCells(part, 1)))];
+}
+
+/**
+ * The smallest bounding box containing a circle
+ */
+export function boundingBoxAround(latitude: number, longitude: number, radiusKm: number): GeoBoundingBox {
+  const angularRadius = radiusKm / EARTH_RADIUS_KM;
+  const angularDegrees = toDegrees(angularRadius);
+  const north = latitude + angularDegrees;
+  const south = latitude - angularDegrees;
+
+  // A circle around a pole covers every longitude
+  if (north >= 90 || south <= -90) {
+    return { north: Math.min(north, 90), south: Math.max(south, -90), west: -180, east: 180 };
+  }
+
+  const lonDelta = toDegrees(Math.asin(Math.sin(angularRadius) / Math.cos(toRadians(latitude))));
+  if (lonDelta >= 180) {
+    return { north, south, west: -180, east: 180 };
+  }
+
+  return { north, south, west: wrapLongitude(longitude - lonDelta), east: wrapLongitude(longitude + lonDelta) };
+}
+
+/**
+ * Whether a position is inside a bounding box (west > east crosses the antimeridian)
+ */
+export function isInBoundingBox(latitude: number, longitude: number, box: GeoBoundingBox): boolean {
+  if (latitude < box.south || latitude > box.north) {
+    return false;
+  }
+  return box.west <= box.east
+    ? longitude >= box.west && longitude <= box.east
+    : longitude >= box.west || longitude <= box.east;
+}
+
+/**
+ * Center of a bounding box
+ */
+export function boundingBoxCenter(box: GeoBoundingBox): { latitude: number; longitude: number } {
+  const width = box.west <= box.east ? box.east - box.west : box.east - box.west + 360;
+  return {
+    latitude: (box.north + box.south) / 2,
+    longitude: wrapLongitude(box.west + width / 2),
+  };
+}
+
+/**
+ * Great-circle distance between two positions (haversine)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Size of a cell: longitude gets the extra bit when the bit count is odd
+ */
+function cellSize(precision: number): { width: number; height: number } {
+  const bits = precision * 5;
+  return {
+    width: 360 / 2 ** Math.ceil(bits / 2),
+    height: 180 / 2 ** Math.floor(bits / 2),
+  };
+}
+
+/**
+ * Column and row ranges of the cells a (non-crossing) box touches
+ */
+function cellRange(box: GeoBoundingBox, precision: number) {
+  const { width, height } = cellSize(precision);
+  const columns = Math.round(360 / width);
+  const rows = Math.round(180 / height);
+  return {
+    width,
+    height,
+    x0: Math.min(columns - 1, Math.floor((box.west + 180) / width)),
+    x1: Math.min(columns - 1, Math.floor((box.east + 180) / width)),
+    y0: Math.min(rows - 1, Math.floor((box.south + 90) / height)),
+    y1: Math.min(rows - 1, Math.floor((box.north + 90) / height)),
+  };
+}
+
+function countCells(box: GeoBoundingBox, precision: number): number {
+  const { x0, x1, y0, y1 } = cellRange(box, precision);
+  return (x1 - x0 + 1) * (y1 - y0 + 1);
+}
+
+function listCells(box: GeoBoundingBox, precision: number): string[] {
+  const { width, height, x0, x1, y0, y1 } = cellRange(box, precision);
+  const cells: string[] = [];
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      // The center of a cell encodes to that cell
+      cells.push(encodeGeohash(-90 + (y + 0.5) * height, -180 + (x + 0.5) * width, precision));
+    }
+  }
+  return cells;
+}
+
+function wrapLongitude(longitude: number): number {
+  if (longitude > 180) return longitude - 360;
+  if (longitude < -180) return longitude + 360;
+  return longitude;
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
@@ -0,0 +1,157 @@
+/**
+ * Idempotency Keys
+ *
+ * Clients on flaky connections retry requests they never saw a response for.
+ * If they send an Idempotency-Key header, the first request claims the key and
+ * its response is stored; retries with the same key get that response back
+ * instead of running the request again.
+ *
+ * Keys are scoped per user and remembered for IDEMPOTENCY_TTL_SECONDS
+ * (DynamoDB TTL removes them afterwards).
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { IdempotencyRecord, DEFAULT_IDEMPOTENCY_TTL_SECONDS } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const IDEMPOTENCY_TABLE = process.env.IDEMPOTENCY_TABLE!;
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '', 10) || DEFAULT_IDEMPOTENCY_TTL_SECONDS;
+
+// An in-progress claim older than this was abandoned (longer than any upload Lambda timeout)
+const IN_PROGRESS_LOCK_MS = 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Result of trying to claim a key
+ * - acquired: first use - run the request, then save or release the key
+ * - completed: replay the stored response
+ * - in_progress: the first request is still running
+ * - mismatch: the key was already used for a different request
+ */
+export type IdempotencyClaim =
+  | { state: 'acquired' }
+  | { state: 'completed'; statusCode: number; body: string }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+/**
+ * Idempotency keys are opaque strings chosen by the client (usually a UUID)
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+/**
+ * Claim a key for a request
+ */
+export async function claimIdempotencyKey(
+  userId: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const idempotencyKey = `${userId}#${key}`;
+  const now = Date.now();
+
+  const record: IdempotencyRecord = {
+    idempotencyKey,
+    userId,
+    status: 'in_progress',
+    requestHash,
+    lockedUntil: now + IN_PROGRESS_LOCK_MS,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: Math.floor(now / 1000) + IDEMPOTENCY_TTL_SECONDS,
+  };
+
+  try {
+    // TTL deletion can lag by hours, so expired and abandoned records count as free too
+    await docClient.send(new PutCommand({
+      TableName: IDEMPOTENCY_TABLE,
+      Item: record,
+      ConditionExpression:
+        'attribute_not_exists(idempotencyKey) OR expiresAt < :nowSeconds OR (#status = :inProgress AND lockedUntil < :now)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':nowSeconds': Math.floor(now / 1000),
+        ':now': now,
+        ':inProgress': 'in_progress',
+      },
+    }));
+    return { state: 'acquired' };
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: IDEMPOTENCY_TABLE,
+    Key: { idempotencyKey },
+    ConsistentRead: true,
+  }));
+
+  const existing = result.Item as IdempotencyRecord | undefined;
+
+  // Released between our put and get - let the client retry
+  if (!existing) {
+    return { state: 'in_progress' };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { state: 'mismatch' };
+  }
+
+  if (existing.status === 'completed' && existing.responseStatusCode !== undefined) {
+    return {
+      state: 'completed',
+      statusCode: existing.responseStatusCode,
+      body: existing.responseBody ?? '',
+    };
+  }
+
+  return { state: 'in_progress' };
+}
+
+/**
+ * Store the response of a claimed request so retries can replay it
+ */
+export async function saveIdempotentResponse(
+  userId: string,
+  key: string,
+  statusCode: number,
+  body: string
+): Promise<void> {
+  await docClient.send(new UpdateCommand({
+    TableName: IDEMPOTENCY_TABLE,
+    Key: { idempotencyKey: `${userId}#${key}` },
+    UpdateExpression: 'SET #status = :completed, responseStatusCode = :statusCode, responseBody = :body',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':completed': 'completed',
+      ':statusCode': statusCode,
+      ':body': body,
+    },
+  }));
+}
+
+/**
+ * Give up a claimed key (the request failed) so a retry runs the request again
+ */
+export async function releaseIdempotencyKey(userId: string, key: string): Promise<void> {
+  try {
+    await docClient.send(new DeleteCommand({
+      TableName: IDEMPOTENCY_TABLE,
+      Key: { idempotencyKey: `${userId}#${key}` },
+      ConditionExpression: '#status = :inProgress',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':inProgress': 'in_progress' },
+    }));
+  } catch (error) {
+    // Already completed or gone - nothing to release
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Image Decoding
+ *
+ * Opens an uploaded image for processing with sharp, whatever its format.
+ *
+ * sharp's prebuilt libvips reads JPEG, PNG, GIF, WebP and AVIF, but leaves out
+ * the (patent-encumbered) HEVC decoder, so HEIC photos - the iPhone default -
+ * can't be opened directly. Those are decoded with libheif compiled to
+ * WebAssembly (heic-decode) and handed to sharp as raw pixels.
+ */
+
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+
+/**
+ * Open an image for processing
+ * Callers that need several outputs should clone() the returned instance.
+ */
+export async function openImage(content: Buffer, mimetype: string): Promise<sharp.Sharp> {
+  if (mimetype !== 'image/heic' && mimetype !== 'image/heif') {
+    return sharp(content);
+  }
+
+  let decoded: Awaited<ReturnType<typeof decodeHeic>>;
+  try {
+    decoded = await decodeHeic({ buffer: content });
+  } catch (error) {
+    // Generic HEIF files may be AV1-coded, which sharp reads itself
+    if (mimetype === 'image/heif') {
+      return sharp(content);
+    }
+    throw error;
+  }
+
+  // libheif applies the container's rotation/mirroring, so the pixels are already upright
+  return sharp(Buffer.from(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength), {
+    raw: { width: decoded.width, height: decoded.height, channels: 4 },
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Image Metadata Fields
+ *
+ * Validation for the metadata clients set on an image: at upload time (form
+ * fields or JSON) and afterwards with PATCH /api/images/{imageId}.
+ *
+ * The parse* helpers return undefined for an invalid value. Uploads ignore
+ * invalid optional fields; parseImageMetadataUpdate rejects the whole request.
+ */
+
+import {
+  UpdateImageMetadataRequest,
+  MAX_ORIGINAL_NAME_LENGTH,
+  MAX_TITLE_LENGTH,
+  MAX_CAPTION_LENGTH,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+} from '../types';
+
+const UPDATABLE_FIELDS: ReadonlyArray<keyof UpdateImageMetadataRequest> = [
+  'originalName', 'title', 'caption', 'tags', 'latitude', 'longitude', 'creationDate',
+];
+
+/**
+ * Parse a GPS latitude (-90 to 90) from a form field or JSON value
+ */
+export function parseLatitude(value: unknown): number | undefined {
+  const lat = typeof value === 'number' ? value : parseFloat(String(value));
+  return !isNaN(lat) && lat >= -90 && lat <= 90 ? lat : undefined;
+}
+
+/**
+ * Parse a GPS longitude (-180 to 180) from a form field or JSON value
+ */
+export function parseLongitude(value: unknown): number | undefined {
+  const lon = typeof value === 'number' ? value : parseFloat(String(value));
+  return !isNaN(lon) && lon >= -180 && lon <= 180 ? lon : undefined;
+}
+
+/**
+ * Parse a creation date, accepting only ISO 8601 timestamps
+ */
+export function parseCreationDate(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return value && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value) ? value : undefined;
+}
+
+/**
+ * Parse a display filename - no path separators or control characters
+ */
+export function parseOriginalName(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const name = value.trim();
+  return name && name.length <= MAX_ORIGINAL_NAME_LENGTH && !/[/\\\x00-\x1f\x7f]/.test(name)
+    ? name
+    : undefined;
+}
+
+/**
+ * Parse free text (title, caption) - trimmed, '' when empty
+ */
+export function parseText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text.length <= maxLength && !/[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/.test(text) ? text : undefined;
+}
+
+/**
+ * Parse a list of tags - each trimmed, duplicates (ignoring case) dropped
+ */
+export function parseTags(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length > MAX_TAGS) return undefined;
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    const tag = parseText(item, MAX_TAG_LENGTH);
+    if (!tag) return undefined;
+
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Validate a PATCH /api/images/{imageId} body
+ * Returns the normalized update (empty values become null), or the reason it was refused
+ */
+export function parseImageMetadataUpdate(body: Record<string, unknown>): UpdateImageMetadataRequest | string {
+  const unknownField = Object.keys(body).find(
+    (field) => !UPDATABLE_FIELDS.includes(field as keyof UpdateImageMetadataRequest)
+  );
+  if (unknownField) {
+    return `Unknown field: ${unknownField}. Allowed: ${UPDATABLE_FIELDS.join(', ')}`;
+  }
+
+  const update: UpdateImageMetadataRequest = {};
+
+  if (body.originalName !== undefined) {
+    const originalName = parseOriginalName(body.originalName);
+    if (originalName === undefined) {
+      return `originalName must be a filename of 1 to ${MAX_ORIGINAL_NAME_LENGTH} characters without path separators`;
+    }
+    update.originalName = originalName;
+  }
+
+  if (body.title !== undefined) {
+    const title = body.title === null ? '' : parseText(body.title, MAX_TITLE_LENGTH);
+    if (title === undefined) {
+      return `title must be a string of at most ${MAX_TITLE_LENGTH} characters`;
+    }
+    update.title = title || null;
+  }
+
+  if (body.caption !== undefined) {
+    const caption = body.caption === null ? '' : parseText(body.caption, MAX_CAPTION_LENGTH);
+    if (caption === undefined) {
+      return `caption must be a string of at most ${MAX_CAPTION_LENGTH} characters`;
+    }
+    update.caption = caption || null;
+  }
+
+  if (body.tags !== undefined) {
+    const tags = body.tags === null ? [] : parseTags(body.tags);
+    if (tags === undefined) {
+      return `tags must be an array of at most ${MAX_TAGS} non-empty strings of at most ${MAX_TAG_LENGTH} characters`;
+    }
+    update.tags = tags.length > 0 ? tags : null;
+  }
+
+  // A location is a pair - changing only one half would move the pin somewhere random
+  if ((body.latitude === undefined) !== (body.longitude === undefined)) {
+    return 'latitude and longitude must be sent together';
+  }
+  if (body.latitude === null || body.longitude === null) {
+    if (body.latitude !== null || body.longitude !== null) {
+      return 'latitude and longitude must be cleared together';
+    }
+    update.latitude = null;
+    update.longitude = null;
+  } else if (body.latitude !== undefined) {
+    const latitude = typeof body.latitude === 'number' ? parseLatitude(body.latitude) : undefined;
+    const longitude = typeof body.longitude === 'number' ? parseLongitude(body.longitude) : undefined;
+    if (latitude === undefined || longitude === undefined) {
+      return 'latitude must be a number from -90 to 90 and longitude a number from -180 to 180';
+    }
+    update.latitude = latitude;
+    update.longitude = longitude;
+  }
+
+  if (body.creationDate !== undefined) {
+    const creationDate = body.creationDate === null ? null : parseCreationDate(body.creationDate);
+    if (creationDate === undefined) {
+      return 'creationDate must be an ISO 8601 timestamp';
+    }
+    update.creationDate = creationDate;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return `No fields to update. Allowed: ${UPDATABLE_FIELDS.join(', ')}`;
+  }
+
+  return update;
+}
@@ -0,0 +1,181 @@
+/**
+ * Image Metadata Extraction
+ *
+ * Reads dimensions, orientation, camera, GPS and capture date from the image
+ * itself (EXIF, falling back to XMP) so we don't depend on clients sending
+ * them as separate form fields.
+ *
+ * sharp locates the EXIF/XMP blocks in JPEG, PNG, WebP and AVIF files; exifr decodes
+ * the EXIF block (a TIFF structure) including the GPS IFD. HEIC images reach
+ * sharp as decoded pixels (see image-decode), so exifr reads their EXIF from
+ * the original file instead.
+ */
+
+import sharp from 'sharp';
+import exifr from 'exifr';
+
+/**
+ * Metadata found in the image file
+ * Every field is optional - most images only carry some of them
+ */
+export interface ExtractedImageMetadata {
+  width?: number;           // Display width in pixels (EXIF orientation applied)
+  height?: number;          // Display height in pixels (EXIF orientation applied)
+  orientation?: number;     // EXIF orientation (1-8)
+  cameraMake?: string;
+  cameraModel?: string;
+  latitude?: number;
+  longitude?: number;
+  creationDate?: string;    // ISO 8601
+}
+
+// EXIF blocks from JPEG/WebP start with this header before the TIFF data
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+
+/**
+ * Extract metadata from image bytes
+ * Pass the image opened with openImage() when the file isn't one sharp reads directly.
+ */
+export async function extractImageMetadata(
+  content: Buffer,
+  image: sharp.Sharp = sharp(content)
+): Promise<ExtractedImageMetadata> {
+  const info = await image.metadata();
+  const result: ExtractedImageMetadata = {};
+
+  // Orientations 5-8 rotate the image by 90 degrees, so the displayed sides swap
+  const orientation = info.orientation;
+  const rotated = orientation !== undefined && orientation >= 5;
+  if (info.width && info.height) {
+    result.width = rotated ? info.height : info.width;
+    result.height = rotated ? info.width : info.height;
+  }
+  if (orientation) {
+    result.orientation = orientation;
+  }
+
+  if (info.exif) {
+    Object.assign(result, await parseExif(info.exif));
+  } else if (info.format === 'raw') {
+    // Decoded outside sharp - exifr finds the EXIF block in the original container itself
+    Object.assign(result, await parseExif(content));
+  }
+
+  if (info.xmp) {
+    // XMP only fills gaps left by EXIF
+    const xmp = parseXmp(info.xmp.toString('utf8'));
+    for (const [key, value] of Object.entries(xmp) as Array<[keyof ExtractedImageMetadata, never]>) {
+      if (result[key] === undefined) {
+        result[key] = value;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decode an EXIF block (or a whole HEIC file containing one)
+ */
+async function parseExif(exif: Buffer): Promise<ExtractedImageMetadata> {
+  const tiff = exif.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)
+    ? exif.subarray(EXIF_HEADER.length)
+    : exif;
+
+  const tags = await exifr.parse(tiff, {
+    tiff: true,
+    exif: true,
+    gps: true,
+    translateValues: false, // Keep Orientation numeric
+    reviveValues: true,     // Dates as Date objects
+  });
+
+  if (!tags) {
+    return {};
+  }
+
+  const result: ExtractedImageMetadata = {};
+
+  if (typeof tags.Make === 'string' && tags.Make.trim()) {
+    result.cameraMake = tags.Make.trim();
+  }
+  if (typeof tags.Model === 'string' && tags.Model.trim()) {
+    result.cameraModel = tags.Model.trim();
+  }
+
+  // exifr converts the GPS IFD's degrees/minutes/seconds into decimal latitude/longitude
+  if (isValidCoordinate(tags.latitude, 90) && isValidCoordinate(tags.longitude, 180)) {
+    result.latitude = tags.latitude;
+    result.longitude = tags.longitude;
+  }
+
+  const captured = tags.DateTimeOriginal || tags.CreateDate;
+  if (captured instanceof Date && !isNaN(captured.getTime())) {
+    result.creationDate = captured.toISOString();
+  }
+
+  return result;
+}
+
+/**
+ * Pull the fields we care about out of an XMP packet
+ * XMP properties can be written as attributes or as elements, so check both
+ */
+function parseXmp(xmp: string): ExtractedImageMetadata {
+  const result: ExtractedImageMetadata = {};
+
+  const make = readXmpValue(xmp, 'tiff:Make');
+  if (make) result.cameraMake = make;
+
+  const model = readXmpValue(xmp, 'tiff:Model');
+  if (model) result.cameraModel = model;
+
+  const latitude = parseXmpCoordinate(readXmpValue(xmp, 'exif:GPSLatitude'));
+  const longitude = parseXmpCoordinate(readXmpValue(xmp, 'exif:GPSLongitude'));
+  if (isValidCoordinate(latitude, 90) && isValidCoordinate(longitude, 180)) {
+    result.latitude = latitude;
+    result.longitude = longitude;
+  }
+
+  const captured = readXmpValue(xmp, 'exif:DateTimeOriginal')
+    || readXmpValue(xmp, 'photoshop:DateCreated')
+    || readXmpValue(xmp, 'xmp:CreateDate');
+  if (captured) {
+    const date = new Date(captured);
+    if (!isNaN(date.getTime())) {
+      result.creationDate = date.toISOString();
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a simple XMP property value
+ */
+function readXmpValue(xmp: string, name: string): string | undefined {
+  const escaped = name.replace(':', '\\:');
+  const match = xmp.match(new RegExp(`${escaped}="([^"]*)"`))
+    || xmp.match(new RegExp(`<${escaped}>([^<]*)</${escaped}>`));
+  const value = match?.[1].trim();
+  return value || undefined;
+}
+
+/**
+ * Parse an XMP GPS coordinate ("DDD,MM.mmk" or "DDD,MM,SSk" where k is N/S/E/W)
+ */
+function parseXmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return undefined;
+
+  const degrees = parseFloat(match[1]);
+  const minutes = parseFloat(match[2]);
+  const seconds = match[3] ? parseFloat(match[3]) : 0;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+
+  return /[SW]/i.test(match[4]) ? -decimal : decimal;
+}
+
+function isValidCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && !isNaN(value) && value >= -limit && value <= limit;
+}
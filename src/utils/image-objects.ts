@@ -0,0 +1,102 @@
+/**
+ * Image Objects
+ *
+ * An image is stored as several S3 objects: the original upload, the files of
+ * its earlier versions, and the renditions generated during analysis.
+ * Everything that removes images goes through here so no object is left behind.
+ *
+ * Shared by the analysis Lambda (rendition keys), purgeImage in utils/trash
+ * (single image delete) and the auth Lambda (account delete).
+ */
+
+import { S3Client, DeleteObjectsCommand } from '@aws-sdk/client-s3';
+import { ImageMetadata } from '../types';
+
+const s3Client = new S3Client({});
+
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+
+// S3 DeleteObjects supports up to 1000 keys at a time
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * S3 key for a generated rendition
+ * Renditions are kept apart from the originals under renditions/{userId}/{imageId}/.
+ * Replaced images get a folder per version, so analysis of an old version that is
+ * still running can't overwrite the new version's renditions.
+ */
+export function getRenditionKey(
+  userId: string,
+  imageId: string,
+  rendition: 'thumb' | 'preview' | 'display',
+  version = 1
+): string {
+  const folder = version > 1 ? `${imageId}/v${version}` : imageId;
+  return `renditions/${userId}/${folder}/${rendition}.webp`;
+}
+
+/**
+ * Fields that locate an image's S3 objects
+ */
+type ImageObjects = Pick<ImageMetadata, 's3Key' | 'thumbnailKey' | 'previewKey' | 'displayKey'>
+  & Partial<Pick<ImageMetadata, 'versions'>>;
+
+/**
+ * S3 key for one version of an image's file
+ * Version 1 keeps the key it was uploaded with; replacements get their own key
+ */
+export function getVersionKey(userId: string, imageId: string, version: number, extension: string): string {
+  return `images/${userId}/${imageId}-v${version}${extension}`;
+}
+
+/**
+ * All S3 keys that belong to an image
+ */
+export function getImageObjectKeys(image: ImageObjects): string[] {
+  const keys = [
+    image.s3Key,
+    image.thumbnailKey,
+    image.previewKey,
+    image.displayKey,
+    ...(image.versions ?? []).map((version) => version.s3Key),
+  ].filter((key): key is string => !!key);
+
+  // Restored versions share the S3 object of the version they came from
+  return [...new Set(keys)];
+}
+
+/**
+ * Bytes of original files stored for an image, counting shared objects once
+ * This is what the image counts against the user's storage quota.
+ */
+export function getStoredBytes(image: Pick<ImageMetadata, 's3Key' | 'size' | 'versions'>): number {
+  const sizes = new Map<string, number>([[image.s3Key, image.size]]);
+  for (const version of image.versions ?? []) {
+    sizes.set(version.s3Key, version.size);
+  }
+  return [...sizes.values()].reduce((total, size) => total + size, 0);
+}
+
+/**
+ * Delete the original and all renditions of the given images
+ * Returns the number of S3 objects deleted
+ */
+export async function deleteImageObjects(images: ImageObjects[]): Promise<number> {
+  const keys = images.flatMap(getImageObjectKeys);
+
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    const chunk = keys.slice(i, i + DELETE_BATCH_SIZE);
+    const result = await s3Client.send(new DeleteObjectsCommand({
+      Bucket: BUCKET_NAME,
+      Delete: { Objects: chunk.map((Key) => ({ Key })), Quiet: true },
+    }));
+
+    // DeleteObjects reports per-key failures instead of throwing
+    if (result.Errors && result.Errors.length > 0) {
+      const [first] = result.Errors;
+      throw new Error(`Failed to delete ${result.Errors.length} S3 object(s): ${first.Key} (${first.Code})`);
+    }
+  }
+
+  return keys.length;
+}
@@ -0,0 +1,418 @@
+/**
+ * Image Listing Queries
+ *
+ * Finds a page of images matching the filters of GET /api/images.
+ *
+ * - Upload date bounds are part of the key condition (both listing GSIs are
+ *   sorted by uploadedAt); every other filter is a FilterExpression
+ * - One user's images come from the userId-uploadedAt-index. Listings across all
+ *   users merge the requested partitions of the status-uploadedAt-index, so a
+ *   status filter just reads fewer partitions
+ * - sort=uploadedAt pages in index order. Other sorts have no index: every
+ *   match (at most MAX_SORTED_IMAGES) is read and sorted in memory, and the
+ *   cursor records the last sort value returned
+ */
+
+import { QueryCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  ImageMetadata,
+  ImageListQuery,
+  ImageSortField,
+  IMAGE_SORT_FIELDS,
+  ALLOWED_MIME_TYPES,
+  MAX_SORTED_IMAGES,
+} from '../types';
+import {
+  encodeCursor,
+  decodeCursor,
+  decodeMergedCursor,
+  queryPage,
+  mergedQueryPage,
+} from './pagination';
+
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+
+// Pending uploads are never listed
+export const LISTED_STATUSES: ImageMetadata['status'][] = ['uploaded', 'processing', 'analyzed', 'failed'];
+
+/**
+ * Outcome of a listing - a page of images, or an HTTP status and message
+ */
+export type ImageListResult =
+  | { images: ImageMetadata[]; nextCursor: string | null }
+  | { statusCode: number; error: string };
+
+/**
+ * Where an in-memory sorted page ended: the sort value and imageId of its last image
+ */
+interface SortedCursor {
+  sort: ImageSortField;
+  order: 'asc' | 'desc';
+  value: string | number | null;
+  imageId: string;
+}
+
+/**
+ * Read the listing filters from query string parameters
+ * Returns the reason the parameters were refused, if they were
+ */
+export function parseImageListQuery(params: Record<string, string | undefined> | null): ImageListQuery | string {
+  const sort = (params?.sort || 'uploadedAt') as ImageSortField;
+  if (!IMAGE_SORT_FIELDS.includes(sort)) {
+    return `Invalid sort. Allowed: ${IMAGE_SORT_FIELDS.join(', ')}`;
+  }
+
+  const order = params?.order || (sort === 'name' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    return 'Invalid order. Allowed: asc, desc';
+  }
+
+  const query: ImageListQuery = { sort, order };
+
+  if (params?.status) {
+    const statuses = splitList(params.status);
+    if (statuses.length === 0) {
+      return 'status must list at least one status';
+    }
+    const invalid = statuses.find((status) => !LISTED_STATUSES.includes(status as ImageMetadata['status']));
+    if (invalid) {
+      return `Invalid status: ${invalid}. Allowed: ${LISTED_STATUSES.join(', ')}`;
+    }
+    query.statuses = statuses as ImageMetadata['status'][];
+  }
+
+  if (params?.mimetype) {
+    const mimetypes = splitList(params.mimetype);
+    if (mimetypes.length === 0) {
+      return 'mimetype must list at least one type';
+    }
+    const invalid = mimetypes.find((mimetype) => !(ALLOWED_MIME_TYPES as readonly string[]).includes(mimetype));
+    if (invalid) {
+      return `Invalid mimetype: ${invalid}. Allowed: ${ALLOWED_MIME_TYPES.join(', ')}`;
+    }
+    query.mimetypes = mimetypes;
+  }
+
+  for (const [param, bound] of [
+    ['uploadedFrom', 'start'], ['uploadedTo', 'end'], ['takenFrom', 'start'], ['takenTo', 'end'],
+  ] as const) {
+    const value = params?.[param];
+    if (value !== undefined) {
+      const date = parseDateBound(value, bound);
+      if (!date) {
+        return `${param} must be an ISO 8601 date or timestamp`;
+      }
+      query[param] = date;
+    }
+  }
+
+  for (const param of ['minSize', 'maxSize'] as const) {
+    const value = params?.[param];
+    if (value !== undefined) {
+      const size = Number(value);
+      if (!Number.isInteger(size) || size < 0) {
+        return `${param} must be a non-negative integer (bytes)`;
+      }
+      query[param] = size;
+    }
+  }
+
+  if (params?.hasLocation !== undefined) {
+    if (params.hasLocation !== 'true' && params.hasLocation !== 'false') {
+      return 'hasLocation must be true or false';
+    }
+    query.hasLocation = params.hasLocation === 'true';
+  }
+
+  return query;
+}
+
+/**
+ * Find one page of images matching a listing query
+ * userId limits the listing to one user; undefined lists every user's images (admins)
+ */
+export async function findImages(
+  userId: string | undefined,
+  query: ImageListQuery,
+  limit: number,
+  cursor?: string
+): Promise<ImageListResult> {
+  if (query.sort === 'uploadedAt') {
+    return userId
+      ? findUserImages(userId, query, limit, cursor)
+      : findAllImages(query, limit, cursor);
+  }
+
+  let sortedCursor: SortedCursor | undefined;
+  if (cursor) {
+    const decoded = decodeSortedCursor(cursor, query);
+    if (!decoded) {
+      return { statusCode: 400, error: 'Invalid cursor' };
+    }
+    sortedCursor = decoded;
+  }
+
+  // Read every match in index order, then sort
+  const all = userId
+    ? await findUserImages(userId, query, MAX_SORTED_IMAGES + 1)
+    : await findAllImages(query, MAX_SORTED_IMAGES + 1);
+  if ('error' in all) {
+    return all;
+  }
+  if (all.images.length > MAX_SORTED_IMAGES) {
+    return {
+      statusCode: 400,
+      error: `More than ${MAX_SORTED_IMAGES} images match - add filters or sort by uploadedAt`,
+    };
+  }
+
+  const compare = (a: Pick<SortedCursor, 'value' | 'imageId'>, b: Pick<SortedCursor, 'value' | 'imageId'>) =>
+    compareSortValues(a.value, b.value, query.order) || a.imageId.localeCompare(b.imageId);
+
+  const sorted = all.images
+    .map((image) => ({ image, value: getSortValue(image, query.sort), imageId: image.imageId }))
+    .sort(compare);
+
+  const start = sortedCursor ? sorted.findIndex((entry) => compare(entry, sortedCursor!) > 0) : 0;
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+
+  return {
+    images: page.map(({ image }) => image),
+    nextCursor: hasMore && last
+      ? encodeSortedCursor({ sort: query.sort, order: query.order, value: last.value, imageId: last.imageId })
+      : null,
+  };
+}
+
+/**
+ * One user's images, in upload order, from the userId-uploadedAt-index
+ */
+async function findUserImages(
+  userId: string,
+  query: ImageListQuery,
+  limit: number,
+  cursor?: string
+): Promise<ImageListResult> {
+  const startKey = cursor ? decodeCursor(cursor, ['imageId', 'userId', 'uploadedAt']) : undefined;
+  if (startKey === null || (startKey && startKey.userId !== userId)) {
+    return { statusCode: 400, error: 'Invalid cursor' };
+  }
+
+  const filter = buildFilter(query, true);
+  const keyCondition = buildUploadedAtCondition(query);
+
+  const page = await queryPage<ImageMetadata>({
+    TableName: IMAGES_TABLE,
+    IndexName: 'userId-uploadedAt-index',
+    KeyConditionExpression: `userId = :userId${keyCondition.expression}`,
+    FilterExpression: filter.expression,
+    ExpressionAttributeNames: { ...filter.names, ...keyCondition.names },
+    ExpressionAttributeValues: { ':userId': userId, ...filter.values, ...keyCondition.values },
+    ScanIndexForward: query.order === 'asc',
+  }, limit, startKey);
+
+  return {
+    images: page.items,
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+}
+
+/**
+ * Every user's images, in upload order, merged from the status partitions of the status-uploadedAt-index
+ * (a Scan has no order, so its pages can't be sorted)
+ */
+async function findAllImages(
+  query: ImageListQuery,
+  limit: number,
+  cursor?: string
+): Promise<ImageListResult> {
+  const statuses = query.statuses ?? LISTED_STATUSES;
+  const keyAttributes = ['imageId', 'status', 'uploadedAt'];
+
+  const startKeys = cursor ? decodeMergedCursor(cursor, statuses, keyAttributes) : {};
+  if (!startKeys) {
+    return { statusCode: 400, error: 'Invalid cursor' };
+  }
+
+  const filter = buildFilter(query, false);
+  const keyCondition = buildUploadedAtCondition(query);
+
+  const partitions: Record<string, QueryCommandInput> = Object.fromEntries(statuses.map((status) => [status, {
+    TableName: IMAGES_TABLE,
+    IndexName: 'status-uploadedAt-index',
+    KeyConditionExpression: `#status = :status${keyCondition.expression}`,
+    FilterExpression: filter.expression,
+    ExpressionAttributeNames: { '#status': 'status', ...filter.names, ...keyCondition.names },
+    ExpressionAttributeValues: { ':status': status, ...filter.values, ...keyCondition.values },
+    ScanIndexForward: query.order === 'asc',
+  }]));
+
+  const page = await mergedQueryPage<ImageMetadata & Record<string, unknown>>(
+    partitions,
+    keyAttributes,
+    (a, b) => query.order === 'asc'
+      ? a.uploadedAt.localeCompare(b.uploadedAt)
+      : b.uploadedAt.localeCompare(a.uploadedAt),
+    limit,
+    startKeys
+  );
+
+  return {
+    images: page.items,
+    nextCursor: page.nextKey ? encodeCursor(page.nextKey) : null,
+  };
+}
+
+/**
+ * FilterExpression for everything except the upload date
+ * byUser: the index has every status, so statuses are filtered here (and pending hidden)
+ */
+function buildFilter(query: ImageListQuery, byUser: boolean): {
+  expression: string;
+  names: Record<string, string>;
+  values: Record<string, unknown>;
+} {
+  // Images in the trash are only shown by the trash listing
+  const conditions: string[] = ['attribute_not_exists(trashedAt)'];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+
+  if (byUser) {
+    names['#status'] = 'status';
+    if (query.statuses) {
+      conditions.push(`#status IN (${query.statuses.map((_, i) => `:status${i}`).join(', ')})`);
+      query.statuses.forEach((status, i) => { values[`:status${i}`] = status; });
+    } else {
+      // Hide presigned uploads that have not been completed yet
+      conditions.push('#status <> :pending');
+      values[':pending'] = 'pending';
+    }
+  }
+
+  if (query.mimetypes) {
+    conditions.push(`mimetype IN (${query.mimetypes.map((_, i) => `:mimetype${i}`).join(', ')})`);
+    query.mimetypes.forEach((mimetype, i) => { values[`:mimetype${i}`] = mimetype; });
+  }
+
+  if (query.takenFrom) {
+    conditions.push('creationDate >= :takenFrom');
+    values[':takenFrom'] = query.takenFrom;
+  }
+  if (query.takenTo) {
+    conditions.push('creationDate <= :takenTo');
+    values[':takenTo'] = query.takenTo;
+  }
+
+  if (query.minSize !== undefined || query.maxSize !== undefined) {
+    names['#size'] = 'size';
+  }
+  if (query.minSize !== undefined) {
+    conditions.push('#size >= :minSize');
+    values[':minSize'] = query.minSize;
+  }
+  if (query.maxSize !== undefined) {
+    conditions.push('#size <= :maxSize');
+    values[':maxSize'] = query.maxSize;
+  }
+
+  if (query.hasLocation !== undefined) {
+    conditions.push(query.hasLocation ? 'attribute_exists(latitude)' : 'attribute_not_exists(latitude)');
+  }
+
+  return {
+    expression: conditions.join(' AND '),
+    names,
+    values,
+  };
+}
+
+/**
+ * Key condition on the uploadedAt sort key, to append to the partition condition
+ */
+function buildUploadedAtCondition(query: ImageListQuery): {
+  expression: string;
+  names: Record<string, string>;
+  values: Record<string, unknown>;
+} {
+  const { uploadedFrom, uploadedTo } = query;
+  const names = { '#uploadedAt': 'uploadedAt' };
+
+  if (uploadedFrom && uploadedTo) {
+    return {
+      expression: ' AND #uploadedAt BETWEEN :uploadedFrom AND :uploadedTo',
+      names,
+      values: { ':uploadedFrom': uploadedFrom, ':uploadedTo': uploadedTo },
+    };
+  }
+  if (uploadedFrom) {
+    return { expression: ' AND #uploadedAt >= :uploadedFrom', names, values: { ':uploadedFrom': uploadedFrom } };
+  }
+  if (uploadedTo) {
+    return { expression: ' AND #uploadedAt <= :uploadedTo', names, values: { ':uploadedTo': uploadedTo } };
+  }
+  return { expression: '', names: {}, values: {} };
+}
+
+function getSortValue(image: ImageMetadata, sort: ImageSortField): string | number | null {
+  switch (sort) {
+    case 'creationDate': return image.creationDate ?? null;
+    case 'size': return image.size;
+    case 'name': return image.originalName.toLowerCase();
+    default: return image.uploadedAt;
+  }
+}
+
+/**
+ * Compare sort values in the requested order - missing values always sort last
+ */
+function compareSortValues(a: string | number | null, b: string | number | null, order: 'asc' | 'desc'): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true }); // photo2 before photo10
+  return order === 'asc' ? result : -result;
+}
+
+function encodeSortedCursor(cursor: SortedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode an in-memory sort cursor - only valid for the same sort and order
+ */
+function decodeSortedCursor(cursor: string, query: ImageListQuery): SortedCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as SortedCursor;
+    const valid = value && typeof value === 'object' &&
+      value.sort === query.sort && value.order === query.order &&
+      typeof value.imageId === 'string' &&
+      (value.value === null || typeof value.value === 'string' || typeof value.value === 'number');
+    return valid ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a date bound to an ISO timestamp
+ * A bare date (YYYY-MM-DD) covers the whole day: its start for a lower bound, its end for an upper one
+ */
+function parseDateBound(value: string, bound: 'start' | 'end'): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    value += bound === 'start' ? 'T00:00:00.000Z' : 'T23:59:59.999Z';
+  } else if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
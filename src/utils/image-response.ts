@@ -0,0 +1,155 @@
+/**
+ * Image Responses
+ *
+ * How images appear in API responses that list them: the summary of each
+ * image, and what ?include= adds to it (its analysis and presigned download
+ * URLs). Shared by the image listings, /info and album pages, so every
+ * gallery screen gets the same shape.
+ */
+
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, BatchGetCommandOutput } from '@aws-sdk/lib-dynamodb';
+import {
+  ImageMetadata,
+  ImageAnalysis,
+  ImageUrls,
+  IMAGE_INCLUDES,
+  ImageInclude,
+  IMAGE_URL_EXPIRY_SECONDS,
+} from '../types';
+
+const s3Client = new S3Client({});
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const BUCKET_NAME = process.env.BUCKET_NAME!;
+const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
+
+/**
+ * What ?include= adds to an image
+ */
+export interface ImageExtras {
+  analysis?: ImageAnalysis | null;
+  urls?: ImageUrls;
+}
+
+/**
+ * Image as returned by listings (matches the original API response format)
+ */
+export function toImageSummary(img: ImageMetadata) {
+  return {
+    id: img.imageId,
+    userId: img.userId,
+    filename: img.filename,
+    originalName: img.originalName,
+    mimetype: img.mimetype,
+    size: img.size,
+    uploadedAt: img.uploadedAt,
+    path: `/api/images/${img.imageId}`,
+    status: img.status,
+    ...(img.latitude !== undefined && { latitude: img.latitude }),
+    ...(img.longitude !== undefined && { longitude: img.longitude }),
+    ...(img.creationDate && { creationDate: img.creationDate }),
+    ...(img.title && { title: img.title }),
+    ...(img.caption && { caption: img.caption }),
+    ...(img.tags && { tags: img.tags }),
+    ...(img.width !== undefined && { width: img.width }),
+    ...(img.height !== undefined && { height: img.height }),
+    ...(img.orientation !== undefined && { orientation: img.orientation }),
+    ...(img.cameraMake && { cameraMake: img.cameraMake }),
+    ...(img.cameraModel && { cameraModel: img.cameraModel }),
+    ...(img.thumbnailKey && { thumbnailPath: `/api/images/${img.imageId}?size=thumb` }),
+    ...(img.previewKey && { previewPath: `/api/images/${img.imageId}?size=preview` }),
+    ...(img.displayKey && { displayPath: `/api/images/${img.imageId}?size=display` }),
+  };
+}
+
+/**
+ * Read ?include= - a comma-separated list of IMAGE_INCLUDES
+ * Returns the reason the parameter was refused, if it was
+ */
+export function parseIncludes(params: Record<string, string | undefined> | null): ImageInclude[] | string {
+  if (params?.include === undefined) {
+    return [];
+  }
+
+  const includes = [...new Set(params.include.split(',').map((include) => include.trim()).filter(Boolean))];
+  const invalid = includes.find((include) => !IMAGE_INCLUDES.includes(include as ImageInclude));
+  if (invalid) {
+    return `Invalid include: ${invalid}. Allowed: ${IMAGE_INCLUDES.join(', ')}`;
+  }
+  return includes as ImageInclude[];
+}
+
+/**
+ * What ?include= adds to each of the images, by imageId
+ * The analyses of a whole page come from one batch read, and presigning
+ * URLs needs no request, so a gallery page costs one round trip.
+ */
+export async function getImageExtras(
+  images: ImageMetadata[],
+  includes: ImageInclude[]
+): Promise<Map<string, ImageExtras>> {
+  const extras = new Map<string, ImageExtras>();
+  if (includes.length === 0 || images.length === 0) {
+    return extras;
+  }
+
+  const analyses = includes.includes('analysis')
+    ? await batchGetByImageId<ImageAnalysis>(ANALYSIS_TABLE, images.map((image) => image.imageId))
+    : undefined;
+  const expiresAt = new Date(Date.now() + IMAGE_URL_EXPIRY_SECONDS * 1000).toISOString();
+
+  for (const image of images) {
+    extras.set(image.imageId, {
+      ...(analyses && { analysis: analyses.get(image.imageId) ?? null }),
+      ...(includes.includes('urls') && { urls: await getImageUrls(image, expiresAt) }),
+    });
+  }
+  return extras;
+}
+
+/**
+ * Presigned URLs of an image's current file and its renditions
+ */
+export async function getImageUrls(image: ImageMetadata, expiresAt: string): Promise<ImageUrls> {
+  const sign = (key: string) => getSignedUrl(s3Client, new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+  }), {
+    expiresIn: IMAGE_URL_EXPIRY_SECONDS,
+  });
+
+  return {
+    original: await sign(image.s3Key),
+    ...(image.thumbnailKey && { thumb: await sign(image.thumbnailKey) }),
+    ...(image.previewKey && { preview: await sign(image.previewKey) }),
+    ...(image.displayKey && { display: await sign(image.displayKey) }),
+    expiresAt,
+  };
+}
+
+/**
+ * Read items keyed by imageId (in batches of 100), retrying unprocessed keys
+ */
+export async function batchGetByImageId<T>(tableName: string, imageIds: string[]): Promise<Map<string, T>> {
+  const items = new Map<string, T>();
+
+  for (let i = 0; i < imageIds.length; i += 100) {
+    let keys: Record<string, unknown>[] | undefined = imageIds.slice(i, i + 100).map((imageId) => ({ imageId }));
+
+    while (keys && keys.length > 0) {
+      const result: BatchGetCommandOutput = await docClient.send(new BatchGetCommand({
+        RequestItems: { [tableName]: { Keys: keys } },
+      }));
+
+      for (const item of result.Responses?.[tableName] || []) {
+        items.set(item.imageId as string, item as T);
+      }
+      keys = result.UnprocessedKeys?.[tableName]?.Keys;
+    }
+  }
+
+  return items;
+}
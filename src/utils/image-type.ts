@@ -0,0 +1,115 @@
+/**
+ * Image Type Detection
+ *
+ * Detects the real image format from the file signature ("magic bytes")
+ * instead of trusting the Content-Type the client sent, and flags polyglot
+ * files - images that are also valid HTML, PDF or ZIP files.
+ */
+
+import { AllowedMimeType } from '../types';
+
+/**
+ * How many leading bytes detectImageType() needs
+ * HEIF-family files list their brands in an 'ftyp' box, usually well under 64 bytes
+ */
+export const IMAGE_SIGNATURE_BYTES = 64;
+
+/**
+ * How many bytes at each end of a file findPolyglotMarker() should see
+ * A ZIP end-of-central-directory record sits within the last 64KB (+22 bytes) of the file
+ */
+export const POLYGLOT_SCAN_BYTES = 64 * 1024 + 22;
+
+// Markup that browsers or interpreters will execute if the file is ever served as text
+// Kept to 5+ characters so random compressed image data practically never matches
+const MARKUP_MARKERS = ['<script', '<html', '<iframe', '<svg xmlns', '<?php', '<!doctype html', 'javascript:'];
+
+// ISO base media file format brands of HEIF-family images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];  // HEVC-coded
+const AVIF_BRANDS = ['avif', 'avis'];                                  // AV1-coded
+const HEIF_BRANDS = ['mif1', 'msf1'];                                  // Generic - codec not stated
+
+/**
+ * Detect the image format from the file signature
+ * Returns null if the content is not one of the supported image formats
+ */
+export function detectImageType(content: Buffer): AllowedMimeType | null {
+  // JPEG: FF D8 FF
+  if (content.length >= 3 && content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) {
+    return 'image/jpeg';
+  }
+
+  // PNG: 89 50 4E 47 0D 0A 1A 0A
+  if (content.length >= 8 &&
+      content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+
+  // GIF: "GIF87a" or "GIF89a"
+  if (content.length >= 6) {
+    const header = content.subarray(0, 6).toString('latin1');
+    if (header === 'GIF87a' || header === 'GIF89a') {
+      return 'image/gif';
+    }
+  }
+
+  // WebP: "RIFF" <size> "WEBP"
+  if (content.length >= 12 &&
+      content.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      content.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+
+  // HEIC/HEIF/AVIF: <box size> "ftyp" <major brand> <minor version> <compatible brands...>
+  if (content.length >= 12 && content.subarray(4, 8).toString('latin1') === 'ftyp') {
+    return detectHeifType(content);
+  }
+
+  return null;
+}
+
+/**
+ * Tell HEIC, AVIF and generic HEIF apart by the brands in the 'ftyp' box
+ * The major brand comes first, so it wins over the compatible brands
+ */
+function detectHeifType(content: Buffer): AllowedMimeType | null {
+  const boxEnd = Math.min(content.readUInt32BE(0), content.length);
+  const brands = [content.subarray(8, 12).toString('latin1')];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(content.subarray(offset, offset + 4).toString('latin1'));
+  }
+
+  for (const brand of brands) {
+    if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+    if (AVIF_BRANDS.includes(brand)) return 'image/avif';
+  }
+
+  return brands.some((brand) => HEIF_BRANDS.includes(brand)) ? 'image/heif' : null;
+}
+
+/**
+ * Look for signs that an image is also another kind of file
+ * Returns a short description of what was found, or null if the file looks clean
+ */
+export function findPolyglotMarker(content: Buffer): string | null {
+  // Markup anywhere in the file (latin1 keeps a 1:1 byte mapping for binary data)
+  const text = content.toString('latin1').toLowerCase();
+  for (const marker of MARKUP_MARKERS) {
+    if (text.includes(marker)) {
+      return `embedded markup (${marker})`;
+    }
+  }
+
+  // PDF readers accept the header anywhere in the first 1KB
+  if (content.subarray(0, 1024).includes('%PDF-')) {
+    return 'embedded PDF header';
+  }
+
+  // ZIP (and JAR/DOCX/APK) archives are read from the end-of-central-directory record
+  const tail = content.subarray(Math.max(0, content.length - POLYGLOT_SCAN_BYTES));
+  if (tail.includes(Buffer.from([0x50, 0x4b, 0x05, 0x06]))) {
+    return 'embedded ZIP archive';
+  }
+
+  return null;
+}
@@ -0,0 +1,185 @@
+/**
+ * Cursor Pagination
+ *
+ * List endpoints return at most `limit` items plus a `nextCursor`; sending it
+ * back as `cursor` returns the next page. Cursors are base64url-encoded DynamoDB
+ * keys - clients must treat them as opaque.
+ *
+ * DynamoDB applies Limit before the FilterExpression and stops reading at 1MB,
+ * so a single Query can come back short (or empty) while more items exist.
+ * queryPage keeps reading until the page is full or the index is exhausted.
+ *
+ * Listings across all users can't Scan - a Scan has no order, so sorting its
+ * pages would only sort each page. Instead mergedQueryPage reads every status
+ * partition of a status-*-index GSI newest first and merges them; its cursor
+ * holds a position per partition.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, QueryCommandInput } from '@aws-sdk/lib-dynamodb';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+/**
+ * A DynamoDB key (table key plus index key attributes)
+ */
+export type PageKey = Record<string, string | number>;
+
+/**
+ * A page of items, and where the next one starts (undefined on the last page)
+ */
+export interface Page<T> {
+  items: T[];
+  nextKey?: PageKey;
+}
+
+/**
+ * Positions in a merged listing, by partition - null once a partition is exhausted
+ */
+export type MergedPageKey = Record<string, PageKey | null>;
+
+/**
+ * Read `limit` and `cursor` from query string parameters
+ * Returns the reason the parameters were refused, if they were
+ */
+export function parsePageParams(
+  params: Record<string, string | undefined> | null
+): { limit: number; cursor?: string } | string {
+  let limit = DEFAULT_PAGE_SIZE;
+  if (params?.limit !== undefined) {
+    limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`;
+    }
+  }
+
+  return { limit, ...(params?.cursor && { cursor: params.cursor }) };
+}
+
+export function encodeCursor(key: PageKey | MergedPageKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decode a cursor for a single Query
+ * Returns null unless it is a key with exactly the expected attributes
+ */
+export function decodeCursor(cursor: string, keyAttributes: readonly string[]): PageKey | null {
+  const value = decodeJson(cursor);
+  return isPageKey(value, keyAttributes) ? value : null;
+}
+
+/**
+ * Decode a cursor for a merged listing
+ * Returns null unless every entry is a known partition with a valid key (or null)
+ */
+export function decodeMergedCursor(
+  cursor: string,
+  partitions: readonly string[],
+  keyAttributes: readonly string[]
+): MergedPageKey | null {
+  const value = decodeJson(cursor);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  const valid = entries.every(([partition, key]) =>
+    partitions.includes(partition) && (key === null || isPageKey(key, keyAttributes)));
+
+  return valid ? value as MergedPageKey : null;
+}
+
+/**
+ * Run a Query until `limit` items have passed its filter or there are no more
+ */
+export async function queryPage<T>(
+  input: QueryCommandInput,
+  limit: number,
+  startKey?: PageKey
+): Promise<Page<T>> {
+  const items: T[] = [];
+  let exclusiveStartKey = startKey;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...input,
+      Limit: limit - items.length,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    items.push(...(result.Items || []) as T[]);
+    exclusiveStartKey = result.LastEvaluatedKey as PageKey | undefined;
+  } while (exclusiveStartKey && items.length < limit);
+
+  return { items, nextKey: exclusiveStartKey };
+}
+
+/**
+ * Read one page from several partitions sorted by the same key, merged into one order
+ *
+ * Each partition is read from its own position, the results merged with `compare`
+ * and the first `limit` kept. A partition's next position is the last item taken
+ * from it, so items read but not returned are read again for the next page.
+ */
+export async function mergedQueryPage<T extends Record<string, unknown>>(
+  partitions: Record<string, QueryCommandInput>,
+  keyAttributes: readonly string[],
+  compare: (a: T, b: T) => number,
+  limit: number,
+  startKeys: MergedPageKey = {}
+): Promise<{ items: T[]; nextKey?: MergedPageKey }> {
+  const open = Object.keys(partitions).filter((partition) => startKeys[partition] !== null);
+
+  const pages = await Promise.all(open.map(async (partition) => ({
+    partition,
+    page: await queryPage<T>(partitions[partition], limit, startKeys[partition] ?? undefined),
+  })));
+
+  const merged = pages
+    .flatMap(({ partition, page }) => page.items.map((item) => ({ partition, item })))
+    .sort((a, b) => compare(a.item, b.item))
+    .slice(0, limit);
+
+  const nextKeys: MergedPageKey = { ...startKeys };
+  for (const { partition, page } of pages) {
+    const taken = merged.filter((entry) => entry.partition === partition);
+
+    if (taken.length === page.items.length) {
+      // Everything read was returned - continue where the Query stopped
+      nextKeys[partition] = page.nextKey ?? null;
+    } else if (taken.length > 0) {
+      nextKeys[partition] = pickKey(taken[taken.length - 1].item, keyAttributes);
+    }
+  }
+
+  const exhausted = Object.keys(partitions).every((partition) => nextKeys[partition] === null);
+  return {
+    items: merged.map(({ item }) => item),
+    ...(!exhausted && { nextKey: nextKeys }),
+  };
+}
+
+function decodeJson(cursor: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function isPageKey(value: unknown, keyAttributes: readonly string[]): value is PageKey {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  return entries.length === keyAttributes.length &&
+    entries.every(([name, attribute]) =>
+      keyAttributes.includes(name) && (typeof attribute === 'string' || typeof attribute === 'number'));
+}
+
+function pickKey(item: Record<string, unknown>, keyAttributes: readonly string[]): PageKey {
+  return Object.fromEntries(keyAttributes.map((name) => [name, item[name] as string | number]));
+}
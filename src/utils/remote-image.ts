@@ -0,0 +1,254 @@
+/**
+ * Remote Image Fetching
+ *
+ * Downloads an image from a URL supplied by a client (POST /api/upload/url).
+ * Because the request is made from inside AWS, the URL must never be allowed
+ * to reach internal endpoints (SSRF):
+ * - Only http/https on the default ports, no credentials in the URL
+ * - Every resolved address must be public - private, loopback, link-local
+ *   (including the 169.254.169.254 metadata endpoint) and reserved ranges are refused
+ * - The check runs in the socket's DNS lookup, so the address that is validated
+ *   is the address that is connected to (no DNS rebinding window)
+ * - Redirects are followed manually and every hop is validated again
+ *
+ * Downloads are bounded by size and by a single deadline covering all hops.
+ */
+
+import { request as httpRequest, IncomingMessage, RequestOptions } from 'http';
+import { request as httpsRequest } from 'https';
+import { lookup, LookupAddress, LookupAllOptions } from 'dns';
+import { isIP, BlockList } from 'net';
+import { REMOTE_FETCH_TIMEOUT_MS } from '../types';
+
+const MAX_REDIRECTS = 3;
+const MAX_URL_LENGTH = 2048;
+
+const BLOCKED_ADDRESS_ERROR = 'BlockedAddressError';
+
+/**
+ * Outcome of a fetch - the body on success, an HTTP status and message otherwise
+ */
+export type RemoteImageResult =
+  | { content: Buffer; contentType: string; url: string }
+  | { statusCode: number; error: string };
+
+// Addresses a public URL has no business resolving to
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],         // "This" network
+  ['10.0.0.0', 8],        // Private
+  ['100.64.0.0', 10],     // Carrier-grade NAT
+  ['127.0.0.0', 8],       // Loopback
+  ['169.254.0.0', 16],    // Link-local (EC2/ECS metadata endpoints)
+  ['172.16.0.0', 12],     // Private
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.0.2.0', 24],      // Documentation
+  ['192.168.0.0', 16],    // Private
+  ['198.18.0.0', 15],     // Benchmarking
+  ['198.51.100.0', 24],   // Documentation
+  ['203.0.113.0', 24],    // Documentation
+  ['224.0.0.0', 4],       // Multicast
+  ['240.0.0.0', 4],       // Reserved + broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+// IPv6 outside global unicast (2000::/3) is refused separately - these are the
+// global unicast ranges that embed or tunnel to other addresses
+for (const [network, prefix] of [
+  ['2001::', 32],         // Teredo
+  ['2001:db8::', 32],     // Documentation
+  ['2002::', 16],         // 6to4
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+const globalUnicast = new BlockList();
+globalUnicast.addSubnet('2000::', 3, 'ipv6');
+
+/**
+ * Whether an IP address is a public unicast address
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return !blockedAddresses.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    return globalUnicast.check(address, 'ipv6') && !blockedAddresses.check(address, 'ipv6');
+  }
+  return false;
+}
+
+/**
+ * Download an image, following at most MAX_REDIRECTS redirects
+ */
+export async function fetchRemoteImage(url: string, maxBytes: number): Promise<RemoteImageResult> {
+  let target = parseRemoteUrl(url);
+  if (typeof target === 'string') {
+    return { statusCode: 400, error: target };
+  }
+
+  // One deadline for all hops and the body
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REMOTE_FETCH_TIMEOUT_MS);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await sendRequest(target, controller.signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects === MAX_REDIRECTS) {
+          return { statusCode: 502, error: `Too many redirects (max ${MAX_REDIRECTS})` };
+        }
+
+        const next = parseRemoteUrl(new URL(response.headers.location, target).toString());
+        if (typeof next === 'string') {
+          return { statusCode: 400, error: `Redirect refused: ${next}` };
+        }
+        target = next;
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return { statusCode: 502, error: `Remote server responded with HTTP ${status}` };
+      }
+
+      const declaredLength = Number(response.headers['content-length']);
+      if (declaredLength > maxBytes) {
+        response.destroy();
+        return { statusCode: 400, error: `File too large. Maximum size: ${maxBytes / (1024 * 1024)}MB` };
+      }
+
+      const content = await readBody(response, maxBytes);
+      if (!content) {
+        return { statusCode: 400, error: `File too large. Maximum size: ${maxBytes / (1024 * 1024)}MB` };
+      }
+
+      return {
+        content,
+        contentType: response.headers['content-type'] ?? '',
+        url: target.toString(),
+      };
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === BLOCKED_ADDRESS_ERROR) {
+      return { statusCode: 400, error: error.message };
+    }
+    if (controller.signal.aborted) {
+      return { statusCode: 504, error: `Timed out fetching the image (${REMOTE_FETCH_TIMEOUT_MS / 1000}s)` };
+    }
+    return {
+      statusCode: 502,
+      error: `Failed to fetch the image: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Validate a URL before any connection is made
+ * Returns the parsed URL, or the reason it was refused
+ */
+function parseRemoteUrl(url: string): URL | string {
+  if (url.length > MAX_URL_LENGTH) {
+    return `URL too long (max ${MAX_URL_LENGTH} characters)`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Only http and https URLs are allowed';
+  }
+  if (parsed.username || parsed.password) {
+    return 'URLs with credentials are not allowed';
+  }
+  if (parsed.port) {
+    return 'Only the default port is allowed';
+  }
+
+  // IP literals never go through DNS lookup, so check them here
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    return `Address not allowed: ${host}`;
+  }
+
+  return parsed;
+}
+
+/**
+ * Start a GET request and wait for the response headers
+ */
+function sendRequest(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const options: RequestOptions = {
+    method: 'GET',
+    headers: { Accept: 'image/*', 'User-Agent': 'image-service-url-ingest' },
+    lookup: publicOnlyLookup as RequestOptions['lookup'],
+    signal,
+  };
+
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = send(url, options, resolve);
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * DNS lookup used for the socket connection that refuses non-public addresses
+ * If any address of the host is non-public the whole host is refused.
+ */
+function publicOnlyLookup(
+  hostname: string,
+  options: LookupAllOptions | { all?: false; family?: number },
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      const refused = new Error(`Address not allowed: ${hostname} resolves to ${blocked?.address ?? 'nothing'}`);
+      refused.name = BLOCKED_ADDRESS_ERROR;
+      callback(refused, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Read a response body, giving up once it exceeds maxBytes
+ * Returns null if the body was too large
+ */
+async function readBody(response: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of response) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      response.destroy();
+      return null;
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,56 @@
+/**
+ * Image Renditions
+ *
+ * Generates the smaller versions of an image served by
+ * GET /api/images/{imageId}?size=thumb|preview so gallery views don't
+ * download the full-size original for every tile.
+ *
+ * Originals that browsers can't display (HEIC/HEIF/AVIF) also get a full-size
+ * 'display' rendition, served by ?size=display. The original is kept as uploaded.
+ *
+ * Renditions are WebP: small, widely supported, and unlike JPEG they keep
+ * transparency from PNG/GIF/WebP originals.
+ */
+
+import sharp from 'sharp';
+import { THUMBNAIL_MAX_DIMENSION, PREVIEW_MAX_DIMENSION, BROWSER_MIME_TYPES } from '../types';
+
+export const RENDITION_CONTENT_TYPE = 'image/webp';
+
+// Largest width/height WebP can encode
+const WEBP_MAX_DIMENSION = 16383;
+
+export interface Renditions {
+  thumb: Buffer;
+  preview: Buffer;
+  display?: Buffer;         // Only for originals browsers can't display
+}
+
+/**
+ * Generate the renditions for an image opened with openImage()
+ */
+export async function generateRenditions(image: sharp.Sharp, mimetype: string): Promise<Renditions> {
+  const needsDisplay = !BROWSER_MIME_TYPES.includes(mimetype);
+
+  const [thumb, preview, display] = await Promise.all([
+    resize(image, THUMBNAIL_MAX_DIMENSION, 75),
+    resize(image, PREVIEW_MAX_DIMENSION, 80),
+    needsDisplay ? resize(image, WEBP_MAX_DIMENSION, 90) : undefined,
+  ]);
+
+  return { thumb, preview, ...(display && { display }) };
+}
+
+async function resize(image: sharp.Sharp, maxDimension: number, quality: number): Promise<Buffer> {
+  return image
+    .clone()
+    .rotate() // Apply EXIF orientation - renditions don't keep the tag
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .webp({ quality })
+    .toBuffer();
+}
@@ -0,0 +1,292 @@
+/**
+ * Search Index
+ *
+ * An inverted index over image analyses for GET /api/search. Every stemmed
+ * term of an analysis' keywords, detected text and description is one item in
+ * the search index table, keyed by `${userId}#${term}` so a query reads one
+ * partition per term and only ever sees its own user's images.
+ *
+ * The analyze Lambda keeps the index in sync with the analysis table
+ * (updateSearchIndex); deleting an image or an account removes its entries
+ * (removeFromSearchIndex). Only completed analyses are indexed.
+ *
+ * Ranking is BM25 without length normalization: each matched term scores its
+ * idf (rare terms count more) times a saturating function of its weight in the
+ * image, and images matching more of the query's terms rank first.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { ImageAnalysis, SearchPosting, MAX_SEARCH_TERMS } from '../types';
+import { stem } from './stemmer';
+import { getUserLimitsRecord } from './user-limits';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const SEARCH_INDEX_TABLE = process.env.SEARCH_INDEX_TABLE!;
+
+// A keyword says more about an image than a word somewhere in its description
+const FIELD_WEIGHTS = { keywords: 3, detectedText: 2, description: 1 };
+
+// BM25 term frequency saturation
+const K1 = 1.2;
+
+// DynamoDB BatchWriteItem limit
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'there', 'this', 'to', 'was',
+  'were', 'with',
+]);
+
+/**
+ * A word of the text, normalized, with its position
+ */
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * An image matching a search, best first
+ */
+export interface SearchHit {
+  imageId: string;
+  score: number;
+}
+
+/**
+ * Split text into search terms: lowercase, accents removed, stemmed, stopwords dropped
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    tokens.push({ term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * The distinct terms of a search query, at most MAX_SEARCH_TERMS
+ */
+export function getSearchTerms(query: string): string[] {
+  return [...new Set(tokenize(query).map((token) => token.term))].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Weight of each term of an analysis - per field, the field weight dampened by repetition
+ */
+function getTermWeights(analysis: ImageAnalysis): Map<string, number> {
+  const fields: Record<keyof typeof FIELD_WEIGHTS, string[]> = {
+    keywords: analysis.keywords || [],
+    detectedText: analysis.detectedText || [],
+    description: analysis.description ? [analysis.description] : [],
+  };
+
+  const weights = new Map<string, number>();
+  for (const [field, texts] of Object.entries(fields) as Array<[keyof typeof FIELD_WEIGHTS, string[]]>) {
+    const counts = new Map<string, number>();
+    for (const token of texts.flatMap(tokenize)) {
+      counts.set(token.term, (counts.get(token.term) || 0) + 1);
+    }
+    for (const [term, count] of counts) {
+      const weight = FIELD_WEIGHTS[field] * (1 + Math.log(count));
+      weights.set(term, (weights.get(term) || 0) + weight);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Make an image's index entries match its analysis
+ * Entries for terms no longer in the analysis are deleted; anything but a
+ * completed analysis leaves the image with no entries.
+ */
+export async function updateSearchIndex(analysis: ImageAnalysis): Promise<void> {
+  const weights = analysis.status === 'completed' ? getTermWeights(analysis) : new Map<string, number>();
+  const prefix = `${analysis.userId}#`;
+  const existing = await getIndexedTerms(analysis.imageId);
+
+  const stale = existing.filter((term) => !term.startsWith(prefix) || !weights.has(term.slice(prefix.length)));
+  const postings: SearchPosting[] = [...weights].map(([term, weight]) => ({
+    term: prefix + term,
+    imageId: analysis.imageId,
+    weight: Math.round(weight * 1000) / 1000,
+  }));
+
+  await batchWrite([
+    ...stale.map((term) => ({ DeleteRequest: { Key: { term, imageId: analysis.imageId } } })),
+    ...postings.map((posting) => ({ PutRequest: { Item: posting } })),
+  ]);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Search index updated',
+    action: 'search_index_update',
+    imageId: analysis.imageId,
+    terms: postings.length,
+    removed: stale.length,
+  }));
+}
+
+/**
+ * Delete every index entry of the given images
+ */
+export async function removeFromSearchIndex(imageIds: string[]): Promise<void> {
+  for (const imageId of imageIds) {
+    const terms = await getIndexedTerms(imageId);
+    await batchWrite(terms.map((term) => ({ DeleteRequest: { Key: { term, imageId } } })));
+  }
+}
+
+/**
+ * Find a user's images matching any of the terms, ranked best first
+ */
+export async function searchIndex(userId: string, terms: string[]): Promise<SearchHit[]> {
+  const postingLists = await Promise.all(terms.map((term) => getPostings(`${userId}#${term}`)));
+
+  // Documents in the collection for idf - the user's image count, but never fewer than a term matches
+  const limits = await getUserLimitsRecord(userId);
+  const documentCount = Math.max(limits?.imageCount ?? 0, ...postingLists.map((postings) => postings.length));
+
+  const scores = new Map<string, { score: number; matched: number }>();
+  for (const postings of postingLists) {
+    const df = postings.length;
+    const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+
+    for (const { imageId, weight } of postings) {
+      const entry = scores.get(imageId) || { score: 0, matched: 0 };
+      entry.score += idf * (weight * (K1 + 1)) / (weight + K1);
+      entry.matched += 1;
+      scores.set(imageId, entry);
+    }
+  }
+
+  return [...scores]
+    .map(([imageId, { score, matched }]) => ({
+      imageId,
+      score: Math.round(score * (matched / terms.length) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.score - a.score || a.imageId.localeCompare(b.imageId));
+}
+
+/**
+ * HTML-escape text and wrap the words matching the terms in <mark></mark>
+ * With maxLength, only a window around the first match is returned.
+ * Returns undefined if nothing matches.
+ */
+export function highlight(text: string, terms: string[], maxLength?: number): string | undefined {
+  const matches = tokenize(text).filter((token) => terms.includes(token.term));
+  if (matches.length === 0) {
+    return undefined;
+  }
+
+  let start = 0;
+  let end = text.length;
+  if (maxLength && text.length > maxLength) {
+    start = Math.max(0, matches[0].start - Math.floor(maxLength / 4));
+    end = Math.min(text.length, start + maxLength);
+    start = Math.max(0, end - maxLength);
+  }
+
+  let result = start > 0 ? '…' : '';
+  let position = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    result += escapeHtml(text.slice(position, match.start)) +
+      `<mark>${escapeHtml(text.slice(match.start, match.end))}</mark>`;
+    position = match.end;
+  }
+  result += escapeHtml(text.slice(position, end)) + (end < text.length ? '…' : '');
+
+  return result;
+}
+
+/**
+ * Terms currently indexed for an image (with their user prefix)
+ */
+async function getIndexedTerms(imageId: string): Promise<string[]> {
+  const terms: string[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      IndexName: 'imageId-term-index',
+      KeyConditionExpression: 'imageId = :imageId',
+      ExpressionAttributeValues: { ':imageId': imageId },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    terms.push(...(result.Items || []).map((item) => item.term as string));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return terms;
+}
+
+/**
+ * Every entry for one term
+ */
+async function getPostings(term: string): Promise<SearchPosting[]> {
+  const postings: SearchPosting[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      TableName: SEARCH_INDEX_TABLE,
+      KeyConditionExpression: 'term = :term',
+      ExpressionAttributeValues: { ':term': term },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    postings.push(...(result.Items || []) as SearchPosting[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return postings;
+}
+
+/**
+ * Write requests in batches of 25, retrying anything DynamoDB leaves unprocessed
+ */
+async function batchWrite(
+  requests: NonNullable<BatchWriteCommandInput['RequestItems']>[string]
+): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let pending = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(`Search index write left ${pending.length} items unprocessed`);
+      }
+      if (attempt > 1) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+
+      const result = await docClient.send(new BatchWriteCommand({
+        RequestItems: { [SEARCH_INDEX_TABLE]: pending },
+      }));
+      pending = result.UnprocessedItems?.[SEARCH_INDEX_TABLE] || [];
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,134 @@
+/**
+ * Share Links
+ *
+ * A share is an unguessable token in the shares table that lets anyone who
+ * has the link view one image (with its analysis) or one album, without
+ * signing in. Shares expire (expiresAt is also the table's TTL), can be
+ * password protected and can be limited to a number of views.
+ *
+ * Passwords are stored as salted scrypt hashes. Deleting an image or album
+ * deletes its shares (deleteSharesFor); deleting an account deletes every
+ * share the user made (deleteUserShares).
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  QueryCommandInput,
+  BatchWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { Share } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const SHARES_TABLE = process.env.SHARES_TABLE!;
+
+// 24 random bytes - 32 characters in the link
+const TOKEN_BYTES = 24;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+// DynamoDB BatchWriteItem limit
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * New share token (URL-safe)
+ */
+export function createShareToken(): string {
+  return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hash a share password with a new salt
+ */
+export function hashSharePassword(password: string): Pick<Share, 'passwordHash' | 'passwordSalt'> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  return {
+    passwordHash: scryptSync(password, salt, HASH_BYTES).toString('hex'),
+    passwordSalt: salt,
+  };
+}
+
+/**
+ * Whether the password opens the share (always true without a password)
+ */
+export function verifySharePassword(share: Share, password: string | undefined): boolean {
+  if (!share.passwordHash || !share.passwordSalt) {
+    return true;
+  }
+  if (!password) {
+    return false;
+  }
+
+  const expected = Buffer.from(share.passwordHash, 'hex');
+  const actual = scryptSync(password, share.passwordSalt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Delete the shares of images or albums
+ */
+export async function deleteSharesFor(targetIds: string[]): Promise<void> {
+  for (const targetId of targetIds) {
+    const shares = await queryAll<Pick<Share, 'shareId'>>({
+      TableName: SHARES_TABLE,
+      IndexName: 'targetId-index',
+      KeyConditionExpression: 'targetId = :targetId',
+      ExpressionAttributeValues: { ':targetId': targetId },
+    });
+    await deleteShares(shares.map(({ shareId }) => shareId));
+  }
+}
+
+/**
+ * Delete every share a user made
+ * Returns the number of shares deleted.
+ */
+export async function deleteUserShares(userId: string): Promise<number> {
+  const shares = await queryAll<Pick<Share, 'shareId'>>({
+    TableName: SHARES_TABLE,
+    IndexName: 'userId-createdAt-index',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId },
+    ProjectionExpression: 'shareId',
+  });
+
+  await deleteShares(shares.map(({ shareId }) => shareId));
+  return shares.length;
+}
+
+async function deleteShares(shareIds: string[]): Promise<void> {
+  for (let i = 0; i < shareIds.length; i += BATCH_WRITE_SIZE) {
+    let pending = shareIds.slice(i, i + BATCH_WRITE_SIZE)
+      .map((shareId) => ({ DeleteRequest: { Key: { shareId } } }));
+
+    while (pending.length > 0) {
+      const result = await docClient.send(new BatchWriteCommand({
+        RequestItems: { [SHARES_TABLE]: pending },
+      }));
+      pending = (result.UnprocessedItems?.[SHARES_TABLE] || []) as typeof pending;
+    }
+  }
+}
+
+/**
+ * Every item of a Query, following LastEvaluatedKey
+ */
+async function queryAll<T>(input: QueryCommandInput): Promise<T[]> {
+  const items: T[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...input,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    items.push(...(result.Items || []) as T[]);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
@@ -0,0 +1,148 @@
+/**
+ * Trash
+ *
+ * Deleting an image moves it to the trash: trashedAt is set and the image is
+ * hidden everywhere except the trash listing (userId-trashedAt-index, a sparse
+ * GSI - only trashed images have the attribute). Until it is purged it keeps
+ * its files, analysis, albums and share links, and counts towards the quota,
+ * so restoring it brings everything back.
+ *
+ * Purging deletes an image for good. Users purge from the trash; images left
+ * there longer than TRASH_RETENTION_DAYS are purged by the scheduled purge.
+ * Pending uploads have nothing to restore and are purged at once.
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, DeleteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ImageMetadata, DEFAULT_TRASH_RETENTION_DAYS } from '../types';
+import { deleteImageObjects, getStoredBytes } from './image-objects';
+import { releaseQuota } from './user-limits';
+import { removeFromSearchIndex } from './search-index';
+import { removeImagesFromAlbums } from './albums';
+import { deleteSharesFor } from './shares';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const IMAGES_TABLE = process.env.IMAGES_TABLE!;
+const ANALYSIS_TABLE = process.env.ANALYSIS_TABLE!;
+
+/**
+ * How many days images stay in the trash (TRASH_RETENTION_DAYS, default 30)
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When an image trashed at trashedAt will be purged (ISO timestamp)
+ */
+export function getPurgeAt(trashedAt: string): string {
+  return new Date(Date.parse(trashedAt) + getTrashRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Move an image to the trash
+ * Returns when it was trashed, or undefined if it was deleted or trashed meanwhile.
+ */
+export async function trashImage(image: ImageMetadata): Promise<string | undefined> {
+  const { imageId } = image;
+  const trashedAt = new Date().toISOString();
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      UpdateExpression: 'SET trashedAt = :trashedAt',
+      ConditionExpression: 'attribute_exists(imageId) AND attribute_not_exists(trashedAt)',
+      ExpressionAttributeValues: { ':trashedAt': trashedAt },
+    }));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image moved to trash',
+    action: 'trash_image',
+    imageId,
+    userId: image.userId,
+  }));
+
+  return trashedAt;
+}
+
+/**
+ * Delete an image and everything that belongs to it, for good
+ *
+ * This removes:
+ * - Image metadata from DynamoDB (and gives the storage quota back)
+ * - The image file, earlier versions and renditions from S3
+ * - Its AI analysis and search index entries
+ * - Its album memberships and share links
+ *
+ * Only an image that is still in the trash, or still a pending upload, is
+ * purged: the image may come from an earlier (GSI) read, and a restore or
+ * completed upload since then must not lose its files. The metadata goes
+ * first, conditionally, and the rest is deleted as it was then.
+ *
+ * Returns false if the image was not purged (already purged, restored or uploaded meanwhile).
+ */
+export async function purgeImage(image: ImageMetadata): Promise<boolean> {
+  const { imageId } = image;
+
+  let deletedImage: ImageMetadata;
+  try {
+    const deleted = await docClient.send(new DeleteCommand({
+      TableName: IMAGES_TABLE,
+      Key: { imageId },
+      ConditionExpression: 'attribute_exists(trashedAt) OR #status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':pending': 'pending' },
+      ReturnValues: 'ALL_OLD',
+    }));
+    deletedImage = deleted.Attributes as ImageMetadata;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      console.log(JSON.stringify({
+        level: 'info',
+        message: 'Image not purged - gone, restored or uploaded meanwhile',
+        action: 'purge_image_skipped',
+        imageId,
+        userId: image.userId,
+      }));
+      return false;
+    }
+    throw error;
+  }
+
+  // Give the storage quota back - never for pending uploads (they reserve quota on completion)
+  if (deletedImage.status !== 'pending') {
+    await releaseQuota(deletedImage.userId, getStoredBytes(deletedImage));
+  }
+
+  const deletedObjects = await deleteImageObjects([deletedImage]);
+
+  // We don't check if an analysis exists first - just attempt to delete
+  await docClient.send(new DeleteCommand({
+    TableName: ANALYSIS_TABLE,
+    Key: { imageId },
+  }));
+
+  await removeFromSearchIndex([imageId]);
+  await removeImagesFromAlbums([imageId]);
+  await deleteSharesFor([imageId]);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    message: 'Image purged',
+    action: 'purge_image',
+    imageId,
+    userId: deletedImage.userId,
+    deletedObjects,
+  }));
+
+  return true;
+}
@@ -0,0 +1,223 @@
+/**
+ * User Limits
+ *
+ * Per-user limits live in the DynamoDB user limits table. The defaults from
+ * ../types apply until an admin sets an override.
+ *
+ * The same record tracks storage usage (imageCount, totalBytes) for quotas.
+ * Uploads reserve quota with a conditional ADD before anything is written to S3,
+ * deletes give it back.
+ *
+ * Shared by the upload Lambda (enforcement), the query Lambda (deletes) and the
+ * auth Lambda (usage report, admin endpoints).
+ */
+
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { UserLimits, QuotaTier, QuotaUsage, DEFAULT_MAX_UPLOAD_SIZE, DEFAULT_QUOTAS } from '../types';
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const USER_LIMITS_TABLE = process.env.USER_LIMITS_TABLE!;
+
+/**
+ * Effective limits for a user (overrides merged with defaults)
+ */
+export interface ResolvedUserLimits {
+  maxUploadSize: number;
+  maxImages: number;
+  maxTotalBytes: number;
+}
+
+/**
+ * Result of a quota check - reason says which quota would be exceeded
+ */
+export type QuotaCheck = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Get the raw limits record for a user (undefined if no overrides are set)
+ */
+export async function getUserLimitsRecord(userId: string): Promise<UserLimits | undefined> {
+  const result = await docClient.send(new GetCommand({
+    TableName: USER_LIMITS_TABLE,
+    Key: { userId },
+  }));
+
+  return result.Item as UserLimits | undefined;
+}
+
+/**
+ * Get the effective limits for a user
+ * Without a tier, the tier seen on the user's last upload is used
+ */
+export async function getUserLimits(userId: string, tier?: QuotaTier): Promise<ResolvedUserLimits> {
+  const record = await getUserLimitsRecord(userId);
+  return resolveLimits(record, tier);
+}
+
+/**
+ * Get a user's storage usage and quota
+ */
+export async function getQuotaUsage(userId: string, tier: QuotaTier): Promise<QuotaUsage> {
+  const record = await getUserLimitsRecord(userId);
+  const limits = resolveLimits(record, tier);
+
+  return {
+    tier,
+    imageCount: record?.imageCount ?? 0,
+    totalBytes: record?.totalBytes ?? 0,
+    maxImages: limits.maxImages,
+    maxTotalBytes: limits.maxTotalBytes,
+  };
+}
+
+/**
+ * Check whether a user has room for more images without reserving it
+ * Used when a direct upload is created - the quota is reserved once the size is known
+ */
+export async function checkQuota(userId: string, tier: QuotaTier, bytes: number, count = 1): Promise<QuotaCheck> {
+  const record = await getUserLimitsRecord(userId);
+  const reason = getQuotaExceededReason(record, resolveLimits(record, tier), bytes, count);
+  return reason ? { allowed: false, reason } : { allowed: true };
+}
+
+/**
+ * Reserve quota for new images
+ * The conditional ADD makes concurrent uploads unable to overshoot the quota together
+ */
+export async function reserveQuota(userId: string, tier: QuotaTier, bytes: number, count = 1): Promise<QuotaCheck> {
+  const record = await getUserLimitsRecord(userId);
+  const limits = resolveLimits(record, tier);
+
+  const reason = getQuotaExceededReason(record, limits, bytes, count);
+  if (reason) {
+    return { allowed: false, reason };
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: USER_LIMITS_TABLE,
+      Key: { userId },
+      UpdateExpression: 'ADD imageCount :count, totalBytes :bytes SET quotaTier = :tier',
+      ConditionExpression:
+        (count > 0 ? '(attribute_not_exists(imageCount) OR imageCount <= :maxCountBefore) AND ' : '') +
+        '(attribute_not_exists(totalBytes) OR totalBytes <= :maxBytesBefore)',
+      ExpressionAttributeValues: {
+        ':count': count,
+        ':bytes': bytes,
+        ':tier': tier,
+        ...(count > 0 && { ':maxCountBefore': limits.maxImages - count }),
+        ':maxBytesBefore': limits.maxTotalBytes - bytes,
+      },
+    }));
+  } catch (error) {
+    // Another upload used up the remaining quota since we read the record
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      return { allowed: false, reason: 'Storage quota exceeded' };
+    }
+    throw error;
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Give back quota when images are deleted (or an upload fails after reserving)
+ */
+export async function releaseQuota(userId: string, bytes: number, count = 1): Promise<void> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: USER_LIMITS_TABLE,
+      Key: { userId },
+      UpdateExpression: 'ADD imageCount :negCount, totalBytes :negBytes',
+      // Images stored before quotas existed were never counted - don't go negative
+      ConditionExpression: 'imageCount >= :count AND totalBytes >= :bytes',
+      ExpressionAttributeValues: {
+        ':count': count,
+        ':bytes': bytes,
+        ':negCount': -count,
+        ':negBytes': -bytes,
+      },
+    }));
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Set or clear limit overrides for a user
+ * Fields set to null are removed so the default applies again
+ */
+export async function updateUserLimits(
+  userId: string,
+  overrides: Record<string, number | null>,
+  updatedBy: string
+): Promise<UserLimits> {
+  const setExpressions = ['updatedAt = :updatedAt', 'updatedBy = :updatedBy'];
+  const removeExpressions: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {
+    ':updatedAt': new Date().toISOString(),
+    ':updatedBy': updatedBy,
+  };
+
+  for (const [field, value] of Object.entries(overrides)) {
+    names[`#${field}`] = field;
+    if (value === null) {
+      removeExpressions.push(`#${field}`);
+    } else {
+      setExpressions.push(`#${field} = :${field}`);
+      values[`:${field}`] = value;
+    }
+  }
+
+  const updateExpression = `SET ${setExpressions.join(', ')}` +
+    (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : '');
+
+  const result = await docClient.send(new UpdateCommand({
+    TableName: USER_LIMITS_TABLE,
+    Key: { userId },
+    UpdateExpression: updateExpression,
+    ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+    ExpressionAttributeValues: values,
+    ReturnValues: 'ALL_NEW',
+  }));
+
+  return result.Attributes as UserLimits;
+}
+
+/**
+ * Merge overrides with the defaults for the user's tier
+ */
+function resolveLimits(record: UserLimits | undefined, tier?: QuotaTier): ResolvedUserLimits {
+  const defaults = DEFAULT_QUOTAS[tier ?? record?.quotaTier ?? 'user'];
+
+  return {
+    maxUploadSize: record?.maxUploadSize ?? DEFAULT_MAX_UPLOAD_SIZE,
+    maxImages: record?.maxImages ?? defaults.maxImages,
+    maxTotalBytes: record?.maxTotalBytes ?? defaults.maxTotalBytes,
+  };
+}
+
+/**
+ * Describe which quota adding `count` images of `bytes` total would exceed (null if none)
+ */
+function getQuotaExceededReason(
+  record: UserLimits | undefined,
+  limits: ResolvedUserLimits,
+  bytes: number,
+  count: number
+): string | null {
+  // count is 0 when an existing image gets new content - that never needs an image slot
+  if (count > 0 && (record?.imageCount ?? 0) + count > limits.maxImages) {
+    return `Image quota exceeded: at most ${limits.maxImages} images allowed`;
+  }
+
+  if ((record?.totalBytes ?? 0) + bytes > limits.maxTotalBytes) {
+    return `Storage quota exceeded: at most ${Math.floor(limits.maxTotalBytes / (1024 * 1024))}MB allowed`;
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+/**
+ * ZIP Archives
+ *
+ * Writes the ZIP format (PKWARE APPNOTE) piece by piece, so an archive can be
+ * streamed to S3 without holding it - or any one file in it - in memory:
+ *
+ *   for each file:  zipLocalHeader, the file's bytes, zipDataDescriptor
+ *   at the end:     zipCentralDirectory
+ *
+ * The caller keeps track of the offset of each local header and the CRC-32
+ * (zlib.crc32) and size of each file. Files are stored, not deflated: photos
+ * are compressed already. Without ZIP64, an archive must stay under 4GB and
+ * 65,535 files (see MAX_ARCHIVE_BYTES and MAX_ARCHIVE_IMAGES).
+ */
+
+/**
+ * A file written to the archive, as listed in the central directory
+ */
+export interface ZipEntry {
+  name: string;             // Path in the archive ('/' separated)
+  offset: number;           // Where its local header starts
+  crc32: number;
+  size: number;
+  modifiedAt: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// Version 2.0 - the first with data descriptors
+const ZIP_VERSION = 20;
+// Bit 3: CRC and sizes follow the data; bit 11: file names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const METHOD_STORED = 0;
+
+/**
+ * Local header of a file - its bytes follow, then zipDataDescriptor
+ */
+export function zipLocalHeader(name: string, modifiedAt: Date): Buffer {
+  const nameBytes = Buffer.from(name, 'utf8');
+  const header = Buffer.alloc(30);
+
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(METHOD_STORED, 8);
+  writeDosDateTime(header, 10, modifiedAt);
+  // CRC-32 and sizes (14-25) stay zero - they are in the data descriptor
+  header.writeUInt16LE(nameBytes.length, 26);
+  header.writeUInt16LE(0, 28); // No extra field
+
+  return Buffer.concat([header, nameBytes]);
+}
+
+/**
+ * Data descriptor written after a file's bytes
+ */
+export function zipDataDescriptor(crc32: number, size: number): Buffer {
+  const descriptor = Buffer.alloc(16);
+
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(crc32 >>> 0, 4);
+  descriptor.writeUInt32LE(size, 8);  // Compressed size - the same when stored
+  descriptor.writeUInt32LE(size, 12);
+
+  return descriptor;
+}
+
+/**
+ * Central directory and end record, closing the archive
+ * offset is where the central directory starts (the bytes written so far).
+ */
+export function zipCentralDirectory(entries: ZipEntry[], offset: number): Buffer {
+  const headers = entries.map((entry) => {
+    const nameBytes = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(46);
+
+    header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4); // Made by
+    header.writeUInt16LE(ZIP_VERSION, 6); // Needed to extract
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(METHOD_STORED, 10);
+    writeDosDateTime(header, 12, entry.modifiedAt);
+    header.writeUInt32LE(entry.crc32 >>> 0, 16);
+    header.writeUInt32LE(entry.size, 20);
+    header.writeUInt32LE(entry.size, 24);
+    header.writeUInt16LE(nameBytes.length, 28);
+    // Extra field, comment, disk number and attributes (30-41) stay zero
+    header.writeUInt32LE(entry.offset, 42);
+
+    return Buffer.concat([header, nameBytes]);
+  });
+
+  const directory = Buffer.concat(headers);
+  const end = Buffer.alloc(22);
+
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  // Disk numbers (4-7) stay zero
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20); // No comment
+
+  return Buffer.concat([directory, end]);
+}
+
+/**
+ * MS-DOS time and date (2-second precision, 1980 at the earliest)
+ */
+function writeDosDateTime(buffer: Buffer, position: number, date: Date): void {
+  const time = isNaN(date.getTime()) || date.getUTCFullYear() < 1980 ? new Date(Date.UTC(1980, 0, 1)) : date;
+
+  buffer.writeUInt16LE(
+    (time.getUTCHours() << 11) | (time.getUTCMinutes() << 5) | Math.floor(time.getUTCSeconds() / 2),
+    position
+  );
+  buffer.writeUInt16LE(
+    ((time.getUTCFullYear() - 1980) << 9) | ((time.getUTCMonth() + 1) << 5) | time.getUTCDate(),
+    position + 2
+  );
+}
@@ -0,0 +1,227 @@
+import { ImageMetadata, ImageAnalysis } from '../src/types';
+import { getArchiveFileName, toManifestJson, toManifestCsv } from '../src/utils/archive-manifest';
+
+function makeImage(overrides: Partial<ImageMetadata> = {}): ImageMetadata {
+  return {
+    imageId: '550e8400-e29b-41d4-a716-446655440000',
+    userId: 'user-1',
+    filename: '550e8400-e29b-41d4-a716-446655440000.jpg',
+    originalName: 'beach.jpg',
+    mimetype: 'image/jpeg',
+    size: 1024,
+    uploadedAt: '2024-06-15T12:00:00.000Z',
+    s3Key: 'images/550e8400-e29b-41d4-a716-446655440000.jpg',
+    status: 'analyzed',
+    ...overrides,
+  };
+}
+
+function makeAnalysis(overrides: Partial<ImageAnalysis> = {}): ImageAnalysis {
+  return {
+    imageId: '550e8400-e29b-41d4-a716-446655440000',
+    userId: 'user-1',
+    filename: '550e8400-e29b-41d4-a716-446655440000.jpg',
+    description: 'A sandy beach',
+    keywords: ['beach', 'sea'],
+    detectedText: [],
+    status: 'completed',
+    createdAt: '2024-06-15T12:00:01.000Z',
+    analyzedAt: '2024-06-15T12:00:05.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  expect(row).toEqual([]);
+  expect(field).toBe('');
+
+  return rows;
+}
+
+/**
+ * The CSV row of one image, by column
+ */
+function csvRow(image: ImageMetadata, analysis?: ImageAnalysis): Record<string, string> {
+  const [header, row] = parseCsv(toManifestCsv([{ file: 'images/beach.jpg', image, analysis }]));
+  return Object.fromEntries(header.map((column, i) => [column, row[i]]));
+}
+
+describe('getArchiveFileName', () => {
+  test('uses the original name under images/', () => {
+    expect(getArchiveFileName(makeImage(), new Set())).toBe('images/beach.jpg');
+  });
+
+  test('numbers names already used, ignoring case', () => {
+    const usedNames = new Set<string>();
+
+    expect(getArchiveFileName(makeImage(), usedNames)).toBe('images/beach.jpg');
+    expect(getArchiveFileName(makeImage(), usedNames)).toBe('images/beach (2).jpg');
+    expect(getArchiveFileName(makeImage({ originalName: 'BEACH.JPG' }), usedNames)).toBe('images/BEACH (3).JPG');
+    expect(getArchiveFileName(makeImage({ originalName: 'beach (2).jpg' }), usedNames)).toBe('images/beach (2) (2).jpg');
+  });
+
+  test('replaces characters file systems refuse', () => {
+    const image = makeImage({ originalName: '../a/b\\c:d*e?f"g<h>i|j\x00k\nl.jpg' });
+
+    expect(getArchiveFileName(image, new Set())).toBe('images/.._a_b_c_d_e_f_g_h_i_j_k_l.jpg');
+  });
+
+  test('names without an extension, or starting with a dot', () => {
+    const usedNames = new Set<string>();
+
+    expect(getArchiveFileName(makeImage({ originalName: 'README' }), usedNames)).toBe('images/README');
+    expect(getArchiveFileName(makeImage({ originalName: 'README' }), usedNames)).toBe('images/README (2)');
+    expect(getArchiveFileName(makeImage({ originalName: '.hidden' }), usedNames)).toBe('images/.hidden');
+    expect(getArchiveFileName(makeImage({ originalName: '.hidden' }), usedNames)).toBe('images/.hidden (2)');
+  });
+
+  test('falls back to the stored file name, then the image ID', () => {
+    expect(getArchiveFileName(makeImage({ originalName: '' }), new Set()))
+      .toBe('images/550e8400-e29b-41d4-a716-446655440000.jpg');
+    expect(getArchiveFileName(makeImage({ originalName: '  ' }), new Set()))
+      .toBe('images/550e8400-e29b-41d4-a716-446655440000');
+  });
+});
+
+describe('toManifestJson', () => {
+  test('lists each image with its file and analysis', () => {
+    const image = makeImage({ tags: ['holiday'], latitude: -33.5, longitude: 151.2 });
+    const manifest = JSON.parse(toManifestJson([
+      { file: 'images/beach.jpg', image, analysis: makeAnalysis() },
+      { file: 'images/beach (2).jpg', image: makeImage({ status: 'uploaded' }) },
+    ], '2024-06-16T00:00:00.000Z'));
+
+    expect(manifest.createdAt).toBe('2024-06-16T00:00:00.000Z');
+    expect(manifest.imageCount).toBe(2);
+    expect(manifest.images[0]).toMatchObject({
+      file: 'images/beach.jpg',
+      id: image.imageId,
+      originalName: 'beach.jpg',
+      tags: ['holiday'],
+      latitude: -33.5,
+      longitude: 151.2,
+      analysis: {
+        status: 'completed',
+        description: 'A sandy beach',
+        keywords: ['beach', 'sea'],
+        detectedText: [],
+        analyzedAt: '2024-06-15T12:00:05.000Z',
+      },
+    });
+    expect(manifest.images[1].file).toBe('images/beach (2).jpg');
+    expect(manifest.images[1].analysis).toBeNull();
+  });
+
+  test('leaves out the S3 key', () => {
+    const manifest = JSON.parse(toManifestJson([{ file: 'images/beach.jpg', image: makeImage() }], ''));
+
+    expect(manifest.images[0].s3Key).toBeUndefined();
+  });
+});
+
+describe('toManifestCsv', () => {
+  test('header row and CRLF line endings', () => {
+    const csv = toManifestCsv([]);
+
+    expect(csv.startsWith('file,id,originalName,')).toBe(true);
+    expect(csv.endsWith('analyzedAt\r\n')).toBe(true);
+    expect(csv.split('\r\n')).toHaveLength(2);
+  });
+
+  test('one row per image, lists joined with "; "', () => {
+    const row = csvRow(makeImage({ tags: ['sun', 'sea'], width: 800, height: 600 }), makeAnalysis());
+
+    expect(row).toMatchObject({
+      file: 'images/beach.jpg',
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      tags: 'sun; sea',
+      size: '1024',
+      width: '800',
+      height: '600',
+      analysisStatus: 'completed',
+      keywords: 'beach; sea',
+      detectedText: '',
+    });
+  });
+
+  test('missing values are empty fields', () => {
+    const row = csvRow(makeImage());
+
+    expect(row.title).toBe('');
+    expect(row.latitude).toBe('');
+    expect(row.analysisStatus).toBe('');
+    expect(row.description).toBe('');
+  });
+
+  test('quotes fields with commas, quotes or line breaks', () => {
+    const csv = toManifestCsv([{
+      file: 'images/beach.jpg',
+      image: makeImage({ title: 'Sun, sea', caption: 'A "quoted" word', tags: ['line\r\nbreak'] }),
+    }]);
+
+    expect(csv).toContain(',"Sun, sea","A ""quoted"" word","line\r\nbreak",');
+
+    const [header, row] = parseCsv(csv);
+    expect(row).toHaveLength(header.length);
+    expect(row[header.indexOf('title')]).toBe('Sun, sea');
+    expect(row[header.indexOf('caption')]).toBe('A "quoted" word');
+    expect(row[header.indexOf('tags')]).toBe('line\r\nbreak');
+  });
+
+  test('text a spreadsheet would run as a formula starts with a quote', () => {
+    const row = csvRow(makeImage({
+      title: '=HYPERLINK("http://example.com")',
+      caption: '+1',
+      cameraMake: '-Canon',
+      cameraModel: '@SUM(A1)',
+      tags: ['=1+1', 'beach'],
+    }));
+
+    expect(row.title).toBe('\'=HYPERLINK("http://example.com")');
+    expect(row.caption).toBe('\'+1');
+    expect(row.cameraMake).toBe('\'-Canon');
+    expect(row.cameraModel).toBe('\'@SUM(A1)');
+    expect(row.tags).toBe('\'=1+1; beach');
+  });
+
+  test('numbers are written as they are, negative ones included', () => {
+    const row = csvRow(makeImage({ latitude: -33.5, longitude: -0.25 }));
+
+    expect(row.latitude).toBe('-33.5');
+    expect(row.longitude).toBe('-0.25');
+  });
+});
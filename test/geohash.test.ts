@@ -0,0 +1,130 @@
+import {
+  encodeGeohash,
+  coverBoundingBox,
+  boundingBoxAround,
+  isInBoundingBox,
+  boundingBoxCenter,
+  distanceKm,
+  GEOHASH_PRECISION,
+} from '../src/utils/geohash';
+import { GeoBoundingBox } from '../src/types';
+
+/**
+ * Whether a position's geohash falls in one of the cells
+ */
+function isCovered(cells: string[], latitude: number, longitude: number): boolean {
+  const geohash = encodeGeohash(latitude, longitude);
+  return cells.some((cell) => geohash.startsWith(cell));
+}
+
+describe('encodeGeohash', () => {
+  test('known geohashes', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash(42.6, -5.6, 5)).toBe('ezs42');
+    expect(encodeGeohash(-33.8568, 151.2153)).toHaveLength(GEOHASH_PRECISION);
+  });
+
+  test('corners of the world', () => {
+    expect(encodeGeohash(-90, -180, 3)).toBe('000');
+    expect(encodeGeohash(90, 180, 3)).toBe('zzz');
+    expect(encodeGeohash(0, 0, 1)).toBe('s');
+  });
+
+  test('a shorter geohash is a prefix of a longer one', () => {
+    expect(encodeGeohash(57.64911, 10.40744).startsWith(encodeGeohash(57.64911, 10.40744, 4))).toBe(true);
+  });
+});
+
+describe('coverBoundingBox', () => {
+  test('covers every position in the box, within maxCells', () => {
+    const box: GeoBoundingBox = { north: 51.6, south: 51.4, west: -0.3, east: 0.1 };
+    const cells = coverBoundingBox(box, 16);
+
+    expect(cells.length).toBeGreaterThan(0);
+    expect(cells.length).toBeLessThanOrEqual(16);
+    expect(new Set(cells.map((cell) => cell.length)).size).toBe(1);
+    for (const [latitude, longitude] of [[51.6, -0.3], [51.4, 0.1], [51.5, -0.1], [51.4, -0.3], [51.6, 0.1]]) {
+      expect(isCovered(cells, latitude, longitude)).toBe(true);
+    }
+  });
+
+  test('uses the finest precision allowed', () => {
+    const box: GeoBoundingBox = { north: 51.6, south: 51.4, west: -0.3, east: 0.1 };
+
+    expect(coverBoundingBox(box, 100)[0].length).toBeGreaterThan(coverBoundingBox(box, 4)[0].length);
+    expect(coverBoundingBox({ north: 1e-6, south: 0, west: 0, east: 1e-6 }, 4)).toEqual([encodeGeohash(0, 0)]);
+  });
+
+  test('box crossing the antimeridian covers both sides', () => {
+    const cells = coverBoundingBox({ north: 1, south: -1, west: 179, east: -179 }, 8);
+
+    expect(cells.length).toBeLessThanOrEqual(8);
+    expect(isCovered(cells, 0, 179.5)).toBe(true);
+    expect(isCovered(cells, 0, -179.5)).toBe(true);
+    expect(isCovered(cells, 0.5, 180)).toBe(true);
+    expect(isCovered(cells, 0, 0)).toBe(false);
+  });
+
+  test('the whole world is the 32 one-character cells', () => {
+    const cells = coverBoundingBox({ north: 90, south: -90, west: -180, east: 180 }, 4);
+
+    expect(cells).toHaveLength(32);
+    expect(cells.every((cell) => cell.length === 1)).toBe(true);
+  });
+});
+
+describe('boundingBoxAround', () => {
+  test('contains the circle', () => {
+    const box = boundingBoxAround(48.8566, 2.3522, 10);
+
+    expect(isInBoundingBox(48.8566, 2.3522, box)).toBe(true);
+    expect(distanceKm(48.8566, 2.3522, box.north, 2.3522)).toBeCloseTo(10, 5);
+    expect(distanceKm(48.8566, 2.3522, 48.8566, box.east)).toBeGreaterThanOrEqual(10);
+  });
+
+  test('circle over the antimeridian wraps', () => {
+    const box = boundingBoxAround(0, 179.95, 20);
+
+    expect(box.west).toBeGreaterThan(box.east);
+    expect(isInBoundingBox(0, -179.95, box)).toBe(true);
+  });
+
+  test('circle around a pole covers every longitude', () => {
+    expect(boundingBoxAround(89.99, 0, 50)).toEqual({ north: 90, south: expect.any(Number), west: -180, east: 180 });
+  });
+});
+
+describe('isInBoundingBox', () => {
+  const crossing: GeoBoundingBox = { north: 10, south: -10, west: 170, east: -170 };
+
+  test('edges are inside', () => {
+    expect(isInBoundingBox(10, -170, crossing)).toBe(true);
+    expect(isInBoundingBox(-10, 170, crossing)).toBe(true);
+  });
+
+  test('box crossing the antimeridian', () => {
+    expect(isInBoundingBox(0, 180, crossing)).toBe(true);
+    expect(isInBoundingBox(0, -175, crossing)).toBe(true);
+    expect(isInBoundingBox(0, 0, crossing)).toBe(false);
+    expect(isInBoundingBox(11, 175, crossing)).toBe(false);
+  });
+});
+
+describe('boundingBoxCenter', () => {
+  test('center of a box crossing the antimeridian', () => {
+    expect(boundingBoxCenter({ north: 10, south: -10, west: 170, east: -170 })).toEqual({ latitude: 0, longitude: 180 });
+    expect(boundingBoxCenter({ north: 10, south: 0, west: -10, east: 30 })).toEqual({ latitude: 5, longitude: 10 });
+  });
+});
+
+describe('distanceKm', () => {
+  test('known distances', () => {
+    expect(distanceKm(51.5074, -0.1278, 51.5074, -0.1278)).toBe(0);
+    // London to Paris
+    expect(distanceKm(51.5074, -0.1278, 48.8566, 2.3522)).toBeCloseTo(343.5, 0);
+    // Half the equator
+    expect(distanceKm(0, 0, 0, 180)).toBeCloseTo(Math.PI * 6371, 3);
+    // Across the antimeridian
+    expect(distanceKm(0, 179.5, 0, -179.5)).toBeCloseTo(111.19, 1);
+  });
+});
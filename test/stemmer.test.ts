@@ -0,0 +1,46 @@
+import { stem } from '../src/utils/stemmer';
+
+describe('stem', () => {
+  // Examples from Porter's "An algorithm for suffix stripping"
+  test.each([
+    // Step 1a - plurals
+    ['caresses', 'caress'], ['ponies', 'poni'], ['ties', 'ti'], ['caress', 'caress'], ['cats', 'cat'],
+    // Step 1b - -ed and -ing
+    ['feed', 'feed'], ['agreed', 'agre'], ['plastered', 'plaster'], ['bled', 'bled'], ['motoring', 'motor'],
+    ['sing', 'sing'], ['conflated', 'conflat'], ['troubled', 'troubl'], ['sized', 'size'], ['hopping', 'hop'],
+    ['tanned', 'tan'], ['falling', 'fall'], ['hissing', 'hiss'], ['fizzed', 'fizz'], ['failing', 'fail'],
+    ['filing', 'file'],
+    // Step 1c - y to i
+    ['happy', 'happi'], ['sky', 'sky'],
+    // Steps 2 to 4 - derivational suffixes
+    ['relational', 'relat'], ['conditional', 'condit'], ['rational', 'ration'], ['hesitanci', 'hesit'],
+    ['digitizer', 'digit'], ['vietnamization', 'vietnam'], ['operator', 'oper'], ['feudalism', 'feudal'],
+    ['hopefulness', 'hope'], ['callousness', 'callous'], ['formaliti', 'formal'], ['sensibiliti', 'sensibl'],
+    ['triplicate', 'triplic'], ['formative', 'form'], ['electriciti', 'electr'], ['goodness', 'good'],
+    ['revival', 'reviv'], ['allowance', 'allow'], ['airliner', 'airlin'], ['adjustment', 'adjust'],
+    ['dependent', 'depend'], ['adoption', 'adopt'], ['communism', 'commun'], ['effective', 'effect'],
+    ['bowdlerize', 'bowdler'], ['generalizations', 'gener'],
+    // Step 5 - final e and ll
+    ['probate', 'probat'], ['rate', 'rate'], ['cease', 'ceas'], ['controll', 'control'], ['roll', 'roll'],
+  ])('%s -> %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  test('revised rules for -bli and -logi', () => {
+    expect(stem('conformabli')).toBe('conform');
+    expect(stem('archaeology')).toBe('archaeolog');
+  });
+
+  test('forms of a word share a stem', () => {
+    expect(new Set(['mountain', 'mountains'].map(stem))).toEqual(new Set(['mountain']));
+    expect(new Set(['run', 'running', 'runs'].map(stem))).toEqual(new Set(['run']));
+  });
+
+  test('short words and words that are not lowercase a-z stay as they are', () => {
+    expect(stem('at')).toBe('at');
+    expect(stem('is')).toBe('is');
+    expect(stem('IS')).toBe('IS');
+    expect(stem('café')).toBe('café');
+    expect(stem('mp3s')).toBe('mp3s');
+  });
+});
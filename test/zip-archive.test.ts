@@ -0,0 +1,145 @@
+import { crc32 } from 'zlib';
+import { ZipEntry, zipLocalHeader, zipDataDescriptor, zipCentralDirectory } from '../src/utils/zip-archive';
+
+/**
+ * Builds an archive the way the archive handler streams it
+ */
+function buildZip(files: { name: string; data: Buffer; modifiedAt: Date }[]): Buffer {
+  const parts: Buffer[] = [];
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const { name, data, modifiedAt } of files) {
+    const checksum = crc32(data);
+    entries.push({ name, offset, crc32: checksum, size: data.length, modifiedAt });
+    for (const part of [zipLocalHeader(name, modifiedAt), data, zipDataDescriptor(checksum, data.length)]) {
+      parts.push(part);
+      offset += part.length;
+    }
+  }
+  parts.push(zipCentralDirectory(entries, offset));
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Reads an archive from its end record, as unzip does, checking each local header
+ */
+function readZip(zip: Buffer) {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  expect(zip.readUInt16LE(end + 20)).toBe(0); // No comment
+
+  const count = zip.readUInt16LE(end + 10);
+  const directorySize = zip.readUInt32LE(end + 12);
+  const directoryOffset = zip.readUInt32LE(end + 16);
+  expect(zip.readUInt16LE(end + 8)).toBe(count);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const files = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const flags = zip.readUInt16LE(position + 8);
+    const method = zip.readUInt16LE(position + 10);
+    const time = zip.readUInt16LE(position + 12);
+    const date = zip.readUInt16LE(position + 14);
+    const checksum = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const extraLength = zip.readUInt16LE(position + 30);
+    const commentLength = zip.readUInt16LE(position + 32);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // The local header agrees with the central directory
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    expect(zip.readUInt16LE(localOffset + 6)).toBe(flags);
+    expect(zip.readUInt16LE(localOffset + 8)).toBe(method);
+    expect(zip.readUInt16LE(localOffset + 10)).toBe(time);
+    expect(zip.readUInt16LE(localOffset + 12)).toBe(date);
+    const localNameLength = zip.readUInt16LE(localOffset + 26);
+    const localExtraLength = zip.readUInt16LE(localOffset + 28);
+    expect(zip.toString('utf8', localOffset + 30, localOffset + 30 + localNameLength)).toBe(name);
+
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = zip.subarray(dataStart, dataStart + size);
+
+    // Bit 3 set: the CRC and sizes follow the data
+    const descriptor = dataStart + compressedSize;
+    expect(zip.readUInt32LE(descriptor)).toBe(0x08074b50);
+    expect(zip.readUInt32LE(descriptor + 4)).toBe(checksum);
+    expect(zip.readUInt32LE(descriptor + 8)).toBe(compressedSize);
+    expect(zip.readUInt32LE(descriptor + 12)).toBe(size);
+
+    files.push({ name, flags, method, time, date, checksum, compressedSize, size, data });
+  }
+  expect(position).toBe(end);
+
+  return files;
+}
+
+describe('zip archive', () => {
+  const modifiedAt = new Date('2024-06-15T13:45:31Z');
+
+  test('archive of stored files can be read back', () => {
+    const files = [
+      { name: 'images/beach.jpg', data: Buffer.from('not really a jpeg'), modifiedAt },
+      { name: 'images/café (2).jpg', data: Buffer.alloc(70000, 7), modifiedAt },
+      { name: 'manifest.json', data: Buffer.from('{}'), modifiedAt },
+    ];
+
+    const read = readZip(buildZip(files));
+
+    expect(read.map((file) => file.name)).toEqual(files.map((file) => file.name));
+    read.forEach((file, i) => {
+      expect(file.flags).toBe(0x0808); // Data descriptor, UTF-8 names
+      expect(file.method).toBe(0);      // Stored
+      expect(file.compressedSize).toBe(file.size);
+      expect(file.data.equals(files[i].data)).toBe(true);
+      expect(file.checksum).toBe(crc32(files[i].data));
+    });
+  });
+
+  test('empty archive is just the end record', () => {
+    const zip = buildZip([]);
+
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+
+  test('empty file', () => {
+    const [file] = readZip(buildZip([{ name: 'empty.txt', data: Buffer.alloc(0), modifiedAt }]));
+
+    expect(file.size).toBe(0);
+    expect(file.checksum).toBe(0);
+  });
+
+  test('modification time is an MS-DOS date and time in UTC', () => {
+    const header = zipLocalHeader('a', modifiedAt);
+
+    // 13:45:31 rounds down to an even second
+    expect(header.readUInt16LE(10)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(header.readUInt16LE(12)).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+  });
+
+  test('dates before 1980 or invalid become 1980-01-01', () => {
+    const earliest = (1 << 5) | 1;
+
+    for (const date of [new Date('1970-01-01T12:00:00Z'), new Date('invalid')]) {
+      const header = zipLocalHeader('a', date);
+      expect(header.readUInt16LE(10)).toBe(0);
+      expect(header.readUInt16LE(12)).toBe(earliest);
+    }
+  });
+
+  test('CRC-32 above 2^31 is written unsigned', () => {
+    const descriptor = zipDataDescriptor(-1, 5);
+
+    expect(descriptor.readUInt32LE(4)).toBe(0xffffffff);
+    expect(descriptor.readUInt32LE(8)).toBe(5);
+    expect(descriptor.readUInt32LE(12)).toBe(5);
+  });
+});